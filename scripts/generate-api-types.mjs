@@ -0,0 +1,141 @@
+#!/usr/bin/env node
+// Generates TypeScript types for the operations in api/nostria.openapi.json, which
+// ApiService uses to check its requests and responses at compile time.
+//
+//   node scripts/generate-api-types.mjs          write the types
+//   node scripts/generate-api-types.mjs --check  fail if the written types are out of date
+//
+// Supports the parts of OpenAPI 3.1 the document uses: $ref, objects, arrays, enums,
+// oneOf and additionalProperties. An `x-extensible-enum` lists the known values of a
+// string the server may add to, so its type also takes any other string. Operations and
+// parameters marked `x-proposed` are not in the API yet, which their comments say.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const specPath = join(root, 'api/nostria.openapi.json');
+const outputPath = join(root, 'src/app/shared/models/nostria-api.generated.ts');
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+const spec = JSON.parse(readFileSync(specPath, 'utf8'));
+
+function indent(text, depth) {
+  return text.replace(/\n/g, `\n${'  '.repeat(depth)}`);
+}
+
+function comment(text) {
+  return text ? `/** ${text} */\n` : '';
+}
+
+function proposed(item, text) {
+  return item['x-proposed'] ? `Proposed, not in the API yet${text ? `: ${text}` : ''}` : text;
+}
+
+function propertyName(name) {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`;
+}
+
+function typeOf(schema) {
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/components/schemas/', '');
+    if (!spec.components.schemas[name]) throw new Error(`Unknown schema ${schema.$ref}`);
+    return `ApiSchemas['${name}']`;
+  }
+  if (schema.oneOf) return schema.oneOf.map(typeOf).join(' | ');
+  if (schema.enum) return schema.enum.map(value => typeof value === 'string' ? `'${value}'` : String(value)).join(' | ');
+  if (schema['x-extensible-enum']) return [...schema['x-extensible-enum'].map(value => `'${value}'`), '(string & {})'].join(' | ');
+
+  switch (schema.type) {
+    case 'string': return 'string';
+    case 'integer':
+    case 'number': return 'number';
+    case 'boolean': return 'boolean';
+    case 'array': {
+      const item = typeOf(schema.items);
+      return /[ |]/.test(item) ? `Array<${item}>` : `${item}[]`;
+    }
+    case 'object': return objectType(schema);
+    case undefined: return 'unknown';
+    default: throw new Error(`Unsupported schema type ${schema.type}`);
+  }
+}
+
+function objectType(schema) {
+  const required = new Set(schema.required ?? []);
+  const lines = Object.entries(schema.properties ?? {}).map(([name, property]) =>
+    `${comment(property.description)}${propertyName(name)}${required.has(name) ? '' : '?'}: ${typeOf(property)};`
+  );
+
+  const additional = schema.additionalProperties;
+  if (additional) {
+    const value = additional === true ? 'unknown' : typeOf(additional);
+    if (lines.length === 0) return `Record<string, ${value}>`;
+    lines.push(`[key: string]: ${value};`);
+  }
+  return lines.length ? `{\n  ${indent(lines.join('\n'), 1)}\n}` : 'Record<string, never>';
+}
+
+function operationType(path, method, operation) {
+  const parameters = operation.parameters ?? [];
+  const group = where => {
+    const params = parameters.filter(param => param.in === where);
+    return params.length ? objectType({
+      properties: Object.fromEntries(params.map(param => [param.name, { ...param.schema, description: proposed(param, param.description) }])),
+      required: params.filter(param => param.required).map(param => param.name)
+    }) : null;
+  };
+
+  const success = Object.entries(operation.responses).find(([status]) => /^2\d\d$/.test(status))?.[1];
+  const response = success?.content?.['application/json']?.schema;
+  const body = operation.requestBody?.content?.['application/json']?.schema;
+
+  const members = [
+    ['params', group('path')],
+    ['query', group('query')],
+    ['body', body && typeOf(body)],
+    ['response', response ? typeOf(response) : 'void']
+  ].filter(([, type]) => type).map(([name, type]) => `${name}: ${type};`);
+
+  return `${comment(proposed(operation, operation.summary))}'${method.toUpperCase()} ${path}': {\n  ${indent(members.join('\n'), 1)}\n};`;
+}
+
+const schemaLines = Object.entries(spec.components.schemas).map(([name, schema]) =>
+  `${comment(schema.description)}${name}: ${typeOf(schema)};`
+);
+
+const operationLines = Object.entries(spec.paths).flatMap(([path, item]) =>
+  METHODS.filter(method => item[method]).map(method => operationType(path, method, item[method]))
+);
+
+const output = `// Generated by scripts/generate-api-types.mjs from ${relative(root, specPath)}. Do not edit;
+// change the document and run \`npm run api:generate\` instead.
+
+/** Models of the ${spec.info.title} ${spec.info.version} */
+export interface ApiSchemas {
+  ${indent(schemaLines.join('\n'), 1)}
+}
+
+/** Every operation, keyed by method and path template */
+export interface ApiOperations {
+  ${indent(operationLines.join('\n'), 1)}
+}
+`;
+
+if (process.argv.includes('--check')) {
+  let current = '';
+  try {
+    current = readFileSync(outputPath, 'utf8');
+  } catch {
+    // Missing counts as out of date
+  }
+  if (current !== output) {
+    console.error(`${relative(root, outputPath)} is out of date with ${relative(root, specPath)}; run npm run api:generate`);
+    process.exit(1);
+  }
+  console.log(`${relative(root, outputPath)} is up to date`);
+} else {
+  writeFileSync(outputPath, output);
+  console.log(`Wrote ${relative(root, outputPath)}`);
+}
@@ -1,12 +1,29 @@
-import { ApplicationConfig, provideBrowserGlobalErrorListeners, provideZoneChangeDetection } from '@angular/core';
+import { ApplicationConfig, inject, provideAppInitializer, provideBrowserGlobalErrorListeners, provideZoneChangeDetection } from '@angular/core';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
 import { provideRouter } from '@angular/router';
 
 import { routes } from './app.routes';
+import { SessionService } from './core/services/session.service';
+import { ApiService } from './core/services/api.service';
+import { BackendEnvironmentService } from './core/services/backend-environment.service';
+import { apiInterceptors } from './core/interceptors/api-interceptors';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
     provideZoneChangeDetection({ eventCoalescing: true }),
-    provideRouter(routes)
+    provideRouter(routes),
+    provideHttpClient(withInterceptors(apiInterceptors)),
+    // Reconnect the stored admin session in the background; don't hold up the first render
+    provideAppInitializer(() => {
+      void inject(SessionService).restore();
+    }),
+    // Pick the backend before anything talks to it, then measure clock skew up
+    // front so the first NIP-98 token already carries server time
+    provideAppInitializer(async () => {
+      const apiService = inject(ApiService);
+      await inject(BackendEnvironmentService).load();
+      void apiService.syncServerClock();
+    })
   ]
 };
@@ -5,30 +5,64 @@ import { ServerList } from './features/servers/server-list/server-list';
 import { AccountManagement } from './features/accounts/account-management';
 import { BackupManagement } from './features/backups/backup-management';
 import { NotificationManagement } from './features/notifications/notification-management';
+import { authGuard } from './core/guards/auth.guard';
 
 export const routes: Routes = [
   { path: '', redirectTo: '/dashboard', pathMatch: 'full' },
-  { path: 'dashboard', component: Dashboard },
-  { path: 'customers', component: CustomerList },
-  { path: 'servers', component: ServerList },
-  { path: 'accounts', component: AccountManagement },
-  { path: 'backups', component: BackupManagement },
+  { path: 'dashboard', component: Dashboard, canActivate: [authGuard], data: { permissions: ['dashboard:view'] } },
+  { path: 'customers', component: CustomerList, canActivate: [authGuard], data: { permissions: ['accounts:view'] } },
+  { path: 'servers', component: ServerList, canActivate: [authGuard], data: { permissions: ['status:view'] } },
+  { path: 'accounts', component: AccountManagement, canActivate: [authGuard], data: { permissions: ['accounts:view'] } },
+  {
+    path: 'accounts/:pubkey',
+    canActivate: [authGuard],
+    data: { permissions: ['accounts:view'] },
+    loadComponent: () => import('./features/accounts/account-detail').then(m => m.AccountDetail)
+  },
+  { path: 'backups', component: BackupManagement, canActivate: [authGuard], data: { permissions: ['backups:manage'] } },
     {
     path: 'notifications',
+    canActivate: [authGuard],
+    data: { permissions: ['notifications:manage'] },
     loadComponent: () => import('./features/notifications/notification-management').then(m => m.NotificationManagement)
   },
   {
     path: 'payments',
+    canActivate: [authGuard],
+    data: { permissions: ['payments:view'] },
     loadComponent: () => import('./features/payments/payment-management').then(m => m.PaymentManagement)
   },
   {
     path: 'settings',
+    canActivate: [authGuard],
+    data: { permissions: ['settings:users', 'settings:grok'] },
     loadComponent: () => import('./features/settings/settings-management').then(m => m.SettingsManagement)
   },
   {
     path: 'status',
+    canActivate: [authGuard],
+    data: { permissions: ['status:view'] },
     loadComponent: () => import('./features/status/status-monitoring').then(m => m.StatusMonitoring)
   },
+  {
+    path: 'auth-debugger',
+    canActivate: [authGuard],
+    loadComponent: () => import('./features/auth-debugger/auth-debugger').then(m => m.AuthDebugger)
+  },
+  {
+    path: 'audit-log',
+    canActivate: [authGuard],
+    loadComponent: () => import('./features/audit-log/audit-log').then(m => m.AuditLog)
+  },
+  {
+    path: 'activity',
+    canActivate: [authGuard],
+    loadComponent: () => import('./features/activity-log/activity-log').then(m => m.ActivityLog)
+  },
+  {
+    path: 'login',
+    loadComponent: () => import('./features/login/login').then(m => m.Login)
+  },
   // TODO: Add routes for remaining components when created:
   // { path: 'payments', component: PaymentManagement },
   // { path: 'settings', component: SettingsManagement },
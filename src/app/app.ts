@@ -1,13 +1,20 @@
 import { Component, signal } from '@angular/core';
 import { RouterOutlet, RouterLink, RouterLinkActive } from '@angular/router';
+import { AccessControlService } from './core/services/access-control.service';
+import { ClockSkewWarning } from './shared/components/clock-skew-warning/clock-skew-warning';
+import { IdentitySwitcher } from './shared/components/identity-switcher/identity-switcher';
+import { BackendSwitcher } from './shared/components/backend-switcher/backend-switcher';
+import { ProductionBanner } from './shared/components/production-banner/production-banner';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet, RouterLink, RouterLinkActive],
+  imports: [RouterOutlet, RouterLink, RouterLinkActive, ClockSkewWarning, IdentitySwitcher, BackendSwitcher, ProductionBanner],
   templateUrl: './app.html',
   styleUrl: './app.scss'
 })
 export class App {
   protected readonly title = signal('nostria-management-portal');
   protected readonly angularVersion = '20.3.0';
+
+  constructor(protected access: AccessControlService) {}
 }
@@ -0,0 +1,77 @@
+import { HttpTestingController } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+import { ActivatedRouteSnapshot, Router, RouterStateSnapshot, UrlTree } from '@angular/router';
+import { environment as productionEnvironment } from '../../../environments/environment.prod';
+import { provideApiTesting } from '../interceptors/api-testing';
+import { BackendEnvironmentService } from '../services/backend-environment.service';
+import { SignerService } from '../services/signer.service';
+import { Permission, RuntimeConfig } from '../../shared/models/api.models';
+import { authGuard } from './auth.guard';
+
+describe('authGuard', () => {
+  let signer: SignerService;
+  let router: Router;
+  let backend: BackendEnvironmentService;
+
+  function run(url: string, permissions?: Permission[]) {
+    const route = { data: permissions ? { permissions } : {} } as unknown as ActivatedRouteSnapshot;
+    const state = { url } as RouterStateSnapshot;
+    return TestBed.runInInjectionContext(() => authGuard(route, state)) as Promise<boolean | UrlTree>;
+  }
+
+  beforeEach(() => {
+    localStorage.removeItem('nostria-admin-session');
+    TestBed.configureTestingModule({ providers: provideApiTesting() });
+    signer = TestBed.inject(SignerService);
+    router = TestBed.inject(Router);
+    backend = TestBed.inject(BackendEnvironmentService);
+  });
+
+  afterEach(() => {
+    signer.logout();
+  });
+
+  it('should send signed-out admins to the login page with a return url', async () => {
+    const result = await run('/accounts', ['accounts:view']);
+
+    expect(router.serializeUrl(result as UrlTree)).toBe('/login?returnUrl=%2Faccounts');
+  });
+
+  it('should allow pages covered by the admin role and deny the rest', async () => {
+    const pubkey = await signer.loginWithEphemeralKey();
+    backend.admins.set([{ pubkey, roles: ['support'] }]);
+
+    expect(await run('/accounts', ['accounts:view'])).toBeTrue();
+
+    const denied = await run('/payments', ['payments:view']);
+    expect(router.serializeUrl(denied as UrlTree)).toBe('/login?returnUrl=%2Fpayments&denied=1');
+  });
+
+  describe('with the production environment', () => {
+    beforeEach(() => {
+      backend.admins.set(productionEnvironment.admins);
+      backend.unlistedAdminRoles.set(productionEnvironment.unlistedAdminRoles);
+    });
+
+    it('should let in the admins listed in config.json and no one else', async () => {
+      const httpMock = TestBed.inject(HttpTestingController);
+      const pubkey = await signer.loginWithEphemeralKey();
+
+      expect(await run('/accounts')).not.toBeTrue();
+
+      const config: RuntimeConfig = {
+        environments: [{ id: 'production', label: 'Production', apiBaseUrl: 'https://api.test', production: true }],
+        admins: [{ pubkey, roles: ['viewer'], label: 'Ops' }]
+      };
+      const loading = backend.load();
+      httpMock.expectOne('config.json').flush(config);
+      await loading;
+
+      expect(await run('/accounts', ['accounts:view'])).toBeTrue();
+
+      await signer.loginWithEphemeralKey();
+      const denied = await run('/accounts', ['accounts:view']);
+      expect(router.serializeUrl(denied as UrlTree)).toBe('/login?returnUrl=%2Faccounts&denied=1');
+    });
+  });
+});
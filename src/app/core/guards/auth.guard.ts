@@ -0,0 +1,31 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { AccessControlService } from '../services/access-control.service';
+import { SessionService } from '../services/session.service';
+import { Permission } from '../../shared/models/api.models';
+
+/**
+ * Requires a signed-in admin session. Routes can also require permissions
+ * through `data: { permissions: [...] }`; holding any one of them is enough.
+ */
+export const authGuard: CanActivateFn = async (route, state) => {
+  const session = inject(SessionService);
+  const access = inject(AccessControlService);
+  const router = inject(Router);
+
+  // Let a stored session reconnect before deciding
+  await session.whenRestored();
+
+  if (!session.isAuthenticated()) {
+    return router.createUrlTree(['/login'], { queryParams: { returnUrl: state.url } });
+  }
+
+  const permissions = route.data['permissions'] as Permission[] | undefined;
+  const allowed = permissions ? access.canAny(permissions) : access.isAdmin();
+
+  if (!allowed) {
+    return router.createUrlTree(['/login'], { queryParams: { returnUrl: state.url, denied: 1 } });
+  }
+
+  return true;
+};
@@ -0,0 +1,39 @@
+import { HttpContext, HttpContextToken } from '@angular/common/http';
+import { environment } from '../../../environments/environment';
+import { Nip98AuthOptions } from '../../shared/models/api.models';
+
+/** The API path a request was made for, e.g. `/account/tiers`, used in errors and logs */
+export const API_ENDPOINT = new HttpContextToken<string | null>(() => null);
+
+/** Sign the request with a NIP-98 token, with these options */
+export const NIP98_AUTH = new HttpContextToken<Nip98AuthOptions | null>(() => null);
+
+/** Send as `X-API-Key` */
+export const API_KEY = new HttpContextToken<string | null>(() => null);
+
+/** Send as `Authorization: Bearer ...` */
+export const BEARER_TOKEN = new HttpContextToken<string | null>(() => null);
+
+/** Why the admin made this change, kept with the request in the audit log */
+export const AUDIT_REASON = new HttpContextToken<string | null>(() => null);
+
+/** Abort each attempt after this many milliseconds */
+export const REQUEST_TIMEOUT = new HttpContextToken<number>(() => environment.requestTimeoutMs);
+
+/** Retries after the first attempt; null means the default for the method */
+export const REQUEST_RETRIES = new HttpContextToken<number | null>(() => null);
+
+/** Which attempt this is, counting from 1; set by the retry interceptor */
+export const REQUEST_ATTEMPT = new HttpContextToken<number>(() => 1);
+
+/**
+ * Copy a request context, e.g. to change one token for a retry without
+ * touching the context of the original request
+ */
+export function copyContext(context: HttpContext): HttpContext {
+  const copy = new HttpContext();
+  for (const token of context.keys()) {
+    copy.set(token, context.get(token));
+  }
+  return copy;
+}
@@ -0,0 +1,26 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { apiKeyInterceptor } from './api-key.interceptor';
+import { auditInterceptor } from './audit.interceptor';
+import { errorInterceptor } from './error.interceptor';
+import { loggingInterceptor } from './logging.interceptor';
+import { mockBackendInterceptor } from './mock-backend.interceptor';
+import { nip98Interceptor } from './nip98.interceptor';
+import { retryInterceptor } from './retry.interceptor';
+
+/**
+ * The API interceptor chain, outermost first. Order matters:
+ * - the audit log records each request once, however often it is retried
+ * - retries go around signing, so every attempt gets a fresh NIP-98 token
+ * - logging sees the headers that are actually sent
+ * - errors are normalized, and timeouts started, only once signing is done
+ * - the mock backend stands in for the network at the very end
+ */
+export const apiInterceptors: HttpInterceptorFn[] = [
+  auditInterceptor,
+  retryInterceptor,
+  nip98Interceptor,
+  apiKeyInterceptor,
+  loggingInterceptor,
+  errorInterceptor,
+  mockBackendInterceptor
+];
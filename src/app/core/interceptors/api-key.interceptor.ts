@@ -0,0 +1,21 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { API_KEY, BEARER_TOKEN } from './api-context';
+
+/**
+ * Adds the static credentials some endpoints take instead of NIP-98:
+ * an `X-API-Key` or a Bearer token
+ */
+export const apiKeyInterceptor: HttpInterceptorFn = (req, next) => {
+  const apiKey = req.context.get(API_KEY);
+  const bearerToken = req.context.get(BEARER_TOKEN);
+  if (!apiKey && !bearerToken) {
+    return next(req);
+  }
+
+  return next(req.clone({
+    setHeaders: {
+      ...(apiKey ? { 'X-API-Key': apiKey } : {}),
+      ...(bearerToken ? { 'Authorization': `Bearer ${bearerToken}` } : {})
+    }
+  }));
+};
@@ -0,0 +1,24 @@
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, TestRequest, provideHttpClientTesting } from '@angular/common/http/testing';
+import { EnvironmentProviders, Provider } from '@angular/core';
+import { apiInterceptors } from './api-interceptors';
+
+/**
+ * HttpClient with the real interceptor chain in front of the testing backend
+ */
+export function provideApiTesting(): (Provider | EnvironmentProviders)[] {
+  return [provideHttpClient(withInterceptors(apiInterceptors)), provideHttpClientTesting()];
+}
+
+/**
+ * Signing happens asynchronously in the interceptor chain, so wait for the
+ * request to reach the testing backend before expecting it
+ */
+export async function nextRequest(httpMock: HttpTestingController): Promise<TestRequest> {
+  for (let i = 0; i < 50; i++) {
+    const [request] = httpMock.match(() => true);
+    if (request) return request;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error('No request was sent');
+}
@@ -0,0 +1,52 @@
+import { HttpInterceptorFn, HttpResponse } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { defer, tap } from 'rxjs';
+import { ApiError } from '../../shared/models/api-error';
+import { AuditLogService } from '../services/audit-log.service';
+import { SignerService } from '../services/signer.service';
+import { API_ENDPOINT, AUDIT_REASON, NIP98_AUTH } from './api-context';
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Records every change made through the API, and every NIP-98 signed request,
+ * in the audit log: once per request however often it is retried, against the
+ * admin identity that was active when it was made
+ */
+export const auditInterceptor: HttpInterceptorFn = (req, next) => {
+  if (!MUTATING_METHODS.includes(req.method) && !req.context.get(NIP98_AUTH)) {
+    return next(req);
+  }
+
+  const auditLog = inject(AuditLogService);
+  const signerService = inject(SignerService);
+  const endpoint = req.context.get(API_ENDPOINT) ?? req.url;
+  const reason = req.context.get(AUDIT_REASON) ?? undefined;
+
+  return defer(() => {
+    // NIP-98 tokens are signed by this identity too, even if the admin switches mid-request
+    const pubkey = signerService.getAuthState().pubkey ?? '';
+
+    return next(req).pipe(
+      tap({
+        next: event => {
+          if (event instanceof HttpResponse) {
+            auditLog.record({ pubkey, method: req.method, endpoint, success: true, status: event.status, reason });
+          }
+        },
+        error: (error: unknown) => {
+          const apiError = error instanceof ApiError ? error : undefined;
+          auditLog.record({
+            pubkey,
+            method: req.method,
+            endpoint,
+            success: false,
+            status: apiError?.status,
+            message: apiError?.message,
+            reason
+          });
+        }
+      })
+    );
+  });
+};
@@ -0,0 +1,38 @@
+import { HttpErrorResponse, HttpInterceptorFn, HttpResponse } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { catchError, tap, throwError, timeout } from 'rxjs';
+import { ApiError } from '../../shared/models/api-error';
+import { ClockService } from '../services/clock.service';
+import { API_ENDPOINT, REQUEST_TIMEOUT } from './api-context';
+
+/**
+ * Turns every failure into an `ApiError`, aborts attempts that run past their
+ * timeout, and measures clock skew from the responses on the way through
+ */
+export const errorInterceptor: HttpInterceptorFn = (req, next) => {
+  const clock = inject(ClockService);
+  const endpoint = req.context.get(API_ENDPOINT) ?? req.url;
+  const timeoutMs = req.context.get(REQUEST_TIMEOUT);
+  const start = Date.now();
+
+  return next(req).pipe(
+    tap({
+      // Failed responses carry the server time too, and an auth failure is when it matters most
+      next: event => {
+        if (event instanceof HttpResponse) {
+          clock.recordDateHeader(event.headers, start, Date.now());
+        }
+      },
+      error: (error: unknown) => {
+        if (error instanceof HttpErrorResponse && error.status !== 0) {
+          clock.recordDateHeader(error.headers, start, Date.now());
+        }
+      }
+    }),
+    // Unsubscribing aborts the request
+    timeout({ each: timeoutMs, with: () => throwError(() => ApiError.timeout(timeoutMs, req.method, endpoint)) }),
+    catchError((error: unknown) => throwError(() => error instanceof ApiError
+      ? error
+      : ApiError.fromHttpError(error, req.method, endpoint, clock.now())))
+  );
+};
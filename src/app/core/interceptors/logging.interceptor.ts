@@ -0,0 +1,71 @@
+import { HttpInterceptorFn, HttpResponse } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { finalize, tap } from 'rxjs';
+import { ApiError } from '../../shared/models/api-error';
+import { REDACTED, redactBody, redactHeaders } from '../../shared/utils/redact';
+import { ActivityLogService } from '../services/activity-log.service';
+import { Nip98AuthService } from '../services/nip98-auth.service';
+import { API_ENDPOINT, REQUEST_ATTEMPT } from './api-context';
+
+/**
+ * Records each attempt in the activity log, with redacted headers and bodies
+ * and the decoded NIP-98 event
+ */
+export const loggingInterceptor: HttpInterceptorFn = (req, next) => {
+  const activityLog = inject(ActivityLogService);
+  const nip98Auth = inject(Nip98AuthService);
+  const endpoint = req.context.get(API_ENDPOINT) ?? req.url;
+  const attempt = req.context.get(REQUEST_ATTEMPT);
+  const start = Date.now();
+
+  const id = activityLog.start({
+    startedAt: start,
+    method: req.method,
+    url: req.urlWithParams,
+    endpoint,
+    attempt,
+    requestHeaders: redactHeaders(req.headers),
+    requestBody: redactBody(req.body)
+  });
+
+  const authorization = req.headers.get('Authorization');
+  if (authorization?.startsWith('Nostr ')) {
+    nip98Auth.unpackEventFromToken(authorization)
+      // The signature is what makes the token replayable
+      .then(event => activityLog.update(id, { nip98Event: { ...event, sig: REDACTED } }))
+      .catch(() => undefined);
+  }
+
+  let settled = false;
+  return next(req).pipe(
+    tap({
+      next: event => {
+        if (event instanceof HttpResponse) {
+          settled = true;
+          activityLog.update(id, {
+            status: event.status,
+            statusText: event.statusText,
+            durationMs: Date.now() - start,
+            responseHeaders: redactHeaders(event.headers),
+            responseBody: redactBody(event.body)
+          });
+        }
+      },
+      error: (error: unknown) => {
+        settled = true;
+        const apiError = error instanceof ApiError ? error : undefined;
+        activityLog.update(id, {
+          status: apiError?.status ?? 0,
+          durationMs: Date.now() - start,
+          responseBody: redactBody(apiError?.body),
+          error: apiError ? { kind: apiError.kind, message: apiError.message } : undefined
+        });
+      }
+    }),
+    finalize(() => {
+      if (!settled) {
+        activityLog.update(id, { status: 0, statusText: 'Cancelled', durationMs: Date.now() - start });
+      }
+    })
+  );
+};
@@ -0,0 +1,42 @@
+import { HttpErrorResponse, HttpInterceptorFn, HttpResponse } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { defer, delay, mergeMap, of, throwError, timer } from 'rxjs';
+import { MockBackend } from '../mock-backend/mock-backend';
+import { BackendEnvironmentService } from '../services/backend-environment.service';
+import { API_ENDPOINT } from './api-context';
+
+/** Long enough for loading states to show */
+const MOCK_LATENCY_MS = 150;
+
+/**
+ * Answers requests from the in-memory MockBackend when `environment.useMockBackend`
+ * is set or a `mock` preset is selected, so the portal runs without an API.
+ * Always last in the chain, in place of the network.
+ */
+export const mockBackendInterceptor: HttpInterceptorFn = (req, next) => {
+  if (!inject(BackendEnvironmentService).isMock()) {
+    return next(req);
+  }
+
+  const mock = inject(MockBackend);
+  // Answer on subscribe, so each retry is a fresh request
+  return defer(() => {
+    const url = new URL(req.urlWithParams, location.origin);
+    const endpoint = (req.context.get(API_ENDPOINT) ?? url.pathname).split('?')[0];
+    const { status, body } = mock.handle({
+      method: req.method,
+      endpoint,
+      params: url.searchParams,
+      headers: req.headers,
+      body: req.body
+    });
+
+    if (status < 400) {
+      return of(new HttpResponse({ status, body, url: req.url })).pipe(delay(MOCK_LATENCY_MS));
+    }
+    // Errors take a round trip too
+    return timer(MOCK_LATENCY_MS).pipe(
+      mergeMap(() => throwError(() => new HttpErrorResponse({ status, statusText: 'Mock Error', url: req.url, error: body })))
+    );
+  });
+};
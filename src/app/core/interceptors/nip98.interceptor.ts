@@ -0,0 +1,44 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { defer, switchMap } from 'rxjs';
+import { ApiError } from '../../shared/models/api-error';
+import { RequestBody, encodeRequestBody } from '../../shared/utils/request-body';
+import { Nip98AuthService } from '../services/nip98-auth.service';
+import { API_ENDPOINT, NIP98_AUTH } from './api-context';
+
+/**
+ * Signs requests marked with `NIP98_AUTH`. The body is serialized here, once,
+ * so the bytes hashed into the payload tag are the bytes sent.
+ */
+export const nip98Interceptor: HttpInterceptorFn = (req, next) => {
+  const nip98Options = req.context.get(NIP98_AUTH);
+  if (!nip98Options) {
+    return next(req);
+  }
+
+  const nip98Auth = inject(Nip98AuthService);
+  const endpoint = req.context.get(API_ENDPOINT) ?? req.url;
+
+  // Deferred, so a retry that resubscribes signs again
+  return defer(async () => {
+    const encodedBody = req.body != null && req.method !== 'GET' ? await encodeRequestBody(req.body as RequestBody) : undefined;
+
+    try {
+      const { token } = await nip98Auth.getSignedToken(req.urlWithParams, req.method, {
+        ...nip98Options,
+        payload: encodedBody?.bytes.length ? encodedBody.bytes : undefined
+      });
+
+      return req.clone({
+        // The encoded bytes always span their whole buffer
+        body: encodedBody ? encodedBody.bytes.buffer : null,
+        setHeaders: {
+          'Authorization': `Nostr ${token}`,
+          ...(encodedBody && !req.headers.has('Content-Type') ? { 'Content-Type': encodedBody.contentType } : {})
+        }
+      });
+    } catch (error) {
+      throw ApiError.signing(error, req.method, endpoint);
+    }
+  }).pipe(switchMap(signed => next(signed)));
+};
@@ -0,0 +1,66 @@
+import { HttpInterceptorFn, HttpRequest } from '@angular/common/http';
+import { defer, retry, throwError, timer } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { ApiError } from '../../shared/models/api-error';
+import { NIP98_AUTH, REQUEST_ATTEMPT, REQUEST_RETRIES, copyContext } from './api-context';
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'PUT', 'DELETE']);
+
+// Statuses worth another try; 429 and 503 usually come with a Retry-After
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Retries idempotent requests with jittered exponential backoff, honoring `Retry-After`.
+ * Sits ahead of the NIP-98 interceptor so every attempt is signed afresh, and
+ * numbers the attempts for the activity log.
+ */
+export const retryInterceptor: HttpInterceptorFn = (req, next) => {
+  const retries = req.context.get(REQUEST_RETRIES) ?? (IDEMPOTENT_METHODS.has(req.method) ? environment.requestRetries : 0);
+  if (retries <= 0) {
+    return next(req);
+  }
+
+  let attempt = 0;
+  return defer(() => next(attempt++ === 0 ? req : forRetry(req, attempt))).pipe(
+    retry({
+      count: retries,
+      delay: (error, retryCount) => {
+        const delay = retryDelay(error, retryCount - 1);
+        return delay === undefined ? throwError(() => error) : timer(delay);
+      }
+    })
+  );
+};
+
+/**
+ * The request for a later attempt. The token that failed may be close to
+ * expiring, so retries get their own.
+ */
+function forRetry(req: HttpRequest<unknown>, attempt: number): HttpRequest<unknown> {
+  const context = copyContext(req.context).set(REQUEST_ATTEMPT, attempt);
+  const nip98Options = req.context.get(NIP98_AUTH);
+  if (nip98Options) {
+    context.set(NIP98_AUTH, { ...nip98Options, reuseToken: false });
+  }
+  return req.clone({ context });
+}
+
+/**
+ * How long to wait before retrying a failed attempt, or undefined if it shouldn't be retried
+ * @param error The failure of the last attempt
+ * @param attempt Zero-based number of the attempt that failed
+ */
+function retryDelay(error: unknown, attempt: number): number | undefined {
+  if (!(error instanceof ApiError)) return undefined;
+
+  const retryable = error.kind === 'network' || error.kind === 'timeout'
+    || (error.status !== undefined && RETRYABLE_STATUSES.has(error.status));
+  if (!retryable) return undefined;
+
+  // Full jitter keeps a crowd of admins from retrying in lockstep
+  const backoff = Math.random() * Math.min(environment.maxRetryDelayMs, environment.retryBaseDelayMs * 2 ** attempt);
+  if (error.retryAfterMs === undefined) {
+    return Math.round(backoff);
+  }
+  return error.retryAfterMs <= environment.maxRetryDelayMs ? Math.round(error.retryAfterMs + backoff / 4) : undefined;
+}
@@ -0,0 +1,116 @@
+import { HttpHeaders } from '@angular/common/http';
+import { TestBed } from '@angular/core/testing';
+import { provideApiTesting } from '../interceptors/api-testing';
+import { ApiService } from '../services/api.service';
+import { BackendEnvironmentService } from '../services/backend-environment.service';
+import { Account, AccountListPage, SubscriptionEvent } from '../../shared/models/api.models';
+import { MockBackend, MockRequest } from './mock-backend';
+
+describe('MockBackend', () => {
+  const pubkey = 'c'.repeat(64);
+  let backend: MockBackend;
+
+  function request(method: string, path: string, body?: unknown, headers: Record<string, string> = {}): MockRequest {
+    const [endpoint, query] = path.split('?');
+    return { method, endpoint, params: new URLSearchParams(query), headers: new HttpHeaders(headers), body };
+  }
+
+  beforeEach(() => {
+    backend = new MockBackend();
+  });
+
+  it('should keep created payments and settle them over time', () => {
+    const created = backend.handle(request('POST', '/payment', { tierName: 'premium', billingCycle: 'monthly', pubkey }));
+    expect(created.status).toBe(201);
+    const { id, status } = created.body as { id: string; status: string };
+    expect(status).toBe('pending');
+
+    spyOn(Date, 'now').and.returnValue(Date.now() + 60 * 1000);
+    const checked = backend.handle(request('GET', `/payment/${pubkey}/${id}`));
+    expect((checked.body as { status: string }).status).toBe('paid');
+  });
+
+  it('should read JSON bodies sent as signed bytes', () => {
+    const body = new TextEncoder().encode(JSON.stringify({ pubkey, username: 'carol_new' })).buffer;
+    const created = backend.handle(request('POST', '/account', body, { Authorization: 'Nostr abc' }));
+    expect(created.status).toBe(201);
+
+    const lookup = backend.handle(request('GET', '/account/carol_new'));
+    expect((lookup.body as { pubkey: string }).pubkey).toBe(pubkey);
+  });
+
+  it('should require the credential each endpoint expects', () => {
+    expect(backend.handle(request('GET', '/account/list')).status).toBe(401);
+    expect(backend.handle(request('GET', '/account/list', undefined, { Authorization: 'Bearer abc' })).status).toBe(401);
+
+    const listed = backend.handle(request('GET', '/account/list?limit=2', undefined, { Authorization: 'Nostr abc' }));
+    expect(listed.status).toBe(200);
+    expect((listed.body as AccountListPage).accounts.length).toBe(2);
+  });
+
+  it('should page, sort and filter the account list', () => {
+    const list = (query: string) =>
+      backend.handle(request('GET', `/account/list?${query}`, undefined, { Authorization: 'Nostr abc' })).body as AccountListPage;
+
+    const first = list('limit=4');
+    expect(first.accounts.length).toBe(4);
+    expect(first.total).toBe(6);
+    const rest = list(`limit=4&cursor=${first.nextCursor}`);
+    expect(rest.accounts.length).toBe(2);
+    expect(rest.nextCursor).toBeUndefined();
+
+    expect(list('status=expired').accounts.map(account => account.username)).toEqual(['dave']);
+    expect(list('hasUsername=false').total).toBe(1);
+    expect(list('xConnected=true&tier=premium_plus').accounts.map(account => account.username)).toEqual(['bob_nostr']);
+    expect(list('sort=expires&order=asc').accounts[0].username).toBe('dave');
+  });
+
+  it('should record admin extensions in the subscription history', () => {
+    const admin = { Authorization: 'Nostr abc' };
+    const alice = (backend.handle(request('GET', '/account/alice')).body as { pubkey: string }).pubkey;
+    backend.handle(request('POST', `/account/${alice}/extend`, { weeks: 1 }, admin));
+
+    const history = backend.handle(request('GET', `/account/admin/${alice}/history`, undefined, admin)).body as SubscriptionEvent[];
+
+    expect(history.map(event => event.type)).toEqual(['signup', 'payment', 'extension']);
+    expect(history[2].days).toBe(7);
+    expect(backend.handle(request('GET', `/account/admin/${'f'.repeat(64)}/history`, undefined, admin)).status).toBe(404);
+  });
+
+  it('should change the tier of an account set through the admin settings', () => {
+    const alice = (backend.handle(request('GET', '/account/alice')).body as { pubkey: string }).pubkey;
+    const settings = { pubkey, targetPubkey: alice, tier: 'premium' };
+
+    expect(backend.handle(request('POST', '/settings/admin/set-user-settings', { ...settings, tier: 'gold' })).status).toBe(400);
+    expect(backend.handle(request('POST', '/settings/admin/set-user-settings', settings)).status).toBe(200);
+
+    const account = backend.handle(request('GET', `/account/admin/${alice}`, undefined, { Authorization: 'Nostr abc' })).body as Account;
+    expect(account.tier).toBe('premium');
+    expect(account.entitlements.notificationsPerDay).toBe(150);
+  });
+
+  it('should serve its usernames as a NIP-05 directory', () => {
+    backend.handle(request('POST', '/account', { pubkey, username: 'Carol_New' }, { Authorization: 'Nostr abc' }));
+
+    const found = backend.handle(request('GET', '/.well-known/nostr.json?name=carol_new'));
+    expect(found.body).toEqual({ names: { carol_new: pubkey } });
+    expect(backend.handle(request('GET', '/.well-known/nostr.json?name=nobody')).body).toEqual({ names: {} });
+  });
+
+  it('should answer unknown endpoints with 501', () => {
+    expect(backend.handle(request('GET', '/nope')).status).toBe(501);
+  });
+});
+
+describe('mockBackendInterceptor', () => {
+  it('should answer ApiService calls while a mock preset is selected', async () => {
+    TestBed.configureTestingModule({ providers: provideApiTesting() });
+    const environments = TestBed.inject(BackendEnvironmentService);
+    environments.selected.set({ id: 'mock', label: 'Mock', apiBaseUrl: 'http://mock.test', mock: true });
+
+    const response = await TestBed.inject(ApiService).getTiers();
+
+    expect(response.success).toBeTrue();
+    expect(Object.keys(response.data)).toContain('premium_plus');
+  });
+});
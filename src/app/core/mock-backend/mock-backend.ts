@@ -0,0 +1,684 @@
+import { HttpHeaders } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import {
+  Account, AccountSort, AddAccountRequest, AdminSetUserSettingsRequest, BackupJobResponse, BillingCycle,
+  CreateBackupJobRequest, CreatePaymentRequest, DeviceInfo, DevicesResponse, GrokAdminConfig, HealthStatus,
+  Nip05Document, NotificationRequest, NotificationResult, NotificationStatus, Payment, PublicAccount, ServiceStatus,
+  SubscriptionEvent, Tier, UpdateAccountRequest, UserSettingsRequest
+} from '../../shared/models/api.models';
+import { UtilsService } from '../../shared/utils/utils.service';
+import { MockBackupJob, MockSettings, MockState, createMockState } from './mock-fixtures';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAYMENT_EXPIRY_MS = 60 * 60 * 1000;
+/** Mock invoices pay themselves after this long, so status changes can be demoed */
+const PAYMENT_SETTLE_MS = 20 * 1000;
+const BACKUP_START_MS = 5 * 1000;
+const BACKUP_COMPLETE_MS = 15 * 1000;
+const SATS_PER_CENT = 10;
+const HEX_PUBKEY = /^[0-9a-f]{64}$/i;
+const MOCK_USER_AGENTS = [
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/138.0',
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 18_5 like Mac OS X) Safari/605.1',
+  'Mozilla/5.0 (X11; Linux x86_64; rv:140.0) Firefox/140.0'
+];
+const TIER_RANK: Record<Tier, number> = { free: 0, basic: 1, premium: 2, premium_plus: 3 };
+const ACCOUNT_SORT_KEYS: Record<AccountSort, (account: Account) => number | undefined> = {
+  signupDate: account => account.signupDate,
+  lastLoginDate: account => account.lastLoginDate,
+  expires: account => account.expires,
+  tier: account => TIER_RANK[account.tier]
+};
+
+export interface MockRequest {
+  method: string;
+  /** Path below the API base URL, without the query string */
+  endpoint: string;
+  params: URLSearchParams;
+  headers: Pick<HttpHeaders, 'get'>;
+  body: unknown;
+}
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+/** Which credential a route requires; the mock checks it is present, not that it is valid */
+type MockAuth = 'nip98' | 'bearer' | 'api-key';
+
+interface MockRoute {
+  method: string;
+  path: RegExp;
+  auth?: MockAuth;
+  handle: (req: MockRequest, params: string[]) => MockResponse;
+}
+
+function ok(body: unknown, status = 200): MockResponse {
+  return { status, body };
+}
+
+function fail(status: number, error: string, message: string): MockResponse {
+  return { status, body: { error, message } };
+}
+
+/**
+ * An in-memory stand-in for the Nostria API, covering every endpoint ApiService calls.
+ * State starts from the fixtures in `mock-fixtures.ts` and lasts until the page reloads.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MockBackend {
+  private state: MockState;
+  private startedAt: number;
+  private utils = new UtilsService();
+
+  private readonly routes: MockRoute[] = [
+    { method: 'GET', path: /^\/status$/, handle: () => ok(this.status()) },
+    { method: 'GET', path: /^\/status\/health$/, handle: () => ok({ status: 'ok' } satisfies HealthStatus) },
+    { method: 'GET', path: /^\/key$/, handle: () => ok({ key: this.state.vapidKey }) },
+
+    { method: 'GET', path: /^\/account\/tiers$/, handle: () => ok(this.state.tiers) },
+    { method: 'GET', path: /^\/account\/list$/, auth: 'nip98', handle: req => this.listAccounts(req) },
+    { method: 'GET', path: /^\/account\/check\/([^/]+)$/, handle: (_, [username]) => this.checkUsername(username) },
+    { method: 'POST', path: /^\/account\/([^/]+)\/extend$/, auth: 'nip98', handle: (req, [pubkey]) => this.extend(req, pubkey) },
+    { method: 'GET', path: /^\/account\/admin\/([^/]+)$/, auth: 'nip98', handle: (_, [pubkey]) => this.adminAccount(pubkey) },
+    { method: 'GET', path: /^\/account\/admin\/([^/]+)\/history$/, auth: 'nip98', handle: (_, [pubkey]) => this.history(pubkey) },
+    { method: 'GET', path: /^\/account\/admin\/([^/]+)\/backups$/, auth: 'nip98', handle: (_, [pubkey]) => this.accountBackups(pubkey) },
+    { method: 'GET', path: /^\/account\/admin\/([^/]+)\/devices$/, auth: 'nip98', handle: (_, [pubkey]) => this.devices(pubkey) },
+    { method: 'GET', path: /^\/account\/admin\/([^/]+)\/notifications$/, auth: 'nip98', handle: (_, [pubkey]) => this.notificationStatus(pubkey) },
+    { method: 'GET', path: /^\/account$/, auth: 'bearer', handle: () => this.ownAccount() },
+    { method: 'PUT', path: /^\/account$/, auth: 'bearer', handle: req => this.updateOwnAccount(req) },
+    { method: 'POST', path: /^\/account$/, handle: req => this.createAccount(req) },
+    { method: 'GET', path: /^\/account\/([^/]+)$/, handle: (_, [id]) => this.publicAccount(id) },
+
+    // Stands in for any domain's NIP-05 directory, listing the mock usernames
+    { method: 'GET', path: /^\/\.well-known\/nostr\.json$/, handle: req => this.nip05Names(req) },
+
+    { method: 'POST', path: /^\/backup$/, auth: 'bearer', handle: req => this.createBackup(req) },
+    { method: 'GET', path: /^\/backup$/, auth: 'bearer', handle: req => this.listBackups(req) },
+    { method: 'GET', path: /^\/backup\/([^/]+)$/, auth: 'bearer', handle: (_, [id]) => this.backup(id) },
+
+    { method: 'POST', path: /^\/notification\/send$/, auth: 'api-key', handle: req => this.sendNotification(req) },
+    { method: 'GET', path: /^\/notification\/status\/([^/]+)$/, auth: 'api-key', handle: (_, [pubkey]) => this.notificationStatus(pubkey) },
+    { method: 'POST', path: /^\/subscription\/send\/([^/]+)$/, auth: 'bearer', handle: (_, [pubkey]) => this.sendTest(pubkey) },
+    { method: 'POST', path: /^\/subscription\/webpush\/([^/]+)$/, auth: 'bearer', handle: (_, [pubkey]) => this.registerDevice(pubkey) },
+
+    { method: 'POST', path: /^\/payment$/, handle: req => this.createPayment(req) },
+    { method: 'GET', path: /^\/payment$/, auth: 'nip98', handle: req => this.listPayments(req) },
+    { method: 'GET', path: /^\/payment\/([^/]+)\/([^/]+)$/, handle: (_, [pubkey, id]) => this.payment(pubkey, id) },
+
+    { method: 'POST', path: /^\/settings\/admin\/set-user-settings$/, handle: req => this.adminSetSettings(req) },
+    { method: 'GET', path: /^\/settings\/([^/]+)$/, handle: (_, [pubkey]) => this.settings(pubkey) },
+    { method: 'POST', path: /^\/settings\/([^/]+)$/, handle: (req, [pubkey]) => this.saveSettings(req, pubkey) },
+    { method: 'DELETE', path: /^\/settings\/([^/]+)$/, handle: (_, [pubkey]) => this.deleteSettings(pubkey) },
+
+    { method: 'GET', path: /^\/grok\/admin\/config$/, auth: 'nip98', handle: () => ok(this.state.grokConfig) },
+    { method: 'PUT', path: /^\/grok\/admin\/config$/, auth: 'nip98', handle: req => this.updateGrokConfig(req) },
+
+    // Legacy pages
+    { method: 'GET', path: /^\/customers$/, handle: () => ok([]) },
+    { method: 'GET', path: /^\/servers$/, handle: () => ok([]) }
+  ];
+
+  constructor() {
+    this.state = createMockState();
+    this.startedAt = Date.now();
+  }
+
+  /**
+   * Go back to the seeded fixtures
+   */
+  reset(now = Date.now()): void {
+    this.state = createMockState(now);
+    this.startedAt = now;
+  }
+
+  /**
+   * Answer one request. Unknown endpoints get a 501 so gaps in the mock are obvious.
+   */
+  handle(req: MockRequest): MockResponse {
+    for (const route of this.routes) {
+      const match = route.method === req.method ? req.endpoint.match(route.path) : null;
+      if (!match) continue;
+
+      const denied = route.auth && this.checkAuth(req.headers, route.auth);
+      if (denied) return denied;
+
+      return route.handle(req, match.slice(1).map(decodeURIComponent));
+    }
+    return fail(501, 'not_implemented', `${req.method} ${req.endpoint} is not available in the mock backend`);
+  }
+
+  private checkAuth(headers: Pick<HttpHeaders, 'get'>, auth: MockAuth): MockResponse | undefined {
+    if (auth === 'api-key') {
+      return headers.get('X-API-Key') ? undefined : fail(401, 'unauthorized', 'Missing X-API-Key header');
+    }
+    const scheme = auth === 'nip98' ? 'Nostr ' : 'Bearer ';
+    return headers.get('Authorization')?.startsWith(scheme)
+      ? undefined
+      : fail(401, 'unauthorized', `Missing ${scheme.trim()} authorization`);
+  }
+
+  private readBody<T>(body: unknown): Partial<T> {
+    if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+      body = new TextDecoder().decode(body);
+    }
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        return {};
+      }
+    }
+    return body && typeof body === 'object' ? body as Partial<T> : {};
+  }
+
+  private limit(params: URLSearchParams, fallback: number): number {
+    const limit = Number(params.get('limit'));
+    return Number.isInteger(limit) && limit > 0 ? limit : fallback;
+  }
+
+  // Status
+
+  private status(): ServiceStatus {
+    const gigabyte = 1024 ** 3;
+    return {
+      service: 'nostria-service (mock)',
+      version: '0.0.0-mock',
+      uptime: Math.floor((Date.now() - this.startedAt) / 1000),
+      environment: 'development',
+      key: 'mock',
+      timestamp: Date.now(),
+      system: {
+        platform: 'linux',
+        arch: 'x64',
+        memory: { total: String(8 * gigabyte), free: String(Math.round(3.2 * gigabyte)) }
+      }
+    };
+  }
+
+  // Accounts
+
+  private findAccount(pubkeyOrUsername: string): Account | undefined {
+    const query = pubkeyOrUsername.toLowerCase();
+    return this.state.accounts.find(account => account.pubkey === query || account.username?.toLowerCase() === query);
+  }
+
+  private listAccounts(req: MockRequest): MockResponse {
+    const { params } = req;
+    const sort = (params.get('sort') || 'signupDate') as AccountSort;
+    if (!ACCOUNT_SORT_KEYS[sort]) {
+      return fail(400, 'invalid_sort', 'sort must be signupDate, lastLoginDate, expires or tier');
+    }
+    const offset = params.has('cursor') ? this.cursorOffset(params.get('cursor')!) : 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      return fail(400, 'invalid_cursor', 'cursor is not one this server issued');
+    }
+
+    const now = Date.now();
+    const flag = (name: string) => params.has(name) ? params.get(name) === 'true' : undefined;
+    const hasUsername = flag('hasUsername');
+    const xConnected = flag('xConnected');
+    const signupFrom = Number(params.get('signupFrom') || -Infinity);
+    const signupTo = Number(params.get('signupTo') || Infinity);
+    const direction = params.get('order') === 'asc' ? 1 : -1;
+    const key = ACCOUNT_SORT_KEYS[sort];
+
+    const matching = this.state.accounts
+      .filter(account =>
+        (!params.has('tier') || account.tier === params.get('tier')) &&
+        (!params.has('status') || (params.get('status') === 'expired') === (!!account.expires && account.expires < now)) &&
+        (hasUsername === undefined || !!account.username === hasUsername) &&
+        (xConnected === undefined || !!account.xConnection?.connected === xConnected) &&
+        account.signupDate >= signupFrom && account.signupDate < signupTo
+      )
+      // Accounts without the sort field come last in either direction
+      .sort((a, b) => {
+        const [x, y] = [key(a), key(b)];
+        if (x === y) return a.pubkey.localeCompare(b.pubkey);
+        if (x === undefined || y === undefined) return x === undefined ? 1 : -1;
+        return (x - y) * direction;
+      });
+
+    const end = offset + this.limit(params, 100);
+    const accounts = matching.slice(offset, end);
+    return ok({
+      accounts: accounts.map(account => ({
+        pubkey: account.pubkey,
+        username: account.username,
+        created: account.signupDate,
+        lastLoginDate: account.lastLoginDate,
+        expires: account.expires,
+        tier: account.tier,
+        subscription: { entitlements: account.entitlements },
+        xConnection: account.xConnection,
+        xUsage: account.xUsage
+      })),
+      nextCursor: end < matching.length ? btoa(String(end)) : undefined,
+      total: matching.length
+    });
+  }
+
+  /** The mock's cursors are just the offset of the next page; NaN for anything else */
+  private cursorOffset(cursor: string): number {
+    try {
+      return Number(atob(cursor));
+    } catch {
+      return NaN;
+    }
+  }
+
+  private checkUsername(username: string): MockResponse {
+    if (!/^[a-z0-9_]{3,30}$/i.test(username)) {
+      return ok({ success: false, available: false, message: 'Usernames are 3-30 letters, digits or underscores' });
+    }
+    const available = !this.findAccount(username);
+    return ok({
+      success: available,
+      available,
+      message: available ? `${username} is available` : `${username} is already taken`
+    });
+  }
+
+  private nip05Names(req: MockRequest): MockResponse {
+    const name = req.params.get('name')?.toLowerCase();
+    const names: Record<string, string> = {};
+    for (const account of this.state.accounts) {
+      const username = account.username?.toLowerCase();
+      if (username && (!name || username === name)) names[username] = account.pubkey;
+    }
+    return ok({ names } satisfies Nip05Document);
+  }
+
+  private publicAccount(pubkeyOrUsername: string): MockResponse {
+    const account = this.findAccount(pubkeyOrUsername);
+    if (!account) {
+      return fail(404, 'not_found', 'Account not found');
+    }
+
+    const result: PublicAccount = {
+      pubkey: account.pubkey,
+      username: account.username,
+      signupDate: account.signupDate,
+      tier: account.tier,
+      isActive: !account.expires || account.expires > Date.now()
+    };
+    return ok(result);
+  }
+
+  /** Bearer tokens aren't checked, so every one belongs to the first seeded account */
+  private ownAccount(): MockResponse {
+    return ok(this.state.accounts[0]);
+  }
+
+  private updateOwnAccount(req: MockRequest): MockResponse {
+    const { username } = this.readBody<UpdateAccountRequest>(req.body);
+    const account = this.state.accounts[0];
+    if (username) {
+      const taken = this.findAccount(username);
+      if (taken && taken !== account) {
+        return fail(409, 'username_taken', `${username} is already taken`);
+      }
+      account.username = username;
+    }
+    return ok(account);
+  }
+
+  private createAccount(req: MockRequest): MockResponse {
+    const { pubkey, username, paymentId } = this.readBody<AddAccountRequest>(req.body);
+    if (!pubkey || !HEX_PUBKEY.test(pubkey)) {
+      return fail(400, 'invalid_pubkey', 'pubkey must be 64 hex characters');
+    }
+    if (this.findAccount(pubkey)) {
+      return fail(409, 'account_exists', 'An account already exists for this pubkey');
+    }
+    if (username && this.findAccount(username)) {
+      return fail(409, 'username_taken', `${username} is already taken`);
+    }
+
+    let tier: Tier = 'free';
+    let expires: number | undefined;
+    if (paymentId) {
+      const payment = this.state.payments.find(p => p.id === paymentId && p.pubkey === pubkey);
+      if (!payment || this.settle(payment).status !== 'paid') {
+        return fail(402, 'payment_required', `Payment ${paymentId} has not been paid`);
+      }
+      tier = payment.tier;
+      expires = Date.now() + this.cycleDays(payment.billingCycle) * DAY_MS;
+    }
+
+    const account: Account = {
+      pubkey: pubkey.toLowerCase(),
+      username: username || undefined,
+      signupDate: Date.now(),
+      expires,
+      tier,
+      entitlements: this.state.tiers[tier].entitlements
+    };
+    this.state.accounts.push(account);
+    return ok(account, 201);
+  }
+
+  private extend(req: MockRequest, pubkey: string): MockResponse {
+    const account = this.findAccount(pubkey);
+    if (!account) {
+      return fail(404, 'not_found', 'Account not found');
+    }
+
+    const duration = this.readBody<{ months: number; weeks: number }>(req.body);
+    const days = duration.months === 1 ? 30 : duration.weeks === 1 ? 7 : 0;
+    if (!days) {
+      return fail(400, 'invalid_duration', 'Extend by { months: 1 } or { weeks: 1 }');
+    }
+
+    account.expires = Math.max(Date.now(), account.expires ?? 0) + days * DAY_MS;
+    this.state.extensions.push({ pubkey: account.pubkey, date: Date.now(), days, tier: account.tier, expires: account.expires });
+    return ok({ success: true, message: `Extended by ${days} days`, newExpires: account.expires });
+  }
+
+  private adminAccount(pubkey: string): MockResponse {
+    const account = this.findAccount(pubkey);
+    return account ? ok(account) : fail(404, 'not_found', 'Account not found');
+  }
+
+  private history(pubkey: string): MockResponse {
+    const account = this.findAccount(pubkey);
+    if (!account) {
+      return fail(404, 'not_found', 'Account not found');
+    }
+
+    const events: SubscriptionEvent[] = [
+      { type: 'signup', date: account.signupDate, tier: 'free' },
+      ...this.state.payments
+        .map(payment => this.settle(payment))
+        .filter(payment => payment.pubkey === account.pubkey && payment.status === 'paid')
+        .map((payment): SubscriptionEvent => ({
+          type: 'payment',
+          date: payment.paid ?? payment.modified,
+          tier: payment.tier,
+          paymentId: payment.id,
+          billingCycle: payment.billingCycle,
+          priceCents: payment.priceCents
+        })),
+      ...this.state.extensions
+        .filter(extension => extension.pubkey === account.pubkey)
+        .map(({ date, days, tier, expires }): SubscriptionEvent => ({ type: 'extension', date, tier, days, expires }))
+    ];
+    return ok(events.sort((a, b) => a.date - b.date));
+  }
+
+  // Backups
+
+  /** Move a job along as time passes, as the real worker would */
+  private progress(job: MockBackupJob): MockBackupJob {
+    const now = Date.now();
+    const start = job.scheduledAt ?? job.requestedAt;
+    if ((job.status === 'pending' || job.status === 'scheduled') && now >= start + BACKUP_START_MS) {
+      job.status = 'in_progress';
+      job.startedAt = start + BACKUP_START_MS;
+    }
+    if (job.status === 'in_progress' && job.startedAt && now >= job.startedAt + BACKUP_COMPLETE_MS) {
+      job.status = 'completed';
+      job.completedAt = job.startedAt + BACKUP_COMPLETE_MS;
+      job.resultUrl = `https://backups.nostria.app/mock/${job.id}.json`;
+      job.expires = job.completedAt + 30 * DAY_MS;
+    }
+    return job;
+  }
+
+  private toBackupResponse({ pubkey, ...job }: MockBackupJob): BackupJobResponse {
+    return job;
+  }
+
+  private createBackup(req: MockRequest): MockResponse {
+    const request = this.readBody<CreateBackupJobRequest>(req.body);
+    if (!request.backupType || !['full', 'incremental', 'selective'].includes(request.backupType)) {
+      return fail(400, 'invalid_backup_type', 'backupType must be full, incremental or selective');
+    }
+
+    const job: MockBackupJob = {
+      id: `bak_${this.utils.generateId(8).toLowerCase()}`,
+      pubkey: this.state.accounts[0].pubkey,
+      status: request.scheduledAt && request.scheduledAt > Date.now() ? 'scheduled' : 'pending',
+      backupType: request.backupType,
+      requestedAt: Date.now(),
+      scheduledAt: request.scheduledAt,
+      metadata: request.metadata
+    };
+    this.state.backups.unshift(job);
+    return ok(this.toBackupResponse(job), 201);
+  }
+
+  private listBackups(req: MockRequest): MockResponse {
+    const jobs = this.state.backups.map(job => this.toBackupResponse(this.progress(job)));
+    return ok({ jobs: jobs.slice(0, this.limit(req.params, 20)), total: jobs.length });
+  }
+
+  private accountBackups(pubkey: string): MockResponse {
+    const jobs = this.state.backups
+      .filter(job => job.pubkey === pubkey.toLowerCase())
+      .map(job => this.toBackupResponse(this.progress(job)));
+    return ok({ jobs, total: jobs.length });
+  }
+
+  private backup(id: string): MockResponse {
+    const job = this.state.backups.find(b => b.id === id);
+    return job ? ok(this.toBackupResponse(this.progress(job))) : fail(404, 'not_found', 'Backup job not found');
+  }
+
+  // Notifications
+
+  private sentToday(pubkey: string): number {
+    const since = Date.now() - DAY_MS;
+    return (this.state.notificationsSent[pubkey] ?? []).filter(time => time > since).length;
+  }
+
+  private sendNotification(req: MockRequest): MockResponse {
+    const request = this.readBody<NotificationRequest>(req.body);
+    if (!request.template && !request.title) {
+      return fail(400, 'invalid_notification', 'Send either a title or a template');
+    }
+
+    const targets = request.pubkeys?.length ? request.pubkeys : Object.keys(this.state.pushDevices);
+    const result: NotificationResult = {
+      success: [], failed: [], filtered: [], limited: [],
+      summary: { totalTargeted: targets.length, successful: 0, failed: 0, filtered: 0, limited: 0 }
+    };
+
+    for (const pubkey of targets) {
+      const devices = this.state.pushDevices[pubkey] ?? 0;
+      const account = this.findAccount(pubkey);
+      const settings = this.state.settings.find(s => s.pubkey === pubkey);
+      if (!devices) {
+        result.failed.push({ pubkey, reason: 'No push subscriptions', deviceCount: 0 });
+      } else if (settings && !settings.socialSharing && request.template === 'social') {
+        result.filtered.push({ pubkey, reason: 'Social notifications are turned off' });
+      } else if (this.sentToday(pubkey) >= (account?.entitlements.notificationsPerDay ?? 5)) {
+        result.limited.push({ pubkey, reason: 'Daily notification limit reached' });
+      } else {
+        (this.state.notificationsSent[pubkey] ??= []).push(Date.now());
+        result.success.push({ pubkey, successCount: devices, failCount: 0 });
+      }
+    }
+
+    result.summary.successful = result.success.length;
+    result.summary.failed = result.failed.length;
+    result.summary.filtered = result.filtered.length;
+    result.summary.limited = result.limited.length;
+    return ok(result);
+  }
+
+  private notificationStatus(pubkey: string): MockResponse {
+    const account = this.findAccount(pubkey);
+    const devices = this.state.pushDevices[pubkey] ?? 0;
+    const dailyLimit = account?.entitlements.notificationsPerDay ?? 5;
+    const count24h = this.sentToday(pubkey);
+
+    const status: NotificationStatus = {
+      pubkey,
+      hasSubscription: devices > 0,
+      deviceCount: devices,
+      isPremium: !!account && account.tier !== 'free',
+      settings: { enabled: devices > 0 },
+      notifications: { count24h, dailyLimit, remaining: Math.max(0, dailyLimit - count24h) }
+    };
+    return ok(status);
+  }
+
+  /** The mock only counts devices, so their details are made up from the count */
+  private devices(pubkey: string): MockResponse {
+    const since = this.findAccount(pubkey)?.signupDate ?? Date.now();
+    const devices: DeviceInfo[] = Array.from({ length: this.state.pushDevices[pubkey] ?? 0 }, (_, i) => ({
+      deviceId: `dev_${pubkey.slice(0, 8)}_${i + 1}`,
+      endpoint: `https://push.example.com/mock/${pubkey.slice(0, 8)}/${i + 1}`,
+      userAgent: MOCK_USER_AGENTS[i % MOCK_USER_AGENTS.length],
+      created: since + i * DAY_MS,
+      modified: since + i * DAY_MS
+    }));
+    return ok({ pubkey, deviceCount: devices.length, devices } satisfies DevicesResponse);
+  }
+
+  private sendTest(pubkey: string): MockResponse {
+    if (!this.state.pushDevices[pubkey]) {
+      return fail(404, 'no_subscription', 'No push subscriptions for this pubkey');
+    }
+    (this.state.notificationsSent[pubkey] ??= []).push(Date.now());
+    return ok({ success: true, message: 'Test notification sent' });
+  }
+
+  private registerDevice(pubkey: string): MockResponse {
+    this.state.pushDevices[pubkey] = (this.state.pushDevices[pubkey] ?? 0) + 1;
+    return ok({ success: true, message: 'Subscription registered' }, 201);
+  }
+
+  // Payments
+
+  private cycleDays(cycle: BillingCycle): number {
+    return cycle === 'yearly' ? 365 : cycle === 'quarterly' ? 90 : 30;
+  }
+
+  /** Pending invoices are paid after a short delay, or expire */
+  private settle(payment: Payment): Payment {
+    if (payment.status !== 'pending') return payment;
+
+    const now = Date.now();
+    if (now >= payment.created + PAYMENT_SETTLE_MS && payment.created + PAYMENT_SETTLE_MS < payment.expires) {
+      Object.assign(payment, { status: 'paid', isPaid: true, paid: payment.created + PAYMENT_SETTLE_MS, modified: now });
+    } else if (now >= payment.expires) {
+      Object.assign(payment, { status: 'expired', modified: now });
+    }
+    return payment;
+  }
+
+  private createPayment(req: MockRequest): MockResponse {
+    const { tierName, billingCycle, pubkey } = this.readBody<CreatePaymentRequest>(req.body);
+    if (!pubkey || !HEX_PUBKEY.test(pubkey)) {
+      return fail(400, 'invalid_pubkey', 'pubkey must be 64 hex characters');
+    }
+    const price = tierName && billingCycle ? this.state.tiers[tierName]?.pricing?.[billingCycle] : undefined;
+    if (!price) {
+      return fail(400, 'invalid_tier', `No ${billingCycle ?? ''} price for tier ${tierName ?? ''}`.replace(/\s+/g, ' '));
+    }
+
+    const now = Date.now();
+    const id = `pay_${this.utils.generateId(10).toLowerCase()}`;
+    const payment: Payment = {
+      id,
+      type: 'payment',
+      paymentType: 'ln',
+      lnHash: Array.from({ length: 64 }, () => Math.floor(Math.random() * 16).toString(16)).join(''),
+      lnInvoice: `lnbc${price.priceCents * SATS_PER_CENT}0n1mock${id.slice(4)}`,
+      lnAmountSat: price.priceCents * SATS_PER_CENT,
+      tier: tierName!,
+      billingCycle: billingCycle!,
+      priceCents: price.priceCents,
+      pubkey: pubkey.toLowerCase(),
+      isPaid: false,
+      status: 'pending',
+      expires: now + PAYMENT_EXPIRY_MS,
+      created: now,
+      modified: now
+    };
+    this.state.payments.unshift(payment);
+    return ok(payment, 201);
+  }
+
+  private listPayments(req: MockRequest): MockResponse {
+    const pubkey = req.params.get('pubkey')?.toLowerCase();
+    const payments = this.state.payments
+      .filter(payment => !pubkey || payment.pubkey === pubkey)
+      .map(payment => this.settle(payment))
+      .sort((a, b) => b.created - a.created);
+    return ok(payments.slice(0, this.limit(req.params, 50)));
+  }
+
+  private payment(pubkey: string, id: string): MockResponse {
+    const payment = this.state.payments.find(p => p.id === id && p.pubkey === pubkey.toLowerCase());
+    return payment ? ok(this.settle(payment)) : fail(404, 'not_found', 'Payment not found');
+  }
+
+  // Settings
+
+  private findSettings(pubkey: string): MockSettings | undefined {
+    return this.state.settings.find(settings => settings.pubkey === pubkey);
+  }
+
+  private settings(pubkey: string): MockResponse {
+    const settings = this.findSettings(pubkey);
+    return settings ? ok(settings) : fail(404, 'not_found', 'No settings for this pubkey');
+  }
+
+  private saveSettings(req: MockRequest, pubkey: string): MockResponse {
+    const { pubkey: _, ...changes } = this.readBody<UserSettingsRequest & { socialSharing: boolean }>(req.body);
+    return ok(this.upsertSettings(pubkey, changes));
+  }
+
+  private upsertSettings(pubkey: string, changes: Partial<MockSettings>): MockSettings {
+    const now = Date.now();
+    let settings = this.findSettings(pubkey);
+    if (!settings) {
+      const tier = this.findAccount(pubkey)?.tier ?? 'free';
+      settings = { pubkey, tier, socialSharing: true, created: now, updated: now };
+      this.state.settings.push(settings);
+    }
+    return Object.assign(settings, changes, { pubkey, updated: now });
+  }
+
+  private deleteSettings(pubkey: string): MockResponse {
+    const before = this.state.settings.length;
+    this.state.settings = this.state.settings.filter(settings => settings.pubkey !== pubkey);
+    return before === this.state.settings.length
+      ? fail(404, 'not_found', 'No settings for this pubkey')
+      : ok({ success: true, message: 'Settings deleted' });
+  }
+
+  private adminSetSettings(req: MockRequest): MockResponse {
+    const { pubkey: _, targetPubkey, ...changes } = this.readBody<AdminSetUserSettingsRequest>(req.body);
+    if (!targetPubkey || !HEX_PUBKEY.test(targetPubkey)) {
+      return fail(400, 'invalid_pubkey', 'targetPubkey must be 64 hex characters');
+    }
+    if (changes.tier !== undefined && !this.state.tiers[changes.tier]) {
+      return fail(400, 'invalid_tier', 'tier must be an existing tier');
+    }
+
+    // The tier is the account's, when there is one
+    const account = this.findAccount(targetPubkey);
+    if (account && changes.tier) {
+      account.tier = changes.tier;
+      account.entitlements = this.state.tiers[changes.tier].entitlements;
+    }
+    this.upsertSettings(targetPubkey, changes);
+    return ok({ success: true, message: 'Settings updated' });
+  }
+
+  private updateGrokConfig(req: MockRequest): MockResponse {
+    const config = this.readBody<GrokAdminConfig>(req.body);
+    if (typeof config.enabled !== 'boolean' || !config.pricing || !config.defaults) {
+      return fail(400, 'invalid_config', 'enabled, defaults and pricing are required');
+    }
+    this.state.grokConfig = config as GrokAdminConfig;
+    return ok(this.state.grokConfig);
+  }
+}
@@ -0,0 +1,259 @@
+import {
+  Account, BackupJobResponse, FeatureWithLabel, GrokAdminConfig, Payment, Tier, TierDetails, UserSettings
+} from '../../shared/models/api.models';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Profile and preference settings share one record per pubkey, as on the server */
+export type MockSettings = UserSettings & { socialSharing: boolean };
+
+export interface MockBackupJob extends BackupJobResponse {
+  /** The account that requested the backup */
+  pubkey: string;
+}
+
+/** A subscription extended by an admin, for the account's history */
+export interface MockExtension {
+  pubkey: string;
+  date: number;
+  days: number;
+  tier: Tier;
+  expires: number;
+}
+
+export interface MockState {
+  tiers: Record<Tier, TierDetails>;
+  accounts: Account[];
+  payments: Payment[];
+  extensions: MockExtension[];
+  backups: MockBackupJob[];
+  settings: MockSettings[];
+  /** Registered web push devices per pubkey */
+  pushDevices: Record<string, number>;
+  /** When each pubkey was last sent notifications, for daily limits */
+  notificationsSent: Record<string, number[]>;
+  grokConfig: GrokAdminConfig;
+  vapidKey: string;
+}
+
+const FEATURES: Record<string, FeatureWithLabel> = {
+  BASIC_WEBPUSH: { key: 'BASIC_WEBPUSH', label: 'Basic web push notifications' },
+  COMMUNITY_SUPPORT: { key: 'COMMUNITY_SUPPORT', label: 'Community Support' },
+  USERNAME: { key: 'USERNAME', label: 'Username in URL' },
+  NEWSLETTER: { key: 'NEWSLETTER', label: 'Newsletter' },
+  STORAGE_1GB: { key: 'STORAGE_1GB', label: '1GB cloud storage' },
+  STORAGE_5GB: { key: 'STORAGE_5GB', label: '5GB cloud storage' },
+  STORAGE_50GB: { key: 'STORAGE_50GB', label: '50GB cloud storage' },
+  DUAL_POST_X_10: { key: 'DUAL_POST_X_10', label: 'Dual post to X (max 10 posts/day)' },
+  ANALYTICS: { key: 'ANALYTICS', label: 'Analytics' },
+  MEMOS: { key: 'MEMOS', label: 'Memos' },
+  YOUTUBE: { key: 'YOUTUBE', label: 'YouTube' },
+  EXTRA_BACKUP_FEATURES: { key: 'EXTRA_BACKUP_FEATURES', label: 'Extra backup features' }
+};
+
+function features(...keys: string[]): FeatureWithLabel[] {
+  return keys.map(key => FEATURES[key]);
+}
+
+function monthlyPricing(monthlyCents: number): TierDetails['pricing'] {
+  return {
+    monthly: { priceCents: monthlyCents, currency: 'USD' },
+    quarterly: { priceCents: Math.round(monthlyCents * 3 * 0.95), currency: 'USD' },
+    yearly: { priceCents: Math.round(monthlyCents * 12 * 0.85), currency: 'USD' }
+  };
+}
+
+export const MOCK_TIERS: Record<Tier, TierDetails> = {
+  free: {
+    tier: 'free',
+    name: 'Free',
+    entitlements: { notificationsPerDay: 5, features: features('BASIC_WEBPUSH', 'COMMUNITY_SUPPORT') }
+  },
+  basic: {
+    tier: 'basic',
+    name: 'Basic',
+    pricing: monthlyPricing(500),
+    entitlements: { notificationsPerDay: 50, features: features('BASIC_WEBPUSH', 'USERNAME', 'STORAGE_1GB') }
+  },
+  premium: {
+    tier: 'premium',
+    name: 'Premium',
+    pricing: monthlyPricing(1000),
+    entitlements: { notificationsPerDay: 150, features: features('BASIC_WEBPUSH', 'USERNAME', 'STORAGE_5GB') }
+  },
+  premium_plus: {
+    tier: 'premium_plus',
+    name: 'Premium Plus',
+    pricing: monthlyPricing(5000),
+    entitlements: {
+      notificationsPerDay: 500,
+      features: features(
+        'BASIC_WEBPUSH', 'USERNAME', 'NEWSLETTER', 'STORAGE_50GB', 'DUAL_POST_X_10',
+        'ANALYTICS', 'MEMOS', 'YOUTUBE', 'EXTRA_BACKUP_FEATURES'
+      )
+    }
+  }
+};
+
+const ALICE = '8e9f64b35e7e4384b5248f1d4294f109bb8d3442b04d7c59a62c04e702441488';
+const BOB = 'a1b2c3d4e5f6789012345678901234567890abcdef1234567890abcdef123456';
+const CAROL = 'f1e2d3c4b5a6978901234567890abcdef1234567890abcdef1234567890abcde';
+const DEVELOPER = '1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+const DAVE = '3bf0c63fcb93463407af97a5e5ee64fa883d107ef9e558472c4eb9aaaefa459d';
+const ERIN = '82341f882b6eabcd2ba7f1ef90aad961cf074af15b9ef44a09f9d2a8fbfbe6a2';
+
+function account(pubkey: string, tier: Tier, fields: Partial<Account>): Account {
+  return { pubkey, tier, signupDate: 0, entitlements: MOCK_TIERS[tier].entitlements, ...fields };
+}
+
+function payment(id: string, pubkey: string, tier: Tier, status: Payment['status'], created: number, paid?: number): Payment {
+  const priceCents = MOCK_TIERS[tier].pricing!.monthly!.priceCents;
+  return {
+    id,
+    type: 'payment',
+    paymentType: 'ln',
+    lnHash: id.replace('pay_', '').padEnd(64, '0'),
+    lnInvoice: `lnbc${priceCents * 10}0n1mock${id.replace('pay_', '')}`,
+    lnAmountSat: priceCents * 10,
+    tier,
+    billingCycle: 'monthly',
+    priceCents,
+    pubkey,
+    isPaid: status === 'paid',
+    paid,
+    status,
+    expires: created + HOUR_MS,
+    created,
+    modified: paid ?? created
+  };
+}
+
+/**
+ * A fresh copy of the mock backend's data, relative to `now`
+ */
+export function createMockState(now = Date.now()): MockState {
+  return {
+    tiers: structuredClone(MOCK_TIERS),
+    accounts: [
+      account(ALICE, 'basic', {
+        username: 'alice',
+        signupDate: now - 30 * DAY_MS,
+        lastLoginDate: now - HOUR_MS,
+        expires: now + 335 * DAY_MS
+      }),
+      account(BOB, 'premium_plus', {
+        username: 'bob_nostr',
+        signupDate: now - 15 * DAY_MS,
+        lastLoginDate: now - DAY_MS,
+        expires: now + 350 * DAY_MS,
+        xConnection: { connected: true, username: 'bob_nostr', userId: '1580000000000000000' },
+        xUsage: { totalPosts: 214, postsLast24h: 3, lastPosted: now - 2 * HOUR_MS, limit24h: 10, remaining24h: 7 }
+      }),
+      account(CAROL, 'free', {
+        signupDate: now - 5 * DAY_MS,
+        lastLoginDate: now - 2 * DAY_MS
+      }),
+      account(DEVELOPER, 'premium', {
+        username: 'developer',
+        signupDate: now - 60 * DAY_MS,
+        lastLoginDate: now - 12 * HOUR_MS,
+        expires: now + 305 * DAY_MS
+      }),
+      account(DAVE, 'premium', {
+        username: 'dave',
+        signupDate: now - 400 * DAY_MS,
+        lastLoginDate: now - 40 * DAY_MS,
+        expires: now - 35 * DAY_MS
+      }),
+      account(ERIN, 'basic', {
+        username: 'erin',
+        signupDate: now - 28 * DAY_MS,
+        lastLoginDate: now - 3 * HOUR_MS,
+        expires: now + 2 * DAY_MS,
+        xConnection: { connected: false }
+      })
+    ],
+    payments: [
+      payment('pay_1234567890', ALICE, 'basic', 'paid', now - 30 * DAY_MS, now - 30 * DAY_MS + 5 * 60 * 1000),
+      payment('pay_0987654321', BOB, 'premium', 'expired', now - 16 * DAY_MS),
+      payment('pay_1122334455', BOB, 'premium_plus', 'paid', now - 15 * DAY_MS, now - 15 * DAY_MS + 2 * 60 * 1000),
+      payment('pay_5566778899', ERIN, 'basic', 'paid', now - 28 * DAY_MS, now - 28 * DAY_MS + 60 * 1000),
+      payment('pay_6677889900', CAROL, 'premium', 'pending', now - 10 * 60 * 1000)
+    ],
+    extensions: [
+      { pubkey: ERIN, date: now - 5 * DAY_MS, days: 7, tier: 'basic', expires: now + 2 * DAY_MS }
+    ],
+    backups: [
+      {
+        id: 'bak_7f3a9c21',
+        pubkey: ALICE,
+        status: 'completed',
+        backupType: 'full',
+        requestedAt: now - 7 * DAY_MS,
+        startedAt: now - 7 * DAY_MS + 60 * 1000,
+        completedAt: now - 7 * DAY_MS + 4 * 60 * 1000,
+        resultUrl: 'https://backups.nostria.app/mock/bak_7f3a9c21.json',
+        expires: now + 23 * DAY_MS,
+        metadata: { description: 'Weekly backup' }
+      },
+      {
+        id: 'bak_0b41e6d8',
+        pubkey: ALICE,
+        status: 'failed',
+        backupType: 'incremental',
+        requestedAt: now - 2 * DAY_MS,
+        startedAt: now - 2 * DAY_MS + 30 * 1000,
+        errorMessage: 'Relay wss://relay.example.com timed out'
+      }
+    ],
+    settings: [
+      {
+        pubkey: ALICE,
+        tier: 'basic',
+        displayName: 'Alice',
+        bio: 'Nostr since the early days',
+        nip05: 'alice@nostria.app',
+        lud16: 'alice@getalby.com',
+        socialSharing: true,
+        created: now - 30 * DAY_MS,
+        updated: now - 3 * DAY_MS
+      },
+      {
+        pubkey: BOB,
+        tier: 'premium_plus',
+        displayName: 'Bob',
+        website: 'https://bob.example.com',
+        socialSharing: false,
+        created: now - 15 * DAY_MS,
+        updated: now - 15 * DAY_MS
+      }
+    ],
+    pushDevices: { [ALICE]: 2, [BOB]: 1, [DEVELOPER]: 3, [ERIN]: 1 },
+    notificationsSent: { [ALICE]: [now - 2 * HOUR_MS, now - HOUR_MS] },
+    grokConfig: {
+      enabled: true,
+      allowResponses: true,
+      allowImages: true,
+      allowServerSideTools: false,
+      guardrails: { responseSafetyMarginPercent: 25 },
+      defaults: { responseModel: 'grok-4-1-fast-reasoning', imageModel: 'grok-imagine-image' },
+      topUp: { minimumCents: 100, maximumCents: 50000, defaultOptionsCents: [500, 1000, 2500], nanosUsdPerCent: 10000000 },
+      quotas: {
+        basic: { includedImagesPerMonth: 5 },
+        premium: { includedImagesPerMonth: 10 },
+        premiumPlus: { includedImagesPerMonth: 30, dailyImageLimit: 5 }
+      },
+      pricing: {
+        responses: {
+          'grok-4-1-fast-reasoning': { enabled: true, inputTokenNanosUsd: 200, outputTokenNanosUsd: 500 },
+          'grok-4-1-fast-non-reasoning': { enabled: true, inputTokenNanosUsd: 200, outputTokenNanosUsd: 500 }
+        },
+        images: {
+          'grok-imagine-image': { enabled: true, imageNanosUsd: 20000000, includedQuotaEligible: true }
+        }
+      }
+    },
+    vapidKey: 'BMockVapidKeyForOfflineDevelopmentOnly0000000000000000000000000000000000000000000000000'
+  };
+}
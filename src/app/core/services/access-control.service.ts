@@ -0,0 +1,77 @@
+import { Injectable, computed } from '@angular/core';
+import { AdminEntry, AdminRole, Permission } from '../../shared/models/api.models';
+import { BackendEnvironmentService } from './backend-environment.service';
+import { SessionService } from './session.service';
+
+/**
+ * What each admin role may see and do in the portal
+ */
+export const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  viewer: ['dashboard:view', 'status:view', 'accounts:view'],
+  support: [
+    'dashboard:view', 'status:view', 'accounts:view', 'accounts:manage',
+    'notifications:manage', 'backups:manage', 'settings:users'
+  ],
+  finance: ['dashboard:view', 'status:view', 'accounts:view', 'payments:view', 'payments:manage'],
+  admin: [
+    'dashboard:view', 'status:view', 'accounts:view', 'accounts:manage',
+    'payments:view', 'payments:manage', 'notifications:manage', 'backups:manage',
+    'settings:users', 'settings:grok'
+  ]
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class AccessControlService {
+  /** Roles of the signed-in admin; empty when signed out or not on the allowlist */
+  readonly roles = computed(() => {
+    const pubkey = this.session.pubkey();
+    return pubkey ? this.rolesFor(pubkey) : [];
+  });
+
+  readonly permissions = computed(() =>
+    new Set(this.roles().flatMap(role => ROLE_PERMISSIONS[role]))
+  );
+
+  readonly isAdmin = computed(() => this.roles().length > 0);
+
+  constructor(
+    private session: SessionService,
+    private backend: BackendEnvironmentService
+  ) {}
+
+  /**
+   * Check if the signed-in admin holds a permission. Reads signals, so it is
+   * safe to call from templates.
+   */
+  can(permission: Permission): boolean {
+    return this.permissions().has(permission);
+  }
+
+  /**
+   * Check if the signed-in admin holds at least one of the permissions
+   */
+  canAny(permissions: Permission[]): boolean {
+    return permissions.some(permission => this.can(permission));
+  }
+
+  /**
+   * The allowlist label for a pubkey, e.g. "Ops" or "Finance"
+   */
+  labelFor(pubkey: string): string | undefined {
+    return this.findEntry(pubkey)?.label;
+  }
+
+  /**
+   * Look up the roles for a pubkey on the admin allowlist
+   */
+  rolesFor(pubkey: string): AdminRole[] {
+    const entry = this.findEntry(pubkey);
+    return entry ? entry.roles : this.backend.unlistedAdminRoles();
+  }
+
+  private findEntry(pubkey: string): AdminEntry | undefined {
+    return this.backend.admins().find(admin => admin.pubkey.toLowerCase() === pubkey.toLowerCase());
+  }
+}
@@ -0,0 +1,76 @@
+import { HttpTestingController } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+import { nextRequest, provideApiTesting } from '../interceptors/api-testing';
+import { ActivityLogService } from './activity-log.service';
+import { ApiService } from './api.service';
+import { SignerService } from './signer.service';
+
+describe('ActivityLogService', () => {
+  let activityLog: ActivityLogService;
+  let apiService: ApiService;
+  let signerService: SignerService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({ providers: provideApiTesting() });
+    activityLog = TestBed.inject(ActivityLogService);
+    apiService = TestBed.inject(ApiService);
+    signerService = TestBed.inject(SignerService);
+    httpMock = TestBed.inject(HttpTestingController);
+    await signerService.loginWithEphemeralKey();
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+    signerService.logout();
+  });
+
+  it('should capture API calls with credentials and secrets redacted', async () => {
+    const pending = apiService.makeAuthenticatedRequest('/settings/admin/set-user-settings', {
+      method: 'POST',
+      body: { pubkey: 'abc', password: 'hunter2', note: 'nsec1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqq' }
+    });
+    (await nextRequest(httpMock)).flush({ success: true, token: 'session-secret' });
+    await pending;
+
+    const [entry] = activityLog.entries();
+    expect(entry.method).toBe('POST');
+    expect(entry.endpoint).toBe('/settings/admin/set-user-settings');
+    expect(entry.status).toBe(200);
+    expect(entry.durationMs).toBeGreaterThanOrEqual(0);
+    expect(entry.requestHeaders['Authorization']).toBe('Nostr [redacted]');
+    expect(entry.requestBody).toContain('"pubkey": "abc"');
+    expect(entry.requestBody).not.toContain('hunter2');
+    expect(entry.requestBody).not.toContain('nsec1');
+    expect(entry.responseBody).not.toContain('session-secret');
+    expect(entry.nip98Event?.pubkey).toBe(signerService.getAuthState().pubkey!);
+    expect(entry.nip98Event?.sig).toBe('[redacted]');
+  });
+
+  it('should record failures with their error kind', async () => {
+    const pending = apiService.sendNotification('key-123', { pubkeys: ['abc'], title: 'Hi', body: 'There' });
+    const request = await nextRequest(httpMock);
+    request.flush({ error: 'invalid_key', message: 'Unknown API key' }, { status: 403, statusText: 'Forbidden' });
+    await pending;
+
+    const [entry] = activityLog.entries();
+    expect(entry.requestHeaders['X-API-Key']).toBe('[redacted]');
+    expect(entry.status).toBe(403);
+    expect(entry.error).toEqual({ kind: 'auth', message: 'Unknown API key (HTTP 403)' });
+    expect(entry.responseBody).toContain('Unknown API key');
+  });
+
+  it('should export HAR 1.2, oldest first', () => {
+    activityLog.start({ startedAt: 1000, method: 'GET', url: 'https://api.test/api/a?limit=5', endpoint: '/a', requestHeaders: {} });
+    activityLog.start({ startedAt: 2000, method: 'GET', url: 'https://api.test/api/b', endpoint: '/b', requestHeaders: {} });
+
+    const har = activityLog.toHar(activityLog.entries());
+
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.entries.map(entry => entry.request.url)).toEqual([
+      'https://api.test/api/a?limit=5',
+      'https://api.test/api/b'
+    ]);
+    expect(har.log.entries[0].request.queryString).toEqual([{ name: 'limit', value: '5' }]);
+  });
+});
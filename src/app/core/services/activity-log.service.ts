@@ -0,0 +1,105 @@
+import { Injectable, signal } from '@angular/core';
+import { ActivityLogEntry, HarEntry, HarLog, HarNameValue } from '../../shared/models/api.models';
+import { UtilsService } from '../../shared/utils/utils.service';
+
+/** Oldest calls drop off beyond this */
+export const ACTIVITY_LOG_MAX_ENTRIES = 200;
+
+/**
+ * Recent API traffic from this tab, for support staff to inspect when
+ * something misbehaves. Kept in memory only, since bodies can hold customer data.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ActivityLogService {
+  /** Newest first */
+  readonly entries = signal<ActivityLogEntry[]>([]);
+
+  constructor(private utils: UtilsService) {}
+
+  /**
+   * Record a request as it is sent
+   * @returns The entry id, to complete it with `update`
+   */
+  start(entry: Omit<ActivityLogEntry, 'id'>): string {
+    const id = this.utils.generateId(12);
+    this.entries.update(entries => [{ ...entry, id }, ...entries].slice(0, ACTIVITY_LOG_MAX_ENTRIES));
+    return id;
+  }
+
+  /**
+   * Add the outcome, or the decoded NIP-98 event, to a recorded request.
+   * Entries that already dropped out of the buffer are ignored.
+   */
+  update(id: string, changes: Partial<Omit<ActivityLogEntry, 'id'>>): void {
+    this.entries.update(entries => entries.map(entry => entry.id === id ? { ...entry, ...changes } : entry));
+  }
+
+  clear(): void {
+    this.entries.set([]);
+  }
+
+  /**
+   * Download entries as a HAR file, which browser dev tools and HAR viewers can open
+   * @param entries Defaults to the whole log
+   */
+  exportHar(entries: ActivityLogEntry[] = this.entries()): void {
+    const date = new Date().toISOString().split('T')[0];
+    this.utils.downloadAsFile(this.toHar(entries), `nostria-activity-${date}.har`);
+  }
+
+  /**
+   * Convert entries to HAR 1.2, oldest first. Retry attempts, NIP-98 events and
+   * error kinds go in custom `_` fields, which the format allows.
+   */
+  toHar(entries: ActivityLogEntry[]): HarLog {
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'Nostria Management Portal', version: '1.0' },
+        entries: [...entries].reverse().map((entry): HarEntry => ({
+          startedDateTime: new Date(entry.startedAt).toISOString(),
+          time: entry.durationMs ?? -1,
+          request: {
+            method: entry.method,
+            url: entry.url,
+            httpVersion: 'HTTP/1.1',
+            headers: toHarHeaders(entry.requestHeaders),
+            queryString: [...new URL(entry.url, location.origin).searchParams].map(([name, value]) => ({ name, value })),
+            cookies: [],
+            headersSize: -1,
+            bodySize: entry.requestBody?.length ?? 0,
+            ...(entry.requestBody !== undefined ? {
+              postData: { mimeType: entry.requestHeaders['Content-Type'] ?? '', text: entry.requestBody }
+            } : {})
+          },
+          response: {
+            status: entry.status ?? 0,
+            statusText: entry.statusText ?? '',
+            httpVersion: 'HTTP/1.1',
+            headers: toHarHeaders(entry.responseHeaders ?? {}),
+            cookies: [],
+            content: {
+              size: entry.responseBody?.length ?? 0,
+              mimeType: entry.responseHeaders?.['content-type'] ?? entry.responseHeaders?.['Content-Type'] ?? '',
+              text: entry.responseBody ?? ''
+            },
+            redirectURL: '',
+            headersSize: -1,
+            bodySize: -1
+          },
+          cache: {},
+          timings: { send: 0, wait: entry.durationMs ?? -1, receive: 0 },
+          ...(entry.attempt && entry.attempt > 1 ? { _attempt: entry.attempt } : {}),
+          ...(entry.nip98Event ? { _nip98Event: entry.nip98Event } : {}),
+          ...(entry.error ? { _error: entry.error } : {})
+        }))
+      }
+    };
+  }
+}
+
+function toHarHeaders(headers: Record<string, string>): HarNameValue[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
@@ -0,0 +1,475 @@
+import { HttpTestingController } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import { RequestBody } from '../../shared/utils/request-body';
+import { nextRequest, provideApiTesting } from '../interceptors/api-testing';
+import { ApiService } from './api.service';
+import { AuditLogService } from './audit-log.service';
+import { Nip98AuthService } from './nip98-auth.service';
+import { SignerService } from './signer.service';
+
+describe('ApiService NIP-98 payload hashing', () => {
+  let apiService: ApiService;
+  let nip98Auth: Nip98AuthService;
+  let signerService: SignerService;
+  let httpMock: HttpTestingController;
+
+  function formData(): FormData {
+    const data = new FormData();
+    data.append('label', 'Backup ✓');
+    data.append('file', new File(['{"events":[]}'], 'backup.json', { type: 'application/json' }));
+    return data;
+  }
+
+  // Every body type ApiService accepts, with what the server should see
+  const matrix: { name: string; body: () => RequestBody; contentType: RegExp }[] = [
+    { name: 'object', body: () => ({ z: 1, a: { nested: [1, 'two'] }, text: 'naïve' }), contentType: /^application\/json$/ },
+    { name: 'array', body: () => [{ pubkey: 'abc' }, { pubkey: 'def' }], contentType: /^application\/json$/ },
+    { name: 'pretty-printed JSON string', body: () => '{\n  "b": 2,\n  "a": 1\n}', contentType: /^text\/plain/ },
+    { name: 'text', body: () => 'plain text ✓', contentType: /^text\/plain/ },
+    { name: 'Uint8Array', body: () => new Uint8Array([0, 1, 2, 253, 254, 255]), contentType: /^application\/octet-stream$/ },
+    { name: 'ArrayBuffer', body: () => new Uint8Array([9, 8, 7]).buffer, contentType: /^application\/octet-stream$/ },
+    { name: 'Blob', body: () => new Blob(['<xml/>'], { type: 'application/xml' }), contentType: /^application\/xml$/ },
+    { name: 'URLSearchParams', body: () => new URLSearchParams({ q: 'a b', tier: 'premium' }), contentType: /^application\/x-www-form-urlencoded/ },
+    { name: 'FormData', body: formData, contentType: /^multipart\/form-data; boundary=/ }
+  ];
+
+  async function send(endpoint: string, method: 'GET' | 'POST', body?: RequestBody) {
+    const pending = apiService.makeAuthenticatedRequest(endpoint, { method, body });
+    const request = await nextRequest(httpMock);
+    request.flush({});
+    const response = await pending;
+
+    const { url, headers } = request.request;
+    const body_ = request.request.body as ArrayBuffer | null;
+    return {
+      response,
+      url,
+      authorization: headers.get('Authorization')!,
+      contentType: headers.get('Content-Type'),
+      bytes: body_ ? new Uint8Array(body_) : undefined
+    };
+  }
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({ providers: provideApiTesting() });
+    apiService = TestBed.inject(ApiService);
+    nip98Auth = TestBed.inject(Nip98AuthService);
+    signerService = TestBed.inject(SignerService);
+    httpMock = TestBed.inject(HttpTestingController);
+    await signerService.loginWithEphemeralKey();
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+    signerService.logout();
+  });
+
+  for (const { name, body, contentType } of matrix) {
+    it(`should sign the exact bytes sent for a ${name} body`, async () => {
+      const { response, url, authorization, contentType: sentType, bytes } = await send('/echo', 'POST', body());
+
+      expect(response.success).toBeTrue();
+      expect(bytes).toBeDefined();
+      expect(sentType).toMatch(contentType);
+
+      const event = await nip98Auth.unpackEventFromToken(authorization);
+      const payloadTag = event.tags.find(tag => tag[0] === 'payload')?.[1];
+      expect(payloadTag).toBe(bytesToHex(sha256(bytes!)));
+      expect(await nip98Auth.validateToken(authorization, url, 'POST', bytes)).toBeTrue();
+    });
+  }
+
+  it('should hash strings as sent rather than re-serializing them', async () => {
+    const text = '{\n  "b": 2,\n  "a": 1\n}';
+    const { authorization, bytes } = await send('/echo', 'POST', text);
+
+    expect(new TextDecoder().decode(bytes)).toBe(text);
+    const event = await nip98Auth.unpackEventFromToken(authorization);
+    expect(nip98Auth.validateEventPayloadTag(event, text)).toBeTrue();
+    expect(nip98Auth.validateEventPayloadTag(event, JSON.parse(text))).toBeFalse();
+  });
+
+  it('should send the multipart boundary that was signed', async () => {
+    const { contentType, bytes } = await send('/backup', 'POST', formData());
+
+    const boundary = contentType!.split('boundary=')[1];
+    expect(new TextDecoder().decode(bytes)).toContain(`--${boundary}`);
+  });
+
+  it('should leave out the payload tag when there is no body', async () => {
+    const { authorization, bytes } = await send('/account', 'GET', { ignored: true });
+
+    expect(bytes).toBeUndefined();
+    const event = await nip98Auth.unpackEventFromToken(authorization);
+    expect(event.tags.some(tag => tag[0] === 'payload')).toBeFalse();
+  });
+
+  it('should record signed requests in the audit log', async () => {
+    const auditLog = TestBed.inject(AuditLogService);
+    auditLog.clear();
+
+    await send('/account', 'GET');
+
+    expect(auditLog.entries()[0]).toEqual(jasmine.objectContaining({
+      pubkey: signerService.getAuthState().pubkey,
+      method: 'GET',
+      endpoint: '/account',
+      success: true,
+      status: 200
+    }));
+  });
+
+  it('should record unsigned changes with their reason, but not unsigned reads', async () => {
+    const auditLog = TestBed.inject(AuditLogService);
+    auditLog.clear();
+    const admin = signerService.getAuthState().pubkey!;
+
+    const changing = apiService.adminSetUserSettings({ pubkey: admin, targetPubkey: 'f'.repeat(64), tier: 'basic' }, { reason: 'Support ticket 42' });
+    (await nextRequest(httpMock)).flush({ success: true, message: 'ok' });
+    await changing;
+    const reading = apiService.getTiers();
+    (await nextRequest(httpMock)).flush({});
+    await reading;
+
+    expect(auditLog.entries()).toEqual([jasmine.objectContaining({
+      pubkey: admin,
+      method: 'POST',
+      endpoint: '/settings/admin/set-user-settings',
+      success: true,
+      reason: 'Support ticket 42'
+    })]);
+  });
+
+  it('should return a typed error for failed responses', async () => {
+    const pending = apiService.makeAuthenticatedRequest('/account', { method: 'GET' });
+    (await nextRequest(httpMock)).flush({ error: 'unauthorized', message: 'Unknown admin' }, { status: 401, statusText: 'Unauthorized' });
+    const response = await pending;
+
+    expect(response.success).toBeFalse();
+    expect(response.error?.kind).toBe('auth');
+    expect(response.error?.body?.message).toBe('Unknown admin');
+    expect(response.message).toBe(response.error?.message);
+  });
+
+  it('should report a request that could not be signed as an auth error without sending it', async () => {
+    spyOn(console, 'error');
+    signerService.logout();
+
+    const response = await apiService.makeAuthenticatedRequest('/account', { method: 'GET' });
+
+    expect(response.success).toBeFalse();
+    expect(response.error?.kind).toBe('auth');
+    expect(response.message).toMatch(/^Authentication failed: /);
+    expect(console.error).not.toHaveBeenCalled();
+    httpMock.expectNone(() => true);
+  });
+
+  it('should report network failures separately from server errors', async () => {
+    const pending = apiService.makeAuthenticatedRequest('/account', { method: 'GET', retries: 0 });
+    (await nextRequest(httpMock)).error(new ProgressEvent('error'));
+    const response = await pending;
+
+    expect(response.error?.kind).toBe('network');
+    expect(response.error?.status).toBeUndefined();
+  });
+});
+
+describe('ApiService credentials', () => {
+  let apiService: ApiService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: provideApiTesting() });
+    apiService = TestBed.inject(ApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should send API keys and Bearer tokens as headers', async () => {
+    const notification = apiService.sendNotification('key-123', { pubkeys: ['abc'], title: 'Hi', body: 'There' });
+    const withKey = await nextRequest(httpMock);
+    expect(withKey.request.headers.get('X-API-Key')).toBe('key-123');
+    withKey.flush({});
+    await notification;
+
+    const account = apiService.getAccount('token-456');
+    const withToken = await nextRequest(httpMock);
+    expect(withToken.request.headers.get('Authorization')).toBe('Bearer token-456');
+    withToken.flush({});
+    await account;
+  });
+});
+
+describe('ApiService retries and timeouts', () => {
+  let apiService: ApiService;
+  let nip98Auth: Nip98AuthService;
+  let signerService: SignerService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({ providers: provideApiTesting() });
+    apiService = TestBed.inject(ApiService);
+    nip98Auth = TestBed.inject(Nip98AuthService);
+    signerService = TestBed.inject(SignerService);
+    httpMock = TestBed.inject(HttpTestingController);
+    await signerService.loginWithEphemeralKey();
+    // No jitter, so retries happen straight away
+    spyOn(Math, 'random').and.returnValue(0);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+    signerService.logout();
+  });
+
+  it('should retry idempotent requests with a freshly signed token', async () => {
+    const signSpy = spyOn(nip98Auth, 'getSignedToken').and.callThrough();
+    const pending = apiService.makeAuthenticatedRequest('/account', { method: 'GET' });
+
+    (await nextRequest(httpMock)).flush('', { status: 503, statusText: 'Unavailable', headers: { 'Retry-After': '0' } });
+    (await nextRequest(httpMock)).flush({ ok: true });
+    const response = await pending;
+
+    expect(response.success).toBeTrue();
+    expect(signSpy).toHaveBeenCalledTimes(2);
+    expect(signSpy.calls.argsFor(0)[2]?.reuseToken).not.toBeFalse();
+    expect(signSpy.calls.argsFor(1)[2]?.reuseToken).toBeFalse();
+  });
+
+  it('should not retry requests that are not idempotent', async () => {
+    const pending = apiService.makeAuthenticatedRequest('/notification/send', { method: 'POST', body: {} });
+    (await nextRequest(httpMock)).flush('', { status: 503, statusText: 'Unavailable' });
+    const response = await pending;
+
+    expect(response.error?.kind).toBe('server');
+  });
+
+  it('should give up when Retry-After asks for too long a wait', async () => {
+    const pending = apiService.makeAuthenticatedRequest('/account', { method: 'GET' });
+    (await nextRequest(httpMock)).flush('', { status: 429, statusText: 'Too Many Requests', headers: { 'Retry-After': '3600' } });
+    const response = await pending;
+
+    expect(response.error?.kind).toBe('rate-limited');
+    expect(response.error?.retryAfterMs).toBe(3600 * 1000);
+  });
+
+  it('should abort attempts that run past their timeout', async () => {
+    const pending = apiService.makeAuthenticatedRequest('/notification/send', {
+      method: 'POST',
+      body: {},
+      timeoutMs: 20
+    });
+    const request = await nextRequest(httpMock);
+    const response = await pending;
+
+    expect(request.cancelled).toBeTrue();
+    expect(response.success).toBeFalse();
+    expect(response.error?.kind).toBe('timeout');
+  });
+});
+
+describe('ApiService cancellation', () => {
+  let apiService: ApiService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: provideApiTesting() });
+    apiService = TestBed.inject(ApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should cancel the HTTP request when its signal aborts', async () => {
+    const controller = new AbortController();
+    const pending = apiService.checkUsername('alice', { signal: controller.signal });
+    const request = await nextRequest(httpMock);
+
+    controller.abort();
+    const response = await pending;
+
+    expect(request.cancelled).toBeTrue();
+    expect(response.success).toBeFalse();
+    expect(response.error?.kind).toBe('cancelled');
+  });
+
+  it('should not send requests whose signal has already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const response = await apiService.getTiers({ signal: controller.signal });
+
+    expect(response.error?.kind).toBe('cancelled');
+    httpMock.expectNone(() => true);
+  });
+
+  it('should stop waiting for a cached endpoint without cancelling the shared request', async () => {
+    const controller = new AbortController();
+    const first = apiService.getTiers({ signal: controller.signal });
+    const second = apiService.getTiers();
+    const request = await nextRequest(httpMock);
+
+    controller.abort();
+    expect((await first).error?.kind).toBe('cancelled');
+
+    request.flush({ free: {} });
+    expect((await second).data).toEqual(jasmine.objectContaining({ free: {} }));
+  });
+
+  it('should stop listening to the signal once a cached endpoint answers', async () => {
+    const { signal } = new AbortController();
+    const added = spyOn(signal, 'addEventListener').and.callThrough();
+    const removed = spyOn(signal, 'removeEventListener').and.callThrough();
+
+    const pending = apiService.getTiers({ signal });
+    (await nextRequest(httpMock)).flush({ free: {} });
+    await pending;
+
+    expect(added).toHaveBeenCalled();
+    expect(removed.calls.allArgs().map(([, listener]) => listener))
+      .toEqual(jasmine.arrayWithExactContents(added.calls.allArgs().map(([, listener]) => listener)));
+  });
+});
+
+describe('ApiService caching', () => {
+  let apiService: ApiService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: provideApiTesting() });
+    apiService = TestBed.inject(ApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should serve tiers from the cache until they expire', async () => {
+    const first = apiService.getTiers();
+    (await nextRequest(httpMock)).flush({ free: {} });
+    await first;
+
+    const second = await apiService.getTiers();
+
+    expect(second.data).toEqual(jasmine.objectContaining({ free: {} }));
+    expect(apiService.peek('/account/tiers')).toEqual(second.data);
+    httpMock.expectNone(() => true);
+  });
+
+  it('should refetch account lookups after a subscription is extended', async () => {
+    const signerService = TestBed.inject(SignerService);
+    await signerService.loginWithEphemeralKey();
+    const pubkey = 'a'.repeat(64);
+    const lookup = apiService.getPublicAccount(pubkey);
+    (await nextRequest(httpMock)).flush({ pubkey, tier: 'free', signupDate: 0, isActive: true });
+    await lookup;
+
+    const extend = apiService.extendSubscription(pubkey, { months: 1 });
+    (await nextRequest(httpMock)).flush({ success: true, message: 'ok', newExpires: 0 });
+    await extend;
+
+    const refreshed = apiService.getPublicAccount(pubkey);
+    const request = await nextRequest(httpMock);
+    expect(request.request.url).toContain(`/account/${pubkey}`);
+    request.flush({ pubkey, tier: 'premium', signupDate: 0, isActive: true });
+    expect((await refreshed).data.tier).toBe('premium');
+    signerService.logout();
+  });
+});
+
+describe('ApiService response validation', () => {
+  let apiService: ApiService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: provideApiTesting() });
+    apiService = TestBed.inject(ApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should report responses that drifted from their model with the offending path', async () => {
+    const pending = apiService.getBackupJobs('token', 10);
+    (await nextRequest(httpMock)).flush({
+      jobs: [{ id: 'bak_1', status: 'pending', backupType: 'full', requestedAt: 'yesterday' }],
+      total: 1
+    });
+    const response = await pending;
+
+    expect(response.success).toBeFalse();
+    expect(response.error?.kind).toBe('schema');
+    expect(response.error?.path).toBe('$.jobs[0].requestedAt');
+    expect(response.message).toContain('got "yesterday"');
+  });
+
+  it('should accept enum values added on the server', async () => {
+    const pending = apiService.getBackupJob('token', 'bak_1');
+    (await nextRequest(httpMock)).flush({ id: 'bak_1', status: 'archived', backupType: 'differential', requestedAt: 0 });
+    const response = await pending;
+
+    expect(response.success).toBeTrue();
+    expect([response.data.status, response.data.backupType]).toEqual(['archived', 'differential']);
+  });
+
+  it('should turn null optional fields into undefined', async () => {
+    const pending = apiService.getBackupJob('token', 'bak_1');
+    (await nextRequest(httpMock)).flush({ id: 'bak_1', status: 'pending', backupType: 'full', requestedAt: 0, resultUrl: null });
+    const response = await pending;
+
+    expect(response.success).toBeTrue();
+    expect(response.data.resultUrl).toBeUndefined();
+  });
+
+  it('should read the plain account array of servers without paging as the only page', async () => {
+    await TestBed.inject(SignerService).loginWithEphemeralKey();
+    const account = { pubkey: 'a'.repeat(64), created: 0, tier: 'basic' };
+
+    const pending = apiService.listAccounts({ limit: 100 });
+    (await nextRequest(httpMock)).flush([account]);
+    const response = await pending;
+
+    expect(response.success).toBeTrue();
+    expect(response.data).toEqual({ accounts: [account] });
+    TestBed.inject(SignerService).logout();
+  });
+});
+
+describe('ApiService operations', () => {
+  let apiService: ApiService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: provideApiTesting() });
+    apiService = TestBed.inject(ApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should encode path parameters and leave out unset query parameters', async () => {
+    const pending = apiService.checkUsername('a b/c');
+    const check = await nextRequest(httpMock);
+    expect(check.request.url).toMatch(/\/account\/check\/a%20b%2Fc$/);
+    check.flush({ success: true, available: true });
+    await pending;
+
+    const list = apiService.getBackupJobs('token');
+    const jobs = await nextRequest(httpMock);
+    expect(jobs.request.urlWithParams).toMatch(/\/backup$/);
+    jobs.flush({ jobs: [], total: 0 });
+    await list;
+  });
+});
@@ -1,113 +1,226 @@
-import { Injectable, inject } from '@angular/core';
-import { environment } from '../../../environments/environment';
+import { HttpClient, HttpContext } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { abortWith } from '../../shared/utils/request-scope';
 import { 
   ApiResponse, Customer, Server, ServerConfig,
   // Nostria API Types
-  Account, AddAccountRequest, UpdateAccountRequest, TierDetails,
+  Account, AccountListPage, AccountListQuery, AddAccountRequest, UpdateAccountRequest, TierDetails, PublicAccount, UsernameCheck,
   BackupJobResponse, CreateBackupJobRequest, VapidKey,
   NotificationRequest, NotificationResult, NotificationStatus,
-  CreatePaymentRequest, Payment, UserSettingsUpdate, UserSettingsResponse,
+  CreatePaymentRequest, Payment, PaymentListQuery, SubscriptionEvent, UserSettingsUpdate,
   ServiceStatus, HealthStatus, PushSubscription,
   NotificationData, DevicesResponse, UserSettingsRequest, UserSettings,
   AdminSetUserSettingsRequest, GrokAdminConfig,
   // NIP-98 Auth Types
   Nip98AuthOptions
 } from '../../shared/models/api.models';
-import { Nip98AuthService } from './nip98-auth.service';
+import { RequestBody } from '../../shared/utils/request-body';
+import { Schema, SchemaError, validate } from '../../shared/utils/schema';
+import {
+  accountListPageSchema, accountSchema, backupJobListSchema, backupJobSchema, devicesSchema, grokAdminConfigSchema,
+  notificationResultSchema, notificationStatusSchema, paymentListSchema, paymentSchema, publicAccountSchema,
+  serviceStatusSchema, subscriptionHistorySchema
+} from '../../shared/models/api-schemas';
+import type { ApiOperations } from '../../shared/models/nostria-api.generated';
+import { ApiError } from '../../shared/models/api-error';
+import { API_ENDPOINT, API_KEY, AUDIT_REASON, BEARER_TOKEN, NIP98_AUTH, REQUEST_RETRIES, REQUEST_TIMEOUT } from '../interceptors/api-context';
 import { NostrExtensionService } from './nostr-extension.service';
-
-export interface ApiOptions {
+import { SignerService } from './signer.service';
+import { ClockService } from './clock.service';
+import { BackendEnvironmentService } from './backend-environment.service';
+import { CachePolicy, ResponseCache } from './response-cache.service';
+
+const MINUTE_MS = 60 * 1000;
+
+/** How long read-only reference data may be served from the cache */
+const CACHE_POLICIES = {
+  tiers: { ttlMs: 10 * MINUTE_MS, staleMs: 24 * 60 * MINUTE_MS },
+  vapidKey: { ttlMs: 60 * MINUTE_MS, staleMs: 7 * 24 * 60 * MINUTE_MS },
+  status: { ttlMs: 10 * 1000, staleMs: MINUTE_MS },
+  publicAccount: { ttlMs: 30 * 1000, staleMs: 5 * MINUTE_MS }
+} satisfies Record<string, CachePolicy>;
+
+export interface ApiOptions<T = unknown> {
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
-  body?: any;
+  body?: RequestBody;
   headers?: Record<string, string>;
   useNip98Auth?: boolean;
   nip98Options?: Nip98AuthOptions;
+  /** Abort each attempt after this long (default `environment.requestTimeoutMs`) */
+  timeoutMs?: number;
+  /** Retries after the first attempt (default `environment.requestRetries` for idempotent methods, otherwise 0) */
+  retries?: number;
+  /** Sent as `X-API-Key` */
+  apiKey?: string;
+  /** Sent as `Authorization: Bearer ...` */
+  bearerToken?: string;
+  /** Why the admin made the change, recorded with the request in the audit log */
+  auditReason?: string;
+  /** Aborting it cancels the request, which then fails with kind `cancelled` */
+  signal?: AbortSignal;
+  /** Checked against the response body; a mismatch fails with kind `schema` */
+  schema?: Schema<T>;
 }
 
+/** Options the read methods accept alongside their own parameters */
+export type RequestOptions = Pick<ApiOptions, 'signal'> & {
+  /** Skip the response cache and wait for a new response (cached endpoints only) */
+  reload?: boolean;
+};
+
+type Operation = keyof ApiOperations;
+type OperationResponse<K extends Operation> = ApiOperations[K]['response'];
+/** Path parameters, query and body of an operation, as the OpenAPI document declares them */
+type OperationRequest<K extends Operation> = Omit<ApiOperations[K], 'response'>;
+
 @Injectable({
   providedIn: 'root'
 })
 export class ApiService {
-  // Ensure baseUrl ends with '/api' to be compatible with existing endpoint paths
-  private readonly baseUrl = (() => {
-    const envUrl = environment.apiBaseUrl || 'http://localhost:3000';
-    return envUrl.endsWith('/api') ? envUrl : envUrl.replace(/\/$/, '') + '/api';
-  })();
-
   constructor(
-    private nip98Auth: Nip98AuthService,
-    private nostrExtension: NostrExtensionService
+    private nostrExtension: NostrExtensionService,
+    private signerService: SignerService,
+    private clock: ClockService,
+    private http: HttpClient,
+    private backend: BackendEnvironmentService,
+    private cache: ResponseCache
   ) {}
 
-  private async makeRequest<T>(endpoint: string, options: ApiOptions = {}): Promise<ApiResponse<T>> {
-    const { method = 'GET', body, headers = {}, useNip98Auth = false, nip98Options = {} } = options;
+  /** Follows the backend selected in the shell */
+  private get baseUrl(): string {
+    return this.backend.apiBaseUrl();
+  }
 
-    const defaultHeaders: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
+  /**
+   * The cached response for a GET endpoint on the selected backend, if any.
+   * Tracked by signals, so a computed reading it updates when the cache is refreshed.
+   */
+  peek<T>(endpoint: string): T | undefined {
+    return this.cache.read<T>(`${this.baseUrl}${endpoint}`);
+  }
+
+  /**
+   * A GET served through the response cache. The request itself is shared between callers,
+   * so aborting `signal` only stops this caller waiting for it.
+   */
+  private async cachedRequest<T>(
+    endpoint: string,
+    policy: CachePolicy,
+    options: RequestOptions,
+    fetch: () => Promise<ApiResponse<T>>
+  ): Promise<ApiResponse<T>> {
+    const { signal, reload } = options;
+    const cancelled = (): ApiResponse<T> => {
+      const error = ApiError.cancelled('GET', endpoint);
+      return { data: null as T, success: false, message: error.message, error };
     };
+    if (signal?.aborted) return cancelled();
 
-    // Add NIP-98 authentication header if requested
-    if (useNip98Auth) {
-      try {
-        const fullUrl = `${this.baseUrl}${endpoint}`;
-        const token = await this.nip98Auth.getToken(
-          fullUrl, 
-          method, 
-          {
-            ...nip98Options,
-            payload: body
-          }
-        );
-        defaultHeaders['Authorization'] = `Nostr ${token}`;
-      } catch (error) {
-        console.error('Failed to generate NIP-98 auth token:', error);
-        return {
-          data: null as T,
-          success: false,
-          message: `Authentication failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-        };
-      }
+    const response = this.cache.get(`${this.baseUrl}${endpoint}`, policy, fetch, reload);
+    if (!signal) return response;
+
+    let onAbort!: () => void;
+    const aborted = new Promise<ApiResponse<T>>(resolve => {
+      onAbort = () => resolve(cancelled());
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+    try {
+      return await Promise.race([response, aborted]);
+    } finally {
+      // A long-lived signal, such as a component's lifetime, would otherwise collect a listener per request
+      signal.removeEventListener('abort', onAbort);
     }
+  }
 
-    const requestOptions: RequestInit = {
-      method,
-      headers: { ...defaultHeaders, ...headers },
-    };
+  /**
+   * Let cached reads of matching endpoints refresh on their next use
+   */
+  private invalidate(matches: (endpoint: string) => boolean): void {
+    const baseUrl = this.baseUrl;
+    this.cache.invalidate(key => key.startsWith(baseUrl) && matches(key.slice(baseUrl.length)));
+  }
 
-    if (body && method !== 'GET') {
-      requestOptions.body = JSON.stringify(body);
-    }
+  /** After an account changes, lookups must not show the old version */
+  private invalidateAccounts(): void {
+    this.invalidate(endpoint => endpoint.startsWith('/account/') && endpoint !== '/account/tiers');
+  }
 
-    try {
-      const response = await fetch(`${this.baseUrl}${endpoint}`, requestOptions);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+  /**
+   * Send a request through the interceptor chain (see `apiInterceptors`), which
+   * takes care of signing, credentials, timeouts, retries and error normalization
+   */
+  private async makeRequest<T>(endpoint: string, options: ApiOptions<T> = {}): Promise<ApiResponse<T>> {
+    const { method = 'GET', body, headers = {}, useNip98Auth = false, nip98Options = {} } = options;
+
+    const context = new HttpContext().set(API_ENDPOINT, endpoint);
+    if (useNip98Auth) context.set(NIP98_AUTH, nip98Options);
+    if (options.apiKey) context.set(API_KEY, options.apiKey);
+    if (options.bearerToken) context.set(BEARER_TOKEN, options.bearerToken);
+    if (options.auditReason) context.set(AUDIT_REASON, options.auditReason);
+    if (options.timeoutMs !== undefined) context.set(REQUEST_TIMEOUT, options.timeoutMs);
+    if (options.retries !== undefined) context.set(REQUEST_RETRIES, options.retries);
 
-      const data = await response.json();
+    try {
+      const request = this.http.request<T>(method, `${this.baseUrl}${endpoint}`, {
+        body: method === 'GET' ? null : body ?? null,
+        headers,
+        context
+      });
+      const data = await firstValueFrom(options.signal ? request.pipe(abortWith(options.signal)) : request);
       return {
-        data,
+        data: options.schema ? validate(options.schema, data) : data,
         success: true
       };
     } catch (error) {
-      console.error('API request failed:', error);
+      const apiError = options.signal?.aborted
+        ? ApiError.cancelled(method, endpoint)
+        : error instanceof ApiError ? error
+        : error instanceof SchemaError ? ApiError.schemaMismatch(error, method, endpoint)
+        : ApiError.fromHttpError(error, method, endpoint);
       return {
         data: null as T,
         success: false,
-        message: error instanceof Error ? error.message : 'Unknown error occurred'
+        message: apiError.message,
+        error: apiError
       };
     }
   }
 
+  /**
+   * Send an operation of the OpenAPI document (`api/nostria.openapi.json`). Its path
+   * parameters, query, body and response type come from the generated `ApiOperations`,
+   * so a call that no longer matches the document fails to compile. A `schema` may
+   * narrow the documented response, e.g. to one shape of a `oneOf`.
+   */
+  private callOperation<K extends Operation, T extends OperationResponse<K> = OperationResponse<K>>(
+    operation: K,
+    request: OperationRequest<K>,
+    options: Omit<ApiOptions<T>, 'method' | 'body'> = {}
+  ): Promise<ApiResponse<T>> {
+    const [method, template] = operation.split(' ') as [NonNullable<ApiOptions['method']>, string];
+    const { params = {}, query = {}, body } = request as {
+      params?: Record<string, string>;
+      query?: Record<string, string | number | boolean | undefined>;
+      body?: RequestBody;
+    };
+
+    const path = template.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(params[name]));
+    const search = new URLSearchParams();
+    for (const [name, value] of Object.entries(query)) {
+      if (value !== undefined) search.set(name, String(value));
+    }
+    const queryString = search.toString();
+    return this.makeRequest(queryString ? `${path}?${queryString}` : path, { ...options, method, body });
+  }
+
   // Legacy Customer endpoints (keeping for backward compatibility)
-  async getCustomers(): Promise<ApiResponse<Customer[]>> {
-    return this.makeRequest<Customer[]>('/customers');
+  async getCustomers(options: RequestOptions = {}): Promise<ApiResponse<Customer[]>> {
+    return this.makeRequest<Customer[]>('/customers', options);
   }
 
-  async getCustomer(id: string): Promise<ApiResponse<Customer>> {
-    return this.makeRequest<Customer>(`/customers/${id}`);
+  async getCustomer(id: string, options: RequestOptions = {}): Promise<ApiResponse<Customer>> {
+    return this.makeRequest<Customer>(`/customers/${id}`, options);
   }
 
   async updateCustomer(id: string, customer: Partial<Customer>): Promise<ApiResponse<Customer>> {
@@ -124,12 +237,12 @@ export class ApiService {
   }
 
   // Legacy Server endpoints (keeping for backward compatibility)
-  async getServers(): Promise<ApiResponse<Server[]>> {
-    return this.makeRequest<Server[]>('/servers');
+  async getServers(options: RequestOptions = {}): Promise<ApiResponse<Server[]>> {
+    return this.makeRequest<Server[]>('/servers', options);
   }
 
-  async getServer(id: string): Promise<ApiResponse<Server>> {
-    return this.makeRequest<Server>(`/servers/${id}`);
+  async getServer(id: string, options: RequestOptions = {}): Promise<ApiResponse<Server>> {
+    return this.makeRequest<Server>(`/servers/${id}`, options);
   }
 
   async updateServerConfig(id: string, config: ServerConfig): Promise<ApiResponse<ServerConfig>> {
@@ -157,194 +270,268 @@ export class ApiService {
     });
   }
 
-  // Nostria Account Management API
-  async getTiers(): Promise<ApiResponse<Record<string, TierDetails>>> {
-    return this.makeRequest<Record<string, TierDetails>>('/account/tiers');
+  // Nostria API, checked against api/nostria.openapi.json through `callOperation`
+
+  // Account Management
+  async getTiers(options: RequestOptions = {}): Promise<ApiResponse<Record<string, TierDetails>>> {
+    return this.cachedRequest('/account/tiers', CACHE_POLICIES.tiers, options, () =>
+      this.callOperation('GET /account/tiers', {})
+    );
   }
 
   async createAccount(request: AddAccountRequest): Promise<ApiResponse<Account>> {
-    return this.makeRequest<Account>('/account', {
-      method: 'POST',
-      body: request
+    const response = await this.callOperation('POST /account', { body: request }, { schema: accountSchema });
+    this.invalidateAccounts();
+    return response;
+  }
+
+  async getAccount(authToken: string, options: RequestOptions = {}): Promise<ApiResponse<Account>> {
+    return this.callOperation('GET /account', {}, { ...options, bearerToken: authToken, schema: accountSchema });
+  }
+
+  async updateAccount(authToken: string, request: UpdateAccountRequest): Promise<ApiResponse<Account>> {
+    const response = await this.callOperation('PUT /account', { body: request }, { bearerToken: authToken, schema: accountSchema });
+    this.invalidateAccounts();
+    return response;
+  }
+
+  async checkUsername(username: string, options: RequestOptions = {}): Promise<ApiResponse<UsernameCheck>> {
+    return this.callOperation('GET /account/check/{username}', { params: { username } }, options);
+  }
+
+  async getPublicAccount(pubkeyOrUsername: string, options: RequestOptions = {}): Promise<ApiResponse<PublicAccount>> {
+    return this.cachedRequest(`/account/${encodeURIComponent(pubkeyOrUsername)}`, CACHE_POLICIES.publicAccount, options, () =>
+      this.callOperation('GET /account/{pubkeyOrUsername}', { params: { pubkeyOrUsername } }, { schema: publicAccountSchema })
+    );
+  }
+
+  /**
+   * One page of accounts (admin, signed with NIP-98)
+   * @param query Sort, filters, page size and the cursor of the page to fetch
+   */
+  async listAccounts(query: AccountListQuery = {}, options: RequestOptions = {}): Promise<ApiResponse<AccountListPage>> {
+    return this.callOperation('GET /account/list', { query }, {
+      ...options,
+      useNip98Auth: true,
+      schema: accountListPageSchema
     });
   }
 
-  async getAccount(authToken: string): Promise<ApiResponse<Account>> {
-    return this.makeRequest<Account>('/account', {
-      headers: {
-        'Authorization': `Bearer ${authToken}`
-      }
+  /**
+   * Extend an account's subscription (admin action, no invoice created)
+   * @param pubkey The public key of the account to extend
+   * @param duration Either { months: 1 } or { weeks: 1 }
+   * @param options.reason Why, recorded with the request in the audit log
+   */
+  async extendSubscription(
+    pubkey: string,
+    duration: { months: 1 } | { weeks: 1 },
+    options: { reason?: string } = {}
+  ): Promise<ApiResponse<{ success: boolean, message: string, newExpires: number }>> {
+    const response = await this.callOperation('POST /account/{pubkey}/extend', { params: { pubkey }, body: duration }, {
+      useNip98Auth: true,
+      auditReason: options.reason
     });
+    this.invalidateAccounts();
+    return response;
   }
 
-  async updateAccount(authToken: string, request: UpdateAccountRequest): Promise<ApiResponse<Account>> {
-    return this.makeRequest<Account>('/account', {
-      method: 'PUT',
-      headers: {
-        'Authorization': `Bearer ${authToken}`
-      },
-      body: request
+  // Account administration: everything about one account (admin, signed with NIP-98)
+  async getAccountAsAdmin(pubkey: string, options: RequestOptions = {}): Promise<ApiResponse<Account>> {
+    return this.callOperation('GET /account/admin/{pubkey}', { params: { pubkey } }, {
+      ...options,
+      useNip98Auth: true,
+      schema: accountSchema
     });
   }
 
-  async checkUsername(username: string): Promise<ApiResponse<any>> {
-    return this.makeRequest<any>(`/account/check/${username}`);
+  /**
+   * Signup, payments and admin extensions of an account, oldest first
+   */
+  async getSubscriptionHistory(pubkey: string, options: RequestOptions = {}): Promise<ApiResponse<SubscriptionEvent[]>> {
+    return this.callOperation('GET /account/admin/{pubkey}/history', { params: { pubkey } }, {
+      ...options,
+      useNip98Auth: true,
+      schema: subscriptionHistorySchema
+    });
   }
 
-  async getPublicAccount(pubkeyOrUsername: string): Promise<ApiResponse<any>> {
-    return this.makeRequest<any>(`/account/${pubkeyOrUsername}`);
+  async getAccountBackupJobs(pubkey: string, options: RequestOptions = {}): Promise<ApiResponse<{ jobs: BackupJobResponse[], total: number }>> {
+    return this.callOperation('GET /account/admin/{pubkey}/backups', { params: { pubkey } }, {
+      ...options,
+      useNip98Auth: true,
+      schema: backupJobListSchema
+    });
+  }
+
+  async getAccountDevices(pubkey: string, options: RequestOptions = {}): Promise<ApiResponse<DevicesResponse>> {
+    return this.callOperation('GET /account/admin/{pubkey}/devices', { params: { pubkey } }, {
+      ...options,
+      useNip98Auth: true,
+      schema: devicesSchema
+    });
+  }
+
+  async getAccountNotificationStatus(pubkey: string, options: RequestOptions = {}): Promise<ApiResponse<NotificationStatus>> {
+    return this.callOperation('GET /account/admin/{pubkey}/notifications', { params: { pubkey } }, {
+      ...options,
+      useNip98Auth: true,
+      schema: notificationStatusSchema
+    });
   }
 
   // Backup Management API
   async createBackupJob(authToken: string, request: CreateBackupJobRequest): Promise<ApiResponse<BackupJobResponse>> {
-    return this.makeRequest<BackupJobResponse>('/backup', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${authToken}`
-      },
-      body: request
-    });
+    return this.callOperation('POST /backup', { body: request }, { bearerToken: authToken, schema: backupJobSchema });
   }
 
-  async getBackupJobs(authToken: string, limit?: number): Promise<ApiResponse<{ jobs: BackupJobResponse[], total: number }>> {
-    const query = limit ? `?limit=${limit}` : '';
-    return this.makeRequest<{ jobs: BackupJobResponse[], total: number }>(`/backup${query}`, {
-      headers: {
-        'Authorization': `Bearer ${authToken}`
-      }
+  async getBackupJobs(authToken: string, limit?: number, options: RequestOptions = {}): Promise<ApiResponse<{ jobs: BackupJobResponse[], total: number }>> {
+    return this.callOperation('GET /backup', { query: { limit } }, {
+      ...options,
+      bearerToken: authToken,
+      schema: backupJobListSchema
     });
   }
 
-  async getBackupJob(authToken: string, jobId: string): Promise<ApiResponse<BackupJobResponse>> {
-    return this.makeRequest<BackupJobResponse>(`/backup/${jobId}`, {
-      headers: {
-        'Authorization': `Bearer ${authToken}`
-      }
+  async getBackupJob(authToken: string, jobId: string, options: RequestOptions = {}): Promise<ApiResponse<BackupJobResponse>> {
+    return this.callOperation('GET /backup/{jobId}', { params: { jobId } }, {
+      ...options,
+      bearerToken: authToken,
+      schema: backupJobSchema
     });
   }
 
   // Keys Management API
-  async getVapidKey(): Promise<ApiResponse<VapidKey>> {
-    return this.makeRequest<VapidKey>('/key');
+  async getVapidKey(options: RequestOptions = {}): Promise<ApiResponse<VapidKey>> {
+    return this.cachedRequest('/key', CACHE_POLICIES.vapidKey, options, () =>
+      this.callOperation('GET /key', {})
+    );
   }
 
   // Notifications API
   async sendNotification(apiKey: string, request: NotificationRequest): Promise<ApiResponse<NotificationResult>> {
-    return this.makeRequest<NotificationResult>('/notification/send', {
-      method: 'POST',
-      headers: {
-        'X-API-Key': apiKey
-      },
-      body: request
-    });
+    return this.callOperation('POST /notification/send', { body: request }, { apiKey, schema: notificationResultSchema });
   }
 
-  async getNotificationStatus(apiKey: string, pubkey: string): Promise<ApiResponse<NotificationStatus>> {
-    return this.makeRequest<NotificationStatus>(`/notification/status/${pubkey}`, {
-      headers: {
-        'X-API-Key': apiKey
-      }
+  async getNotificationStatus(apiKey: string, pubkey: string, options: RequestOptions = {}): Promise<ApiResponse<NotificationStatus>> {
+    return this.callOperation('GET /notification/status/{pubkey}', { params: { pubkey } }, {
+      ...options,
+      apiKey,
+      schema: notificationStatusSchema
     });
   }
 
   // Payment Management API
   async createPayment(request: CreatePaymentRequest): Promise<ApiResponse<Payment>> {
-    return this.makeRequest<Payment>('/payment', {
-      method: 'POST',
-      body: request
+    return this.callOperation('POST /payment', { body: request }, { schema: paymentSchema });
+  }
+
+  async getPayment(pubkey: string, paymentId: string, options: RequestOptions = {}): Promise<ApiResponse<Payment>> {
+    return this.callOperation('GET /payment/{pubkey}/{paymentId}', { params: { pubkey, paymentId } }, {
+      ...options,
+      schema: paymentSchema
     });
   }
 
-  async getPayment(pubkey: string, paymentId: string): Promise<ApiResponse<Payment>> {
-    return this.makeRequest<Payment>(`/payment/${pubkey}/${paymentId}`);
+  /**
+   * Payments, newest first (admin, signed with NIP-98)
+   * @param query Page size and, for one account's payments, its pubkey
+   */
+  async listPayments(query: PaymentListQuery = {}, options: RequestOptions = {}): Promise<ApiResponse<Payment[]>> {
+    return this.callOperation('GET /payment', { query }, {
+      ...options,
+      useNip98Auth: true,
+      schema: paymentListSchema
+    });
   }
 
   // Settings Management API
-  async createOrUpdateUserSettings(authToken: string, pubkey: string, settings: UserSettingsUpdate): Promise<ApiResponse<UserSettingsResponse>> {
-    return this.makeRequest<UserSettingsResponse>(`/settings/${pubkey}`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${authToken}`
-      },
-      body: settings
-    });
+  async createOrUpdateUserSettings(authToken: string, pubkey: string, settings: UserSettingsUpdate): Promise<ApiResponse<UserSettings>> {
+    return this.callOperation('POST /settings/{pubkey}', { params: { pubkey }, body: settings }, { bearerToken: authToken });
   }
 
   // Simplified method for component use (uses mock auth for demo)
-  async getUserSettings(pubkey: string): Promise<ApiResponse<UserSettings>> {
-    return this.makeRequest<UserSettings>(`/settings/${pubkey}`, {
-      headers: {
-        'Authorization': `Bearer mock-token`
-      }
-    });
+  async getUserSettings(pubkey: string, options: RequestOptions = {}): Promise<ApiResponse<UserSettings>> {
+    return this.callOperation('GET /settings/{pubkey}', { params: { pubkey } }, { ...options, bearerToken: 'mock-token' });
   }
 
   // Simplified method for component use (uses mock auth for demo)
   async updateUserSettings(request: UserSettingsRequest): Promise<ApiResponse<UserSettings>> {
-    return this.makeRequest<UserSettings>(`/settings/${request.pubkey}`, {
-      method: 'PATCH',
-      headers: {
-        'Authorization': `Bearer mock-token`
-      },
-      body: request
+    return this.callOperation('POST /settings/{pubkey}', { params: { pubkey: request.pubkey }, body: request }, {
+      bearerToken: 'mock-token'
     });
   }
 
   async deleteUserSettings(authToken: string, pubkey: string): Promise<ApiResponse<{ success: boolean, message: string }>> {
-    return this.makeRequest<{ success: boolean, message: string }>(`/settings/${pubkey}`, {
-      method: 'DELETE',
-      headers: {
-        'Authorization': `Bearer ${authToken}`
-      }
-    });
+    return this.callOperation('DELETE /settings/{pubkey}', { params: { pubkey } }, { bearerToken: authToken });
   }
 
   // Extended Settings API
-  async adminSetUserSettings(request: AdminSetUserSettingsRequest): Promise<ApiResponse<{ success: boolean, message: string }>> {
-    return this.makeRequest<{ success: boolean, message: string }>('/settings/admin/set-user-settings', {
-      method: 'POST',
-      body: request
+  /**
+   * Change another user's settings, including their tier
+   * @param options.reason Why, recorded with the request in the audit log
+   */
+  async adminSetUserSettings(
+    request: AdminSetUserSettingsRequest,
+    options: { reason?: string } = {}
+  ): Promise<ApiResponse<{ success: boolean, message: string }>> {
+    const response = await this.callOperation('POST /settings/admin/set-user-settings', { body: request }, { auditReason: options.reason });
+    // A tier set here changes the account too
+    if (request.tier !== undefined) this.invalidateAccounts();
+    return response;
+  }
+
+  async getGrokAdminConfig(options: RequestOptions = {}): Promise<ApiResponse<GrokAdminConfig>> {
+    return this.callOperation('GET /grok/admin/config', {}, {
+      ...options,
+      useNip98Auth: true,
+      schema: grokAdminConfigSchema
     });
   }
 
-  async getGrokAdminConfig(): Promise<ApiResponse<GrokAdminConfig>> {
-    return this.makeAuthenticatedRequest<GrokAdminConfig>('/grok/admin/config');
-  }
-
   async updateGrokAdminConfig(config: GrokAdminConfig): Promise<ApiResponse<GrokAdminConfig>> {
-    return this.makeAuthenticatedRequest<GrokAdminConfig>('/grok/admin/config', {
-      method: 'PUT',
-      body: config,
+    return this.callOperation('PUT /grok/admin/config', { body: config }, {
+      useNip98Auth: true,
+      schema: grokAdminConfigSchema
     });
   }
 
   // Status & Health API
-  async getServiceStatus(): Promise<ApiResponse<ServiceStatus>> {
-    return this.makeRequest<ServiceStatus>('/status');
+  async getServiceStatus(options: RequestOptions = {}): Promise<ApiResponse<ServiceStatus>> {
+    return this.cachedRequest('/status', CACHE_POLICIES.status, options, async () => {
+      const requestStart = Date.now();
+      const response = await this.callOperation('GET /status', {}, { schema: serviceStatusSchema });
+      if (response.success && response.data?.timestamp) {
+        this.clock.recordServerTime(response.data.timestamp, requestStart, Date.now());
+      }
+      return response;
+    });
   }
 
-  async getHealthStatus(): Promise<ApiResponse<HealthStatus>> {
-    return this.makeRequest<HealthStatus>('/status/health');
+  /**
+   * Measure the offset between the local and server clocks so NIP-98 tokens
+   * are stamped with server time
+   */
+  async syncServerClock(): Promise<void> {
+    await this.getServiceStatus({ reload: true });
+  }
+
+  async getHealthStatus(options: RequestOptions = {}): Promise<ApiResponse<HealthStatus>> {
+    return this.cachedRequest('/status/health', CACHE_POLICIES.status, options, () =>
+      this.callOperation('GET /status/health', {})
+    );
   }
 
   // Subscriptions API
   async sendTestNotification(authToken: string, pubkey: string, notification: NotificationData): Promise<ApiResponse<{ message: string, success: boolean }>> {
-    return this.makeRequest<{ message: string, success: boolean }>(`/subscription/send/${pubkey}`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${authToken}`
-      },
-      body: notification
+    return this.callOperation('POST /subscription/send/{pubkey}', { params: { pubkey }, body: notification }, {
+      bearerToken: authToken
     });
   }
 
   async registerWebPushSubscription(authToken: string, pubkey: string, subscription: PushSubscription): Promise<ApiResponse<{ success: boolean, message: string }>> {
-    return this.makeRequest<{ success: boolean, message: string }>(`/subscription/webpush/${pubkey}`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${authToken}`
-      },
-      body: subscription
+    return this.callOperation('POST /subscription/webpush/{pubkey}', { params: { pubkey }, body: subscription }, {
+      bearerToken: authToken
     });
   }
 
@@ -355,7 +542,7 @@ export class ApiService {
    * @param endpoint API endpoint
    * @param options Request options with NIP-98 auth enabled
    */
-  async makeAuthenticatedRequest<T>(endpoint: string, options: Omit<ApiOptions, 'useNip98Auth'> = {}): Promise<ApiResponse<T>> {
+  async makeAuthenticatedRequest<T>(endpoint: string, options: Omit<ApiOptions<T>, 'useNip98Auth'> = {}): Promise<ApiResponse<T>> {
     return this.makeRequest<T>(endpoint, {
       ...options,
       useNip98Auth: true
@@ -363,10 +550,10 @@ export class ApiService {
   }
 
   /**
-   * Check if NIP-98 authentication is available
+   * Check if NIP-98 authentication is available (a signer is active or an extension is installed)
    */
   isNip98AuthAvailable(): boolean {
-    return this.nostrExtension.isExtensionAvailable();
+    return this.signerService.getAuthState().isAuthenticated || this.signerService.isExtensionAvailable();
   }
 
   /**
@@ -393,39 +580,23 @@ export class ApiService {
   /**
    * Example: Get user settings with NIP-98 authentication
    */
-  async getUserSettingsWithAuth(pubkey: string): Promise<ApiResponse<UserSettingsResponse>> {
-    return this.makeAuthenticatedRequest<UserSettingsResponse>(`/settings/${pubkey}`);
+  async getUserSettingsWithAuth(pubkey: string, options: RequestOptions = {}): Promise<ApiResponse<UserSettings>> {
+    return this.callOperation('GET /settings/{pubkey}', { params: { pubkey } }, { ...options, useNip98Auth: true });
   }
 
   /**
    * Example: Update user settings with NIP-98 authentication
    */
-  async updateUserSettingsWithAuth(pubkey: string, settings: UserSettingsUpdate): Promise<ApiResponse<UserSettingsResponse>> {
-    return this.makeAuthenticatedRequest<UserSettingsResponse>(`/settings/${pubkey}`, {
-      method: 'PUT',
-      body: settings
-    });
+  async updateUserSettingsWithAuth(pubkey: string, settings: UserSettingsUpdate): Promise<ApiResponse<UserSettings>> {
+    return this.callOperation('POST /settings/{pubkey}', { params: { pubkey }, body: settings }, { useNip98Auth: true });
   }
 
   /**
    * Example: Create account with NIP-98 authentication
    */
   async createAccountWithAuth(account: AddAccountRequest): Promise<ApiResponse<Account>> {
-    return this.makeAuthenticatedRequest<Account>('/accounts', {
-      method: 'POST',
-      body: account
-    });
-  }
-
-  /**
-   * Extend an account's subscription (admin action, no invoice created)
-   * @param pubkey The public key of the account to extend
-   * @param duration Either { months: 1 } or { weeks: 1 }
-   */
-  async extendSubscription(pubkey: string, duration: { months: 1 } | { weeks: 1 }): Promise<ApiResponse<{ success: boolean, message: string, newExpires: number }>> {
-    return this.makeAuthenticatedRequest<{ success: boolean, message: string, newExpires: number }>(`/account/${pubkey}/extend`, {
-      method: 'POST',
-      body: duration
-    });
+    const response = await this.callOperation('POST /account', { body: account }, { useNip98Auth: true, schema: accountSchema });
+    this.invalidateAccounts();
+    return response;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,73 @@
+import { Injectable, signal } from '@angular/core';
+import { AuditLogEntry } from '../../shared/models/api.models';
+import { UtilsService } from '../../shared/utils/utils.service';
+
+const AUDIT_LOG_STORAGE_KEY = 'nostria-admin-audit-log';
+const AUDIT_LOG_MAX_ENTRIES = 500;
+
+/**
+ * Keeps a local record of which admin identity made each change and signed request.
+ * Entries are written by `auditInterceptor`.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AuditLogService {
+  /** Newest first */
+  readonly entries = signal<AuditLogEntry[]>(this.read());
+
+  constructor(private utils: UtilsService) {}
+
+  /**
+   * Record a request
+   */
+  record(entry: Omit<AuditLogEntry, 'id' | 'timestamp'>): AuditLogEntry {
+    const logged: AuditLogEntry = {
+      ...entry,
+      id: this.utils.generateId(12),
+      timestamp: Date.now()
+    };
+
+    this.entries.update(entries => [logged, ...entries].slice(0, AUDIT_LOG_MAX_ENTRIES));
+    this.write();
+    return logged;
+  }
+
+  /**
+   * Entries made by one identity
+   */
+  forIdentity(pubkey: string): AuditLogEntry[] {
+    return this.entries().filter(entry => entry.pubkey === pubkey);
+  }
+
+  clear(): void {
+    this.entries.set([]);
+    localStorage.removeItem(AUDIT_LOG_STORAGE_KEY);
+  }
+
+  /**
+   * Download the log as JSON
+   */
+  export(): void {
+    const date = new Date().toISOString().split('T')[0];
+    this.utils.downloadAsFile(this.entries(), `nostria-audit-log-${date}.json`);
+  }
+
+  private read(): AuditLogEntry[] {
+    try {
+      const raw = localStorage.getItem(AUDIT_LOG_STORAGE_KEY);
+      return raw ? JSON.parse(raw) as AuditLogEntry[] : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private write(): void {
+    try {
+      localStorage.setItem(AUDIT_LOG_STORAGE_KEY, JSON.stringify(this.entries()));
+    } catch (error) {
+      // A full storage quota shouldn't break the request that was just made
+      console.error('Failed to save audit log:', error);
+    }
+  }
+}
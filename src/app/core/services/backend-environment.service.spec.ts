@@ -0,0 +1,107 @@
+import { HttpTestingController } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+import { RuntimeConfig } from '../../shared/models/api.models';
+import { nextRequest, provideApiTesting } from '../interceptors/api-testing';
+import { ApiService } from './api.service';
+import { BackendEnvironmentService } from './backend-environment.service';
+import { Nip98AuthService } from './nip98-auth.service';
+import { SignerService } from './signer.service';
+
+describe('BackendEnvironmentService', () => {
+  const config: RuntimeConfig = {
+    environments: [
+      { id: 'local', label: 'Local', apiBaseUrl: 'http://localhost:3000/api' },
+      { id: 'staging', label: 'Staging', apiBaseUrl: 'https://staging.api.test/' },
+      { id: 'production', label: 'Production', apiBaseUrl: 'https://api.test', production: true }
+    ]
+  };
+  let backend: BackendEnvironmentService;
+  let httpMock: HttpTestingController;
+
+  async function load(response: RuntimeConfig | null = config) {
+    const loading = backend.load();
+    const request = httpMock.expectOne('config.json');
+    if (response) {
+      request.flush(response);
+    } else {
+      request.flush('Not found', { status: 404, statusText: 'Not Found' });
+    }
+    await loading;
+  }
+
+  beforeEach(() => {
+    localStorage.removeItem('nostria-admin-backend');
+    TestBed.configureTestingModule({ providers: provideApiTesting() });
+    backend = TestBed.inject(BackendEnvironmentService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+    localStorage.removeItem('nostria-admin-backend');
+  });
+
+  it('should start on the preset matching the build-time API', async () => {
+    await load();
+
+    expect(backend.environments().length).toBe(3);
+    expect(backend.selected().id).toBe('local');
+    expect(backend.isProduction()).toBeFalse();
+  });
+
+  it('should remember the selected preset', async () => {
+    await load();
+    backend.select('production');
+
+    await load();
+
+    expect(backend.selected().id).toBe('production');
+    expect(backend.isProduction()).toBeTrue();
+    expect(backend.apiBaseUrl()).toBe('https://api.test/api');
+  });
+
+  it('should fall back to the build-time API without a config.json', async () => {
+    await load(null);
+
+    expect(backend.environments().length).toBe(1);
+    expect(backend.selected().id).toBe('default');
+  });
+
+  it('should refuse presets that are not configured', async () => {
+    await load();
+
+    expect(() => backend.select('https://evil.test')).toThrowError(/Unknown backend/);
+    expect(backend.selected().id).toBe('local');
+  });
+
+  it('should flag a deployment that lets no admin in', async () => {
+    spyOn(console, 'error');
+    backend.unlistedAdminRoles.set([]);
+
+    await load();
+    expect(backend.configError()).toContain('No admin is configured');
+    expect(console.error).toHaveBeenCalled();
+
+    await load({ ...config, admins: [{ pubkey: 'a'.repeat(64), roles: ['admin'] }] });
+    expect(backend.configError()).toBeNull();
+  });
+
+  it('should send requests, and sign their u tags, for the selected backend', async () => {
+    const apiService = TestBed.inject(ApiService);
+    const nip98Auth = TestBed.inject(Nip98AuthService);
+    const signerService = TestBed.inject(SignerService);
+    await signerService.loginWithEphemeralKey();
+    await load();
+    backend.select('staging');
+
+    const pending = apiService.makeAuthenticatedRequest('/account');
+    const request = await nextRequest(httpMock);
+    request.flush({});
+    await pending;
+
+    expect(request.request.url).toBe('https://staging.api.test/api/account');
+    const event = await nip98Auth.unpackEventFromToken(request.request.headers.get('Authorization')!);
+    expect(event.tags.find(tag => tag[0] === 'u')?.[1]).toBe('https://staging.api.test/api/account');
+    signerService.logout();
+  });
+});
@@ -0,0 +1,118 @@
+import { HttpBackend, HttpClient } from '@angular/common/http';
+import { Injectable, computed, signal } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { AdminEntry, AdminRole, BackendEnvironment, RuntimeConfig } from '../../shared/models/api.models';
+
+const BACKEND_STORAGE_KEY = 'nostria-admin-backend';
+const RUNTIME_CONFIG_URL = 'config.json';
+const ADMIN_ROLES: AdminRole[] = ['viewer', 'support', 'finance', 'admin'];
+
+/** Used when a deployment serves no config.json */
+const BUILD_TIME_BACKEND: BackendEnvironment = {
+  id: 'default',
+  label: environment.production ? 'Production' : 'Development',
+  apiBaseUrl: environment.apiBaseUrl || 'http://localhost:3000',
+  production: environment.production
+};
+
+// Ensure baseUrl ends with '/api' to be compatible with existing endpoint paths
+function toApiBaseUrl(url: string): string {
+  const trimmed = url.replace(/\/$/, '');
+  return trimmed.endsWith('/api') ? trimmed : `${trimmed}/api`;
+}
+
+// Drop malformed entries rather than failing the whole config
+function toAdminEntries(admins: unknown[]): AdminEntry[] {
+  return admins.flatMap(admin => {
+    const { pubkey, roles, label } = (admin ?? {}) as Partial<AdminEntry>;
+    if (typeof pubkey !== 'string' || !/^[0-9a-f]{64}$/i.test(pubkey) || !Array.isArray(roles)) {
+      console.warn('Ignoring malformed admin entry in config.json:', admin);
+      return [];
+    }
+    return [{ pubkey, roles: roles.filter(role => ADMIN_ROLES.includes(role)), label }];
+  });
+}
+
+/**
+ * Which API the portal talks to. The presets come from a `config.json` loaded
+ * at startup, so one build can be pointed at local, staging or production.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class BackendEnvironmentService {
+  readonly environments = signal<BackendEnvironment[]>([BUILD_TIME_BACKEND]);
+  readonly selected = signal<BackendEnvironment>(BUILD_TIME_BACKEND);
+  readonly isProduction = computed(() => !!this.selected().production);
+  /** Requests are answered by MockBackend, for development and demos without an API */
+  readonly isMock = computed(() => environment.useMockBackend || !!this.selected().mock);
+
+  /** Base URL for API requests; NIP-98 `u` tags are built from it too */
+  readonly apiBaseUrl = computed(() => toApiBaseUrl(this.selected().apiBaseUrl));
+
+  /** Admin allowlist: config.json's `admins` when it has one, otherwise the build's */
+  readonly admins = signal<AdminEntry[]>(environment.admins);
+  /** Roles for signed-in pubkeys that are not on the allowlist */
+  readonly unlistedAdminRoles = signal<AdminRole[]>(environment.unlistedAdminRoles);
+  /** Set when the deployment lets no one in, so it is caught before an admin is locked out */
+  readonly configError = signal<string | null>(null);
+
+  // Bypasses the API interceptors: config.json is not an API endpoint
+  private readonly http: HttpClient;
+
+  constructor(httpBackend: HttpBackend) {
+    this.http = new HttpClient(httpBackend);
+  }
+
+  /**
+   * Load the presets and admin allowlist from config.json and restore the admin's last choice
+   */
+  async load(): Promise<void> {
+    let config: RuntimeConfig | undefined;
+    try {
+      config = await firstValueFrom(this.http.get<RuntimeConfig>(RUNTIME_CONFIG_URL));
+      if (config?.environments?.length) {
+        this.environments.set(config.environments);
+      }
+      if (Array.isArray(config?.admins)) {
+        this.admins.set(toAdminEntries(config.admins));
+      }
+    } catch (error) {
+      console.warn('No runtime config.json, using the build-time API URL:', error);
+    }
+
+    const stored = localStorage.getItem(BACKEND_STORAGE_KEY);
+    // Without a choice or a default, stay on the API this build was made for
+    const buildTime = this.environments().find(backend =>
+      toApiBaseUrl(backend.apiBaseUrl) === toApiBaseUrl(BUILD_TIME_BACKEND.apiBaseUrl)
+    );
+    this.selected.set(this.find(stored) ?? this.find(config?.defaultEnvironment) ?? buildTime ?? this.environments()[0]);
+
+    if (this.admins().length === 0 && this.unlistedAdminRoles().length === 0) {
+      const message = 'No admin is configured: add your admin pubkeys to "admins" in config.json';
+      console.error(message);
+      this.configError.set(message);
+    } else {
+      this.configError.set(null);
+    }
+  }
+
+  /**
+   * Point the portal at another preset
+   * @param id The preset id from config.json
+   */
+  select(id: string): void {
+    const backend = this.find(id);
+    if (!backend) {
+      throw new Error(`Unknown backend environment: ${id}`);
+    }
+
+    this.selected.set(backend);
+    localStorage.setItem(BACKEND_STORAGE_KEY, id);
+  }
+
+  private find(id: string | null | undefined): BackendEnvironment | undefined {
+    return id ? this.environments().find(backend => backend.id === id) : undefined;
+  }
+}
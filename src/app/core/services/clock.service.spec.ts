@@ -0,0 +1,67 @@
+import { HttpHeaders } from '@angular/common/http';
+import { TestBed } from '@angular/core/testing';
+import { ClockService } from './clock.service';
+import { Nip98AuthService } from './nip98-auth.service';
+import { SignerService } from './signer.service';
+
+describe('ClockService', () => {
+  let clock: ClockService;
+
+  function headersWithDate(date: Date): HttpHeaders {
+    return new HttpHeaders({ Date: date.toUTCString() });
+  }
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    clock = TestBed.inject(ClockService);
+  });
+
+  it('should measure the offset against the middle of the round trip', () => {
+    const start = Date.now();
+    clock.recordServerTime(start + 5 * 60 * 1000 + 100, start, start + 200);
+
+    expect(clock.offset()).toBe(5 * 60 * 1000);
+    expect(clock.hasSkew()).toBeTrue();
+    expect(clock.now() - Date.now()).toBeGreaterThanOrEqual(5 * 60 * 1000 - 50);
+  });
+
+  it('should accept server timestamps in seconds', () => {
+    const start = Date.now();
+    clock.recordServerTime(Math.round(start / 1000) - 120, start, start);
+
+    expect(Math.round(clock.offset() / 1000)).toBe(-120);
+  });
+
+  it('should only let Date headers correct offsets beyond their one-second resolution', () => {
+    const start = Date.now();
+    clock.recordServerTime(start + 10_300, start, start);
+
+    clock.recordDateHeader(headersWithDate(new Date(start + 10_000)), start, start);
+    expect(clock.offset()).toBe(10_300);
+
+    clock.recordDateHeader(headersWithDate(new Date(start - 90_000)), start, start);
+    expect(Math.abs(clock.offset() + 90_000)).toBeLessThan(1500);
+  });
+
+  it('should ignore responses without a readable Date header', () => {
+    clock.recordDateHeader(new HttpHeaders(), Date.now(), Date.now());
+
+    expect(clock.measured()).toBeFalse();
+    expect(clock.offset()).toBe(0);
+  });
+
+  it('should stamp NIP-98 tokens with server time', async () => {
+    const nip98Auth = TestBed.inject(Nip98AuthService);
+    const signerService = TestBed.inject(SignerService);
+    await signerService.loginWithEphemeralKey();
+    const start = Date.now();
+    clock.recordServerTime(start + 10 * 60 * 1000, start, start);
+
+    const token = await nip98Auth.getToken('https://api.test/status', 'GET');
+    const event = await nip98Auth.unpackEventFromToken(token);
+
+    expect(Math.abs(event.created_at - Math.round(clock.now() / 1000))).toBeLessThanOrEqual(1);
+    expect(nip98Auth.validateEventTimestamp(event)).toBeTrue();
+    signerService.logout();
+  });
+});
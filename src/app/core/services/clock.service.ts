@@ -0,0 +1,60 @@
+import { HttpHeaders } from '@angular/common/http';
+import { Injectable, computed, signal } from '@angular/core';
+
+/** Warn the admin once their clock is this far off the server's */
+export const CLOCK_SKEW_WARNING_MS = 30 * 1000;
+
+// Date headers only have one-second resolution
+const DATE_HEADER_RESOLUTION_MS = 1000;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ClockService {
+  /** Server time minus local time, in milliseconds */
+  readonly offset = signal(0);
+  readonly measured = signal(false);
+  readonly hasSkew = computed(() => Math.abs(this.offset()) > CLOCK_SKEW_WARNING_MS);
+
+  /**
+   * Current time in milliseconds, corrected to the server's clock
+   */
+  now(): number {
+    return Date.now() + this.offset();
+  }
+
+  /**
+   * Record a precise server timestamp, e.g. `ServiceStatus.timestamp`
+   * @param serverTime Server time in milliseconds (seconds are detected and converted)
+   * @param requestStart Local time the request was sent
+   * @param requestEnd Local time the response arrived
+   */
+  recordServerTime(serverTime: number, requestStart: number, requestEnd: number): void {
+    if (!Number.isFinite(serverTime) || serverTime <= 0) return;
+
+    const serverMs = serverTime < 1e12 ? serverTime * 1000 : serverTime;
+    // Assume the server stamped the response halfway through the round trip
+    this.offset.set(Math.round(serverMs - (requestStart + requestEnd) / 2));
+    this.measured.set(true);
+  }
+
+  /**
+   * Record the server time from a response `Date` header, if the API exposes it.
+   * Only corrects the offset when it disagrees by more than the header's resolution.
+   * @param headers The response headers
+   * @param requestStart Local time the request was sent
+   * @param requestEnd Local time the response arrived
+   */
+  recordDateHeader(headers: Pick<HttpHeaders, 'get'>, requestStart: number, requestEnd: number): void {
+    const date = headers.get('Date');
+    const serverTime = date ? Date.parse(date) : NaN;
+    if (Number.isNaN(serverTime)) return;
+
+    // The header is truncated to the second, so aim for the middle of it
+    const offset = Math.round(serverTime + DATE_HEADER_RESOLUTION_MS / 2 - (requestStart + requestEnd) / 2);
+    if (!this.measured() || Math.abs(offset - this.offset()) > DATE_HEADER_RESOLUTION_MS) {
+      this.offset.set(offset);
+      this.measured.set(true);
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { Injectable } from '@angular/core';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+
+const VAULT_DB_NAME = 'nostria-admin-vault';
+const VAULT_STORE_NAME = 'keys';
+const VAULT_KEY_ID = 'session';
+const IV_LENGTH = 12;
+
+/**
+ * Encrypts secrets kept in localStorage with an AES-GCM key that never leaves the browser.
+ * The key is stored non-extractable in IndexedDB, so scripts and exports that read
+ * localStorage only see ciphertext.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class KeyVaultService {
+  private key: Promise<CryptoKey> | null = null;
+
+  /**
+   * Encrypt a secret for storage
+   * @returns The IV and ciphertext as hex, separated by a colon
+   */
+  async seal(secret: string): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await this.getKey(), new TextEncoder().encode(secret));
+    return `${bytesToHex(iv)}:${bytesToHex(new Uint8Array(ciphertext))}`;
+  }
+
+  /**
+   * Decrypt a secret sealed earlier in this browser
+   */
+  async open(sealed: string): Promise<string> {
+    const [iv, ciphertext] = sealed.split(':');
+    if (!iv || !ciphertext) {
+      throw new Error('Sealed secret is malformed');
+    }
+
+    // Copied so WebCrypto gets a plain ArrayBuffer view
+    const bytes = (hex: string) => new Uint8Array(hexToBytes(hex));
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes(iv) }, await this.getKey(), bytes(ciphertext));
+    return new TextDecoder().decode(plaintext);
+  }
+
+  private getKey(): Promise<CryptoKey> {
+    if (!this.key) {
+      this.key = this.loadOrCreateKey();
+      // Let the next call try again instead of caching the failure
+      this.key.catch(() => this.key = null);
+    }
+    return this.key;
+  }
+
+  private async loadOrCreateKey(): Promise<CryptoKey> {
+    const db = await openVault();
+    try {
+      const stored = await request<CryptoKey | undefined>(db.transaction(VAULT_STORE_NAME).objectStore(VAULT_STORE_NAME).get(VAULT_KEY_ID));
+      if (stored) {
+        return stored;
+      }
+
+      const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+      await request(db.transaction(VAULT_STORE_NAME, 'readwrite').objectStore(VAULT_STORE_NAME).put(key, VAULT_KEY_ID));
+      return key;
+    } finally {
+      db.close();
+    }
+  }
+}
+
+function openVault(): Promise<IDBDatabase> {
+  const opening = indexedDB.open(VAULT_DB_NAME, 1);
+  opening.onupgradeneeded = () => opening.result.createObjectStore(VAULT_STORE_NAME);
+  return request(opening);
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('IndexedDB request failed'));
+  });
+}
@@ -0,0 +1,125 @@
+import { TestBed } from '@angular/core/testing';
+import { base64 } from '@scure/base';
+import { LocalKeySigner } from '../signers/local-key-signer';
+import { NostrEvent, NostrEventTemplate } from '../../shared/models/api.models';
+import { Nip98AuthService } from './nip98-auth.service';
+import { SignerService } from './signer.service';
+
+describe('Nip98AuthService', () => {
+  let service: Nip98AuthService;
+  let signerService: SignerService;
+  let signer: LocalKeySigner;
+  let active: number;
+  let maxActive: number;
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(Nip98AuthService);
+    signerService = TestBed.inject(SignerService);
+
+    // Track how many signing prompts would be open at once
+    signer = LocalKeySigner.ephemeral();
+    const sign = signer.signEvent.bind(signer);
+    active = 0;
+    maxActive = 0;
+    spyOn(signer, 'signEvent').and.callFake(async (event: NostrEventTemplate): Promise<NostrEvent> => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+      return sign(event);
+    });
+
+    await signerService.login(signer);
+  });
+
+  afterEach(() => {
+    signerService.logout();
+  });
+
+  it('should sign concurrent requests one at a time', async () => {
+    const urls = ['a', 'b', 'c', 'd'].map(path => `https://api.test/${path}`);
+
+    const tokens = await Promise.all(urls.map(url => service.getToken(url, 'GET')));
+
+    expect(signer.signEvent).toHaveBeenCalledTimes(4);
+    expect(maxActive).toBe(1);
+    expect(new Set(tokens).size).toBe(4);
+  });
+
+  it('should share one token between identical requests', async () => {
+    const url = 'https://api.test/accounts';
+    const payload = { limit: 50 };
+
+    const [first, second] = await Promise.all([
+      service.getToken(url, 'POST', { payload }),
+      service.getToken(url, 'post', { payload: { limit: 50 } })
+    ]);
+    const later = await service.getToken(url, 'POST', { payload });
+
+    expect(signer.signEvent).toHaveBeenCalledTimes(1);
+    expect(second).toBe(first);
+    expect(later).toBe(first);
+  });
+
+  it('should sign again when the payload, method or identity differs', async () => {
+    const url = 'https://api.test/accounts';
+
+    await service.getToken(url, 'POST', { payload: { limit: 50 } });
+    await service.getToken(url, 'POST', { payload: { limit: 100 } });
+    await service.getToken(url, 'GET');
+    await service.getToken(url, 'GET', { reuseToken: false });
+    expect(signer.signEvent).toHaveBeenCalledTimes(4);
+
+    await signerService.loginWithEphemeralKey();
+    const token = await service.getToken(url, 'GET');
+    const event = await service.unpackEventFromToken(token);
+    expect(event.pubkey).toBe(signerService.getAuthState().pubkey!);
+  });
+
+  it('should expire cached tokens', async () => {
+    const url = 'https://api.test/status';
+    const now = Date.now();
+    const clock = spyOn(Date, 'now').and.returnValue(now);
+
+    await service.getToken(url, 'GET');
+    clock.and.returnValue(now + 60 * 1000);
+    await service.getToken(url, 'GET');
+
+    expect(signer.signEvent).toHaveBeenCalledTimes(2);
+  });
+
+  describe('validateToken', () => {
+    const url = 'https://api.test/account';
+
+    function repack(event: NostrEvent): string {
+      return base64.encode(new TextEncoder().encode(JSON.stringify(event)));
+    }
+
+    it('should accept a token signed by the expected pubkey', async () => {
+      const token = await service.getToken(url, 'GET');
+      const pubkey = signerService.getAuthState().pubkey!;
+
+      expect(await service.validateToken(token, url, 'GET', undefined, pubkey)).toBeTrue();
+      expect(await service.validateToken(token, url, 'GET', undefined, 'f'.repeat(64))).toBeFalse();
+    });
+
+    it('should reject events whose tags were changed after signing', async () => {
+      const event = await service.unpackEventFromToken(await service.getToken(url, 'GET'));
+      event.tags = [['u', 'https://api.test/other'], ['method', 'GET']];
+
+      expect(service.validateEventId(event)).toBeFalse();
+      expect(await service.validateToken(repack(event), 'https://api.test/other', 'GET')).toBeFalse();
+    });
+
+    it('should reject a forged signature with a matching id', async () => {
+      const event = await service.unpackEventFromToken(await service.getToken(url, 'GET'));
+      const other = await service.unpackEventFromToken(await service.getToken(`${url}/other`, 'GET'));
+      event.sig = other.sig;
+
+      expect(service.validateEventId(event)).toBeTrue();
+      expect(service.validateEventSignature(event)).toBeFalse();
+      expect(await service.validateToken(repack(event), url, 'GET')).toBeFalse();
+    });
+  });
+});
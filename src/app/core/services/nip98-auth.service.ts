@@ -2,11 +2,15 @@ import { Injectable } from '@angular/core';
 import { sha256 } from '@noble/hashes/sha2';
 import { bytesToHex } from '@noble/hashes/utils';
 import { base64 } from '@scure/base';
-import { NostrExtensionService } from './nostr-extension.service';
+import { getEventHash, verifyEvent } from 'nostr-tools/pure';
+import { SignerService } from './signer.service';
+import { ClockService } from './clock.service';
+import { environment } from '../../../environments/environment';
 import { 
   NostrEvent, 
   NostrEventTemplate, 
   Nip98AuthOptions, 
+  Nip98Payload,
   Nip98Token 
 } from '../../shared/models/api.models';
 
@@ -18,11 +22,30 @@ export class Nip98AuthService {
   private readonly authorizationScheme = 'Nostr ';
   private readonly textEncoder = new TextEncoder();
   private readonly textDecoder = new TextDecoder();
+  private readonly tokenCacheMaxAge = environment.nip98TokenCacheSeconds * 1000;
 
-  constructor(private nostrExtension: NostrExtensionService) {}
+  private tokenCache = new Map<string, Nip98Token>();
+  private pendingTokens = new Map<string, Promise<Nip98Token>>();
+  private signingQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private signerService: SignerService,
+    private clock: ClockService
+  ) {
+    // Tokens belong to the identity that signed them
+    let pubkey: string | undefined;
+    this.signerService.authState$.subscribe(state => {
+      if (state.pubkey !== pubkey) {
+        pubkey = state.pubkey;
+        this.clearTokenCache();
+      }
+    });
+  }
 
   /**
-   * Generate NIP-98 authentication token
+   * Generate NIP-98 authentication token. Signing requests are queued so the
+   * signer only ever sees one prompt at a time, and identical requests share
+   * a token while it is still fresh.
    * @param loginUrl The URL being accessed
    * @param httpMethod HTTP method (GET, POST, PUT, DELETE, etc.)
    * @param options Additional options for token generation
@@ -33,59 +56,145 @@ export class Nip98AuthService {
     httpMethod: string,
     options: Nip98AuthOptions = {}
   ): Promise<string> {
-    const { includeAuthorizationScheme = false, payload } = options;
+    const { includeAuthorizationScheme = false } = options;
+    const tokenObj = await this.getSignedToken(loginUrl, httpMethod, options);
 
-    if (!this.nostrExtension.isExtensionAvailable()) {
-      throw new Error('No Nostr extension available for signing');
-    }
-
-    if (!this.nostrExtension.getAuthState().isAuthenticated) {
-      throw new Error('Not connected to Nostr extension. Please connect first.');
-    }
+    const authorizationScheme = includeAuthorizationScheme ? this.authorizationScheme : '';
+    return authorizationScheme + tokenObj.token;
+  }
 
-    const event: NostrEventTemplate = {
-      kind: this.HTTPAuth,
-      tags: [
-        ['u', loginUrl],
-        ['method', httpMethod.toUpperCase()],
-      ],
-      created_at: Math.round(new Date().getTime() / 1000),
-      content: '',
-    };
+  /**
+   * Generate a NIP-98 token like getToken, but also return the signed event,
+   * e.g. to see which identity signed it. The token never includes the scheme.
+   * @param loginUrl The URL being accessed
+   * @param httpMethod HTTP method (GET, POST, PUT, DELETE, etc.)
+   * @param options Additional options for token generation
+   * @returns Promise that resolves to the token and its event
+   */
+  public async getSignedToken(
+    loginUrl: string,
+    httpMethod: string,
+    options: Nip98AuthOptions = {}
+  ): Promise<Nip98Token> {
+    const { payload, reuseToken = true } = options;
+    const authState = this.signerService.getAuthState();
 
-    if (payload) {
-      event.tags.push(['payload', this.hashPayload(payload)]);
+    if (!authState.isAuthenticated) {
+      throw new Error('Not connected to a Nostr signer. Please sign in first.');
     }
 
+    const method = httpMethod.toUpperCase();
+    const payloadHash = payload ? this.hashPayload(payload) : undefined;
+    const cacheKey = [authState.pubkey, method, loginUrl, payloadHash ?? ''].join(' ');
+    const canReuse = reuseToken && this.tokenCacheMaxAge > 0;
+
     try {
-      const signedEvent = await this.nostrExtension.signEvent(event);
-      const authorizationScheme = includeAuthorizationScheme ? this.authorizationScheme : '';
-      
-      return authorizationScheme + base64.encode(
-        this.textEncoder.encode(JSON.stringify(signedEvent))
-      );
+      if (canReuse) {
+        return await this.getCachedToken(cacheKey, () => this.signToken(authState.pubkey!, loginUrl, method, payloadHash));
+      }
+      return await this.signToken(authState.pubkey!, loginUrl, method, payloadHash);
     } catch (error) {
       throw new Error(`Failed to generate NIP-98 token: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Drop all cached tokens, e.g. after the signer changes
+   */
+  public clearTokenCache(): void {
+    this.tokenCache.clear();
+    this.pendingTokens.clear();
+  }
+
+  /**
+   * Return a fresh cached token for the key, or share the signing request
+   * already in flight for it, or start a new one
+   */
+  private getCachedToken(cacheKey: string, sign: () => Promise<Nip98Token>): Promise<Nip98Token> {
+    const cached = this.tokenCache.get(cacheKey);
+    if (cached && this.isTokenValid(cached, this.tokenCacheMaxAge)) {
+      return Promise.resolve(cached);
+    }
+    this.tokenCache.delete(cacheKey);
+
+    const pending = this.pendingTokens.get(cacheKey);
+    if (pending) {
+      return pending;
+    }
+
+    const request = sign()
+      .then(tokenObj => {
+        // Don't cache tokens signed for a session that ended meanwhile
+        if (this.pendingTokens.get(cacheKey) === request) {
+          this.tokenCache.set(cacheKey, tokenObj);
+        }
+        return tokenObj;
+      })
+      .finally(() => {
+        if (this.pendingTokens.get(cacheKey) === request) {
+          this.pendingTokens.delete(cacheKey);
+        }
+      });
+
+    this.pendingTokens.set(cacheKey, request);
+    return request;
+  }
+
+  /**
+   * Sign a NIP-98 event through the signing queue. The identity is fixed when
+   * the request is made, so switching identities can't affect queued requests.
+   */
+  private signToken(pubkey: string, loginUrl: string, method: string, payloadHash?: string): Promise<Nip98Token> {
+    return this.enqueueSigning(async () => {
+      const event: NostrEventTemplate = {
+        kind: this.HTTPAuth,
+        tags: [
+          ['u', loginUrl],
+          ['method', method],
+        ],
+        // Stamped with server time when the signer gets to it, not when the request was queued
+        created_at: Math.round(this.clock.now() / 1000),
+        content: '',
+      };
+
+      if (payloadHash) {
+        event.tags.push(['payload', payloadHash]);
+      }
+
+      const signedEvent = await this.signerService.signEvent(event, pubkey);
+      const token = base64.encode(this.textEncoder.encode(JSON.stringify(signedEvent)));
+      return this.createTokenObject(token, signedEvent);
+    });
+  }
+
+  /**
+   * Run a signing task after every earlier one has settled
+   */
+  private enqueueSigning<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.signingQueue.then(task);
+    this.signingQueue = result.catch(() => undefined);
+    return result;
+  }
+
   /**
    * Validate a NIP-98 token (client-side validation)
    * @param token The token to validate
    * @param url The URL that should match the token
    * @param method The HTTP method that should match the token
    * @param body Optional request body for payload validation
+   * @param expectedPubkey Optional hex pubkey the token must be signed by
    * @returns Promise that resolves to validation result
    */
   public async validateToken(
     token: string,
     url: string,
     method: string,
-    body?: any
+    body?: any,
+    expectedPubkey?: string
   ): Promise<boolean> {
     try {
       const event = await this.unpackEventFromToken(token);
-      return await this.validateEvent(event, url, method, body);
+      return await this.validateEvent(event, url, method, body, expectedPubkey);
     } catch (error) {
       console.error('Token validation failed:', error);
       return false;
@@ -124,6 +233,53 @@ export class Nip98AuthService {
     }
   }
 
+  /**
+   * Validate that the event id is the hash of its serialized content
+   * @param event The event to validate
+   * @returns True if the id matches
+   */
+  public validateEventId(event: NostrEvent): boolean {
+    const { id, pubkey } = event;
+    if (typeof id !== 'string' || typeof pubkey !== 'string') {
+      return false;
+    }
+
+    try {
+      return getEventHash({ ...event, pubkey }) === id;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Verify the BIP-340 Schnorr signature over the event id
+   * @param event The event to validate
+   * @returns True if the signature was made by the event pubkey
+   */
+  public validateEventSignature(event: NostrEvent): boolean {
+    const { id, pubkey, sig } = event;
+    if (typeof id !== 'string' || typeof pubkey !== 'string' || typeof sig !== 'string') {
+      return false;
+    }
+
+    try {
+      // verifyEvent marks the object it checked, so give it a copy
+      return verifyEvent({ ...event, id, pubkey, sig });
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Validate that the event was signed by the expected pubkey
+   * @param event The event to validate
+   * @param pubkey The expected hex pubkey
+   * @returns True if the pubkeys match
+   */
+  public validateEventPubkey(event: NostrEvent, pubkey: string): boolean {
+    return event.pubkey?.toLowerCase() === pubkey.toLowerCase();
+  }
+
   /**
    * Validate event timestamp (within last 60 seconds)
    * @param event The event to validate
@@ -134,7 +290,8 @@ export class Nip98AuthService {
       return false;
     }
     
-    const currentTime = Math.round(new Date().getTime() / 1000);
+    // Judge the token the way the server will, by its clock
+    const currentTime = Math.round(this.clock.now() / 1000);
     return currentTime - event.created_at < 60;
   }
 
@@ -185,7 +342,7 @@ export class Nip98AuthService {
    * @param payload The request payload to validate against
    * @returns True if payload tag is valid
    */
-  public validateEventPayloadTag(event: NostrEvent, payload: any): boolean {
+  public validateEventPayloadTag(event: NostrEvent, payload: Nip98Payload): boolean {
     const payloadTag = event.tags.find(t => t[0] === 'payload');
     
     if (!payloadTag || payloadTag.length < 2) {
@@ -201,30 +358,77 @@ export class Nip98AuthService {
    * @param payload The payload to hash
    * @returns The hex-encoded hash
    */
-  public hashPayload(payload: any): string {
-    const hash = sha256(this.textEncoder.encode(JSON.stringify(payload)));
+  public hashPayload(payload: Nip98Payload): string {
+    const hash = sha256(this.payloadBytes(payload));
     return bytesToHex(hash);
   }
 
+  /**
+   * Bytes to hash for a payload. Raw bytes and strings are hashed as they are,
+   * objects as compact JSON.
+   */
+  private payloadBytes(payload: Nip98Payload): Uint8Array {
+    if (payload instanceof Uint8Array) {
+      return payload;
+    }
+    if (payload instanceof ArrayBuffer) {
+      return new Uint8Array(payload);
+    }
+    if (typeof payload === 'string') {
+      return this.textEncoder.encode(payload);
+    }
+    return this.textEncoder.encode(JSON.stringify(payload));
+  }
+
+  /**
+   * Check if a request body is non-empty and so needs a payload tag
+   */
+  private hasPayload(body: unknown): body is Nip98Payload {
+    if (body instanceof Uint8Array) {
+      return body.length > 0;
+    }
+    if (body instanceof ArrayBuffer) {
+      return body.byteLength > 0;
+    }
+    if (typeof body === 'string') {
+      return body.length > 0;
+    }
+    return !!body && typeof body === 'object' && Object.keys(body).length > 0;
+  }
+
   /**
    * Validate a complete Nostr event for NIP-98
    * @param event The event to validate
    * @param url The expected URL
    * @param method The expected HTTP method
    * @param body Optional request body
+   * @param expectedPubkey Optional hex pubkey the event must be signed by
    * @returns Promise that resolves to validation result
    */
   private async validateEvent(
     event: NostrEvent,
     url: string,
     method: string,
-    body?: any
+    body?: any,
+    expectedPubkey?: string
   ): Promise<boolean> {
     // Basic event structure validation
     if (!this.validateEventKind(event)) {
       throw new Error('Invalid event kind for NIP-98');
     }
 
+    if (!this.validateEventId(event)) {
+      throw new Error('Event id does not match the event hash');
+    }
+
+    if (!this.validateEventSignature(event)) {
+      throw new Error('Event signature is invalid');
+    }
+
+    if (expectedPubkey && !this.validateEventPubkey(event, expectedPubkey)) {
+      throw new Error('Event was not signed by the expected pubkey');
+    }
+
     if (!this.validateEventTimestamp(event)) {
       throw new Error('Event timestamp is too old (must be within 60 seconds)');
     }
@@ -238,7 +442,7 @@ export class Nip98AuthService {
     }
 
     // Validate payload if provided
-    if (body && typeof body === 'object' && Object.keys(body).length > 0) {
+    if (this.hasPayload(body)) {
       if (!this.validateEventPayloadTag(event, body)) {
         throw new Error('Event payload tag does not match request body hash');
       }
@@ -281,10 +485,10 @@ export class Nip98AuthService {
   /**
    * Check if a cached token is still valid (not expired)
    * @param tokenObj The cached token object
+   * @param maxAge Maximum token age in milliseconds
    * @returns True if token is still valid
    */
-  public isTokenValid(tokenObj: Nip98Token): boolean {
-    const maxAge = 60 * 1000; // 60 seconds in milliseconds
+  public isTokenValid(tokenObj: Nip98Token, maxAge = 60 * 1000): boolean {
     return (Date.now() - tokenObj.createdAt) < maxAge;
   }
 }
\ No newline at end of file
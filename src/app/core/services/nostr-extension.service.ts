@@ -1,161 +1,92 @@
 import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable } from 'rxjs';
+import { Observable } from 'rxjs';
 import { NostrExtension, AuthenticationState } from '../../shared/models/api.models';
-
+import { ExtensionSigner } from '../signers/extension-signer';
+import { SignerService } from './signer.service';
+
+/**
+ * Browser extension helpers. Session state lives in SignerService; the
+ * connect/sign methods here delegate to it so existing callers keep working
+ * whichever signer the user picked.
+ */
 @Injectable({
   providedIn: 'root'
 })
 export class NostrExtensionService {
-  private authStateSubject = new BehaviorSubject<AuthenticationState>({
-    isAuthenticated: false
-  });
-
-  public authState$ = this.authStateSubject.asObservable();
-
-  private knownExtensions = [
-    { name: 'nostr', property: 'nostr' },
-    { name: 'nos2x', property: 'nos2x' },
-    { name: 'Alby', property: 'alby' },
-    { name: 'Flamingo', property: 'flamingo' },
-    { name: 'horse', property: 'horse' }
-  ];
-
-  constructor() {
-    this.detectExtensions();
-  }
+  public authState$: Observable<AuthenticationState>;
 
-  /**
-   * Detect available Nostr browser extensions
-   */
-  private detectExtensions(): void {
-    // Check if any Nostr extension is available
-    const availableExtension = this.knownExtensions.find(ext => 
-      window[ext.property] && typeof window[ext.property].getPublicKey === 'function'
-    );
-
-    if (availableExtension) {
-      this.updateAuthState({
-        isAuthenticated: false,
-        extensionName: availableExtension.name
-      });
-    }
+  constructor(private signerService: SignerService) {
+    this.authState$ = this.signerService.authState$;
   }
 
   /**
    * Get the available Nostr extension
    */
   public getExtension(): NostrExtension | null {
-    for (const ext of this.knownExtensions) {
-      const extension = window[ext.property];
-      if (extension && typeof extension.getPublicKey === 'function') {
-        return extension as NostrExtension;
-      }
-    }
-    return null;
+    return ExtensionSigner.detect()?.extension ?? null;
   }
 
   /**
    * Check if any Nostr extension is available
    */
   public isExtensionAvailable(): boolean {
-    return this.getExtension() !== null;
+    return this.signerService.isExtensionAvailable();
   }
 
   /**
    * Connect to the Nostr extension and get the public key
+   * @param remoteSignerUri Optional bunker:// or nostrconnect:// URI to use a NIP-46 remote signer instead
    */
-  public async connect(): Promise<string> {
-    const extension = this.getExtension();
-    
-    if (!extension) {
-      throw new Error('No Nostr extension found. Please install a Nostr browser extension like nos2x, Alby, or Flamingo.');
-    }
-
-    try {
-      const pubkey = await extension.getPublicKey();
-      
-      this.updateAuthState({
-        isAuthenticated: true,
-        pubkey,
-        extensionName: this.getCurrentExtensionName()
-      });
-
-      return pubkey;
-    } catch (error) {
-      throw new Error(`Failed to connect to Nostr extension: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-
-  /**
-   * Sign a Nostr event using the browser extension
-   */
-  public async signEvent(event: any): Promise<any> {
-    const extension = this.getExtension();
-    
-    if (!extension) {
-      throw new Error('No Nostr extension available');
-    }
-
-    if (!this.authStateSubject.value.isAuthenticated) {
-      throw new Error('Not connected to Nostr extension. Please connect first.');
+  public async connect(remoteSignerUri?: string): Promise<string> {
+    if (remoteSignerUri) {
+      return this.signerService.loginWithRemoteSigner(remoteSignerUri);
     }
 
-    try {
-      return await extension.signEvent(event);
-    } catch (error) {
-      throw new Error(`Failed to sign event: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    return this.signerService.loginWithExtension();
   }
 
   /**
-   * Disconnect from the Nostr extension
+   * Create a nostrconnect:// URI for the user to open in their remote signer app.
+   * Pass the returned URI to connect() to wait for the remote signer to accept it.
+   * @param relays Relays used to exchange NIP-46 messages
    */
-  public disconnect(): void {
-    this.updateAuthState({
-      isAuthenticated: false,
-      extensionName: this.getCurrentExtensionName()
-    });
+  public createNostrConnectUri(relays: string[]): string {
+    return this.signerService.createNostrConnectUri(relays);
   }
 
   /**
-   * Get the current authentication state
+   * Sign a Nostr event using the active signer
    */
-  public getAuthState(): AuthenticationState {
-    return this.authStateSubject.value;
+  public async signEvent(event: any): Promise<any> {
+    return this.signerService.signEvent(event);
   }
 
   /**
-   * Get the name of the currently detected extension
+   * Disconnect from the active signer
    */
-  private getCurrentExtensionName(): string | undefined {
-    const availableExtension = this.knownExtensions.find(ext => 
-      window[ext.property] && typeof window[ext.property].getPublicKey === 'function'
-    );
-    return availableExtension?.name;
+  public disconnect(): void {
+    this.signerService.logout();
   }
 
   /**
-   * Update the authentication state
+   * Get the current authentication state
    */
-  private updateAuthState(newState: Partial<AuthenticationState>): void {
-    const currentState = this.authStateSubject.value;
-    this.authStateSubject.next({
-      ...currentState,
-      ...newState
-    });
+  public getAuthState(): AuthenticationState {
+    return this.signerService.getAuthState();
   }
 
   /**
    * Get extension capabilities
    */
   public async getExtensionInfo(): Promise<{ name: string; nips?: number[] }> {
-    const extension = this.getExtension();
-    const extensionName = this.getCurrentExtensionName();
-    
-    if (!extension || !extensionName) {
+    const signer = ExtensionSigner.detect();
+
+    if (!signer) {
       throw new Error('No Nostr extension available');
     }
 
+    const extension = signer.extension;
+
     // Try to get relay information to determine NIP support
     let supportedNips: number[] = [1]; // All extensions support NIP-01
 
@@ -173,8 +104,8 @@ export class NostrExtensionService {
     }
 
     return {
-      name: extensionName,
+      name: signer.name,
       nips: supportedNips
     };
   }
-}
\ No newline at end of file
+}
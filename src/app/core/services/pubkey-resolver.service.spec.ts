@@ -0,0 +1,65 @@
+import { HttpTestingController } from '@angular/common/http/testing';
+import { FormControl } from '@angular/forms';
+import { TestBed } from '@angular/core/testing';
+import { pubkeyValidator } from '../../shared/utils/pubkey';
+import { nextRequest, provideApiTesting } from '../interceptors/api-testing';
+import { PubkeyResolver } from './pubkey-resolver.service';
+
+const HEX = '3bf0c63fcb93463407af97a5e5ee64fa883d107ef9e558472c4eb9aaaefa459d';
+const NPUB = 'npub180cvv07tjdrrgpa0j7j7tmnyl2yr6yr7l8j4s3evf6u64th6gkwsyjh6w6';
+const NPROFILE = 'nprofile1qythwumn8ghj7un9d3shjtnwdaehgunfvyhxzursqqsrhuxx8l9ex335q7he0f09aej04zpazpl0ne2cgukyawd24mayt8gkfxaeq';
+
+describe('PubkeyResolver', () => {
+  let resolver: PubkeyResolver;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: provideApiTesting() });
+    resolver = TestBed.inject(PubkeyResolver);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => httpMock.verify());
+
+  it('should normalize hex, npub and nprofile without a request', async () => {
+    for (const input of [HEX.toUpperCase(), NPUB, `nostr:${NPROFILE}`]) {
+      const response = await resolver.resolve(input);
+      expect(response.data).withContext(input).toBe(HEX);
+    }
+    expect((await resolver.resolve('npub1notavalidkey')).success).toBeFalse();
+  });
+
+  it('should look up NIP-05 addresses in the domain\'s nostr.json', async () => {
+    const pending = resolver.resolve('Alice@Nostria.app');
+    const request = await nextRequest(httpMock);
+    expect(request.request.urlWithParams).toBe('https://nostria.app/.well-known/nostr.json?name=alice');
+    request.flush({ names: { alice: HEX } });
+
+    expect((await pending).data).toBe(HEX);
+  });
+
+  it('should report names the domain does not list as not found', async () => {
+    const pending = resolver.resolveAll(`${NPUB}, bob@nostria.app`);
+    (await nextRequest(httpMock)).flush({ names: {} });
+
+    const response = await pending;
+    expect(response.success).toBeFalse();
+    expect(response.error?.kind).toBe('not-found');
+    expect(response.message).toContain('bob@nostria.app');
+  });
+
+  it('should leave the domain out of the API retries', async () => {
+    const pending = resolver.resolve('alice@nostria.app');
+    (await nextRequest(httpMock)).flush(null, { status: 503, statusText: 'Service Unavailable' });
+
+    expect((await pending).success).toBeFalse();
+    httpMock.expectNone(() => true);
+  });
+
+  it('should only let resolved hex keys through the validator', () => {
+    expect(pubkeyValidator(new FormControl(HEX))).toBeNull();
+    expect(pubkeyValidator(new FormControl(''))).toBeNull();
+    expect(pubkeyValidator(new FormControl(NPUB))).toEqual({ pubkey: true });
+    expect(pubkeyValidator(new FormControl('alice@nostria.app'))).toEqual({ pubkey: true });
+  });
+});
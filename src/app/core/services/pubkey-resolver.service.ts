@@ -0,0 +1,109 @@
+import { HttpBackend, HttpClient, HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { Injectable, Injector } from '@angular/core';
+import { Observable, firstValueFrom, of, throwError, timeout } from 'rxjs';
+import { ApiResponse } from '../../shared/models/api.models';
+import { ApiError } from '../../shared/models/api-error';
+import { nip05DocumentSchema } from '../../shared/models/api-schemas';
+import { ParsedPubkey, parsePubkeyInput } from '../../shared/utils/pubkey';
+import { abortWith } from '../../shared/utils/request-scope';
+import { SchemaError, validate } from '../../shared/utils/schema';
+import { MockBackend } from '../mock-backend/mock-backend';
+import { BackendEnvironmentService } from './backend-environment.service';
+
+const HEX_PUBKEY = /^[0-9a-f]{64}$/i;
+/** Other people's servers, so don't wait as long as for the API, and don't retry */
+const NIP05_TIMEOUT_MS = 10_000;
+
+/**
+ * Turns whatever an admin typed for a pubkey into the hex key the API expects.
+ * NIP-05 addresses are looked up in the domain's `/.well-known/nostr.json`.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PubkeyResolver {
+  // Bypasses the API interceptors: the domain is not the API, so it gets no
+  // credentials, retries or activity log entries
+  private readonly http: HttpClient;
+
+  constructor(
+    httpBackend: HttpBackend,
+    private backend: BackendEnvironmentService,
+    private injector: Injector
+  ) {
+    this.http = new HttpClient(httpBackend);
+  }
+
+  /**
+   * Resolve a hex key, `npub`, `nprofile` or NIP-05 address
+   * @returns The lowercase hex pubkey. Input that is none of these fails without
+   * a request; a NIP-05 name the domain doesn't list fails with kind `not-found`.
+   */
+  async resolve(input: string, options: { signal?: AbortSignal } = {}): Promise<ApiResponse<string>> {
+    const parsed = parsePubkeyInput(input);
+    if (!parsed) {
+      return this.failure(`"${input.trim()}" is not a hex public key, npub, nprofile or NIP-05 address`);
+    }
+    return parsed.type === 'nip05'
+      ? this.lookup(parsed, options.signal)
+      : { data: parsed.pubkey, success: true };
+  }
+
+  /**
+   * Resolve a comma- or whitespace-separated list, failing on the first entry that doesn't resolve
+   */
+  async resolveAll(input: string, options: { signal?: AbortSignal } = {}): Promise<ApiResponse<string[]>> {
+    const entries = input.split(/[\s,]+/).filter(entry => entry);
+    const results = await Promise.all(entries.map(entry => this.resolve(entry, options)));
+    const failed = results.find(result => !result.success);
+    if (failed) {
+      return { ...failed, data: [] };
+    }
+    return { data: results.map(result => result.data), success: true };
+  }
+
+  private async lookup(address: Extract<ParsedPubkey, { type: 'nip05' }>, signal?: AbortSignal): Promise<ApiResponse<string>> {
+    const { name, domain } = address;
+    const url = `https://${domain}/.well-known/nostr.json`;
+
+    try {
+      const request = this.fetch(url, name);
+      const document = validate(nip05DocumentSchema, await firstValueFrom(signal ? request.pipe(abortWith(signal)) : request));
+      const pubkey = document.names[name];
+      if (!pubkey || !HEX_PUBKEY.test(pubkey)) {
+        return this.failure(new ApiError('not-found', `${name}@${domain} is not a registered NIP-05 address`, 'GET', url));
+      }
+      return { data: pubkey.toLowerCase(), success: true };
+    } catch (error) {
+      return this.failure(signal?.aborted
+        ? ApiError.cancelled('GET', url)
+        : error instanceof ApiError ? error
+        : error instanceof SchemaError ? ApiError.schemaMismatch(error, 'GET', url)
+        : ApiError.fromHttpError(error, 'GET', url));
+    }
+  }
+
+  private fetch(url: string, name: string): Observable<unknown> {
+    if (!this.backend.isMock()) {
+      return this.http.get<unknown>(url, { params: { name } }).pipe(
+        timeout({ each: NIP05_TIMEOUT_MS, with: () => throwError(() => ApiError.timeout(NIP05_TIMEOUT_MS, 'GET', url)) })
+      );
+    }
+
+    // The mock backend stands in for every domain, as it does for the API
+    const { status, body } = this.injector.get(MockBackend).handle({
+      method: 'GET',
+      endpoint: '/.well-known/nostr.json',
+      params: new URLSearchParams({ name }),
+      headers: new HttpHeaders(),
+      body: null
+    });
+    return status < 400 ? of(body) : throwError(() => new HttpErrorResponse({ status, url, error: body }));
+  }
+
+  private failure<T>(error: ApiError | string): ApiResponse<T> {
+    return typeof error === 'string'
+      ? { data: null as T, success: false, message: error }
+      : { data: null as T, success: false, message: error.message, error };
+  }
+}
@@ -0,0 +1,72 @@
+import { ApiResponse } from '../../shared/models/api.models';
+import { CachePolicy, ResponseCache } from './response-cache.service';
+
+describe('ResponseCache', () => {
+  const policy: CachePolicy = { ttlMs: 1000, staleMs: 10 * 1000 };
+  let cache: ResponseCache;
+  let now: number;
+  let calls: number;
+
+  function fetch(data: string): () => Promise<ApiResponse<string>> {
+    return async () => {
+      calls++;
+      return { data, success: true };
+    };
+  }
+
+  beforeEach(() => {
+    cache = new ResponseCache();
+    now = 1_000_000;
+    calls = 0;
+    spyOn(Date, 'now').and.callFake(() => now);
+  });
+
+  it('should share one request between concurrent calls', async () => {
+    const [first, second] = await Promise.all([
+      cache.get('tiers', policy, fetch('a')),
+      cache.get('tiers', policy, fetch('b'))
+    ]);
+
+    expect(calls).toBe(1);
+    expect(first.data).toBe('a');
+    expect(second.data).toBe('a');
+  });
+
+  it('should serve stale data while refreshing it in the background', async () => {
+    await cache.get('tiers', policy, fetch('old'));
+    now += 5 * 1000;
+
+    const stale = await cache.get('tiers', policy, fetch('new'));
+    expect(stale.data).toBe('old');
+    expect(calls).toBe(2);
+
+    await Promise.resolve();
+    expect(cache.read<string>('tiers')).toBe('new');
+  });
+
+  it('should wait for a new response once data is too old', async () => {
+    await cache.get('tiers', policy, fetch('old'));
+    now += 60 * 1000;
+
+    expect((await cache.get('tiers', policy, fetch('new'))).data).toBe('new');
+  });
+
+  it('should not cache failures', async () => {
+    await cache.get('tiers', policy, async () => ({ data: '', success: false }));
+
+    expect(cache.read('tiers')).toBeUndefined();
+  });
+
+  it('should refetch invalidated entries and drop responses that started before', async () => {
+    await cache.get('account/alice', policy, fetch('v1'));
+    let resolveOutdated!: (response: ApiResponse<string>) => void;
+    const outdated = cache.get('account/alice', policy, () => new Promise<ApiResponse<string>>(resolve => resolveOutdated = resolve), true);
+
+    cache.invalidate(key => key.startsWith('account/'));
+    resolveOutdated({ data: 'outdated', success: true });
+    await outdated;
+    expect(cache.read<string>('account/alice')).toBe('v1');
+
+    expect((await cache.get('account/alice', policy, fetch('v2'))).data).toBe('v2');
+  });
+});
@@ -0,0 +1,104 @@
+import { Injectable, WritableSignal, signal } from '@angular/core';
+import { ApiResponse } from '../../shared/models/api.models';
+
+export interface CachePolicy {
+  /** Served straight from the cache for this long */
+  ttlMs: number;
+  /** After that, still served for this long while a background request refreshes it */
+  staleMs: number;
+}
+
+interface CacheEntry {
+  data: unknown;
+  fetchedAt: number;
+}
+
+/**
+ * Keeps successful responses for read-only reference data, with stale-while-revalidate.
+ * Entries are signals, so anything reading them updates when a refresh lands.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ResponseCache {
+  private readonly entries = new Map<string, WritableSignal<CacheEntry | undefined>>();
+  private readonly inFlight = new Map<string, Promise<ApiResponse<unknown>>>();
+  // Bumped on invalidation, so a request that started before it can't store outdated data
+  private readonly generations = new Map<string, number>();
+
+  /**
+   * The cached data for a key, if any. Reading it inside a computed or effect tracks it.
+   */
+  read<T>(key: string): T | undefined {
+    return this.entry(key)()?.data as T | undefined;
+  }
+
+  /**
+   * Serve a request from the cache when the entry is fresh, serve it and refresh in the
+   * background when it is stale, and otherwise wait for `fetch`. Concurrent calls share one request.
+   * @param reload Skip the cache and wait for a new response
+   */
+  async get<T>(key: string, policy: CachePolicy, fetch: () => Promise<ApiResponse<T>>, reload = false): Promise<ApiResponse<T>> {
+    const cached = this.entry(key)();
+    const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+
+    if (!reload && cached && age < policy.ttlMs) {
+      return { data: cached.data as T, success: true };
+    }
+
+    const request = this.fetch(key, fetch);
+    if (!reload && cached && age < policy.ttlMs + policy.staleMs) {
+      return { data: cached.data as T, success: true };
+    }
+    return request;
+  }
+
+  /**
+   * Make matching entries expire, e.g. after a mutation changed them. Their data stays
+   * readable until the next request replaces it.
+   */
+  invalidate(matches: (key: string) => boolean): void {
+    for (const [key, entry] of this.entries) {
+      if (!matches(key)) continue;
+
+      this.generations.set(key, (this.generations.get(key) ?? 0) + 1);
+      this.inFlight.delete(key);
+      entry.update(cached => cached && { ...cached, fetchedAt: -Infinity });
+    }
+  }
+
+  clear(): void {
+    this.invalidate(() => true);
+    this.entries.forEach(entry => entry.set(undefined));
+  }
+
+  private entry(key: string): WritableSignal<CacheEntry | undefined> {
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = signal<CacheEntry | undefined>(undefined);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  private fetch<T>(key: string, fetch: () => Promise<ApiResponse<T>>): Promise<ApiResponse<T>> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<ApiResponse<T>>;
+
+    const generation = this.generations.get(key) ?? 0;
+    const request = fetch().then(response => {
+      // Failures are not cached; a stale entry keeps being served instead
+      if (response.success && generation === (this.generations.get(key) ?? 0)) {
+        this.entry(key).set({ data: response.data, fetchedAt: Date.now() });
+      }
+      return response;
+    }).finally(() => {
+      if (this.inFlight.get(key) === request) {
+        this.inFlight.delete(key);
+      }
+    });
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+}
@@ -0,0 +1,127 @@
+import { TestBed } from '@angular/core/testing';
+import { generateSecretKey, getPublicKey } from 'nostr-tools/pure';
+import { encrypt as encryptNcryptsec } from 'nostr-tools/nip49';
+import { MockBunker } from '../signers/mock-bunker';
+import { Nip46RemoteSigner } from '../signers/nip46-remote-signer';
+import { InMemoryNip46Transport, NIP46_TRANSPORT_FACTORY } from '../signers/nip46-transport';
+import { SessionService } from './session.service';
+import { SignerService } from './signer.service';
+
+describe('SessionService', () => {
+  let transport: InMemoryNip46Transport;
+  let bunker: MockBunker;
+
+  // A fresh injector stands in for a page reload
+  function boot(): { session: SessionService; signer: SignerService } {
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({
+      providers: [{ provide: NIP46_TRANSPORT_FACTORY, useValue: () => transport }]
+    });
+    return { session: TestBed.inject(SessionService), signer: TestBed.inject(SignerService) };
+  }
+
+  beforeEach(() => {
+    localStorage.removeItem('nostria-admin-session');
+    transport = new InMemoryNip46Transport();
+    bunker = new MockBunker(transport, generateSecretKey(), generateSecretKey(), 'letmein');
+    bunker.start();
+  });
+
+  afterEach(() => {
+    bunker.stop();
+    localStorage.removeItem('nostria-admin-session');
+  });
+
+  it('should resume a remote signer session after a reload without a new handshake', async () => {
+    const first = boot();
+    await first.signer.loginWithRemoteSigner(bunker.getBunkerUri());
+    await first.session.whenSaved();
+
+    // The client key is stored, but only sealed
+    const clientKey = (first.signer.getSigner(bunker.userPubkey) as Nip46RemoteSigner).getSessionData()!.clientSecretKey;
+    expect(localStorage.getItem('nostria-admin-session')).not.toContain(clientKey);
+    bunker.receivedMethods.length = 0;
+
+    const second = boot();
+    await second.session.restore();
+
+    expect(second.session.isAuthenticated()).toBeTrue();
+    expect(second.session.pubkey()).toBe(bunker.userPubkey);
+    expect(bunker.receivedMethods).toEqual(['get_public_key']);
+  });
+
+  it('should not persist ephemeral keys', async () => {
+    const first = boot();
+    await first.signer.loginWithEphemeralKey();
+    expect(localStorage.getItem('nostria-admin-session')).toBeNull();
+
+    const second = boot();
+    await second.session.restore();
+    expect(second.session.isAuthenticated()).toBeFalse();
+  });
+
+  it('should forget the session on logout', async () => {
+    const { session, signer } = boot();
+    await signer.loginWithRemoteSigner(bunker.getBunkerUri());
+    await session.whenSaved();
+    expect(localStorage.getItem('nostria-admin-session')).not.toBeNull();
+
+    session.logout();
+
+    expect(localStorage.getItem('nostria-admin-session')).toBeNull();
+    expect(session.isAuthenticated()).toBeFalse();
+  });
+
+  it('should restore every stored identity and the active one', async () => {
+    const first = boot();
+    const remote = await first.signer.loginWithRemoteSigner(bunker.getBunkerUri());
+    const ncryptsec = encryptNcryptsec(generateSecretKey(), 'hunter2', 4);
+    const local = await first.signer.loginWithNcryptsec(ncryptsec, 'hunter2');
+    first.signer.switchIdentity(remote);
+    await first.session.whenSaved();
+
+    const second = boot();
+    await second.session.restore();
+
+    // The remote signer reconnects; the encrypted key waits for its password
+    expect(second.session.pubkey()).toBe(remote);
+    expect(second.session.status()).toBe('locked');
+    expect(second.session.getLockedNcryptsec()).toBe(ncryptsec);
+
+    await second.signer.loginWithNcryptsec(ncryptsec, 'hunter2');
+    expect(second.session.status()).toBe('ready');
+    expect(second.session.identities().map(identity => identity.pubkey)).toEqual([remote, local]);
+  });
+
+  it('should drop a restored identity that signs with a different key', async () => {
+    const first = boot();
+    await first.signer.loginWithRemoteSigner(bunker.getBunkerUri());
+    await first.session.whenSaved();
+    const stored = JSON.parse(localStorage.getItem('nostria-admin-session')!);
+    stored.identities[0].pubkey = getPublicKey(generateSecretKey());
+    localStorage.setItem('nostria-admin-session', JSON.stringify(stored));
+
+    const second = boot();
+    await second.session.restore();
+
+    expect(second.session.isAuthenticated()).toBeFalse();
+    expect(second.session.restoreError()).toContain('different key');
+    expect(localStorage.getItem('nostria-admin-session')).toBeNull();
+  });
+
+  it('should restore sessions stored in the single-identity format', async () => {
+    const secretKey = generateSecretKey();
+    const ncryptsec = encryptNcryptsec(secretKey, 'hunter2', 4);
+    localStorage.setItem('nostria-admin-session', JSON.stringify({
+      signerType: 'ncryptsec',
+      pubkey: getPublicKey(secretKey),
+      ncryptsec
+    }));
+
+    const { session } = boot();
+    await session.restore();
+
+    expect(session.status()).toBe('locked');
+    expect(session.getLockedNcryptsec()).toBe(ncryptsec);
+  });
+});
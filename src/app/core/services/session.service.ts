@@ -0,0 +1,322 @@
+import { Injectable, Signal, computed, signal } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { AuthenticationState, Signer, SignerType } from '../../shared/models/api.models';
+import { ExtensionSigner } from '../signers/extension-signer';
+import { LocalKeySigner } from '../signers/local-key-signer';
+import { Nip46RemoteSigner, Nip46SessionData } from '../signers/nip46-remote-signer';
+import { KeyVaultService } from './key-vault.service';
+import { SignerService } from './signer.service';
+
+const SESSION_STORAGE_KEY = 'nostria-admin-session';
+
+// Extensions inject window.nostr asynchronously, sometimes after the app has booted
+const EXTENSION_WAIT_MS = 2000;
+const EXTENSION_POLL_MS = 100;
+
+/**
+ * A NIP-46 session as persisted, with the client key sealed by KeyVaultService
+ */
+export type StoredNip46Session = Omit<Nip46SessionData, 'clientSecretKey'> & { sealedClientKey: string };
+
+/**
+ * One identity persisted in localStorage. Never contains a plaintext private key.
+ */
+export interface StoredIdentity {
+  signerType: SignerType;
+  pubkey: string;
+  signerName?: string;
+  nip46?: StoredNip46Session;
+  ncryptsec?: string;
+}
+
+// An identity about to be stored, before its NIP-46 client key is sealed
+type UnsealedIdentity = Omit<StoredIdentity, 'nip46'> & { nip46?: Nip46SessionData };
+
+export interface StoredSession {
+  activePubkey: string;
+  identities: StoredIdentity[];
+}
+
+export type SessionStatus = 'restoring' | 'locked' | 'ready';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SessionService {
+  /** App-wide authentication state; every page reads this instead of tracking its own */
+  readonly authState: Signal<AuthenticationState>;
+  readonly isAuthenticated = computed(() => this.authState().isAuthenticated);
+  readonly pubkey = computed(() => this.authState().pubkey ?? null);
+  readonly identities = computed(() => this.authState().identities ?? []);
+
+  /** 'locked' means an ncryptsec session is stored and needs its password again */
+  readonly status = signal<SessionStatus>('ready');
+  readonly restoreError = signal<string | null>(null);
+
+  private restorePromise: Promise<void> | null = null;
+  private wasAuthenticated = false;
+
+  // Writes run in order; clearing bumps the generation so pending writes are dropped
+  private saving: Promise<void> = Promise.resolve();
+  private generation = 0;
+
+  // Stored ncryptsec identities that still need their password
+  private lockedIdentities: StoredIdentity[] = [];
+
+  constructor(
+    private signerService: SignerService,
+    private vault: KeyVaultService
+  ) {
+    this.authState = toSignal(this.signerService.authState$, { requireSync: true });
+
+    this.signerService.authState$.subscribe(state => {
+      if (state.isAuthenticated) {
+        this.persist(state);
+      } else if (this.wasAuthenticated && this.status() !== 'restoring') {
+        // Only an explicit sign-out clears the stored session, not a fresh page load
+        // or an identity dropped while restoring
+        this.clear();
+      }
+      this.wasAuthenticated = state.isAuthenticated;
+    });
+  }
+
+  /**
+   * Re-establish the stored session, if any. Safe to call more than once.
+   */
+  restore(): Promise<void> {
+    if (!this.restorePromise) {
+      this.restorePromise = this.restoreStoredSession();
+    }
+    return this.restorePromise;
+  }
+
+  /**
+   * Resolves once the startup restore attempt has finished
+   */
+  whenRestored(): Promise<void> {
+    return this.restorePromise ?? Promise.resolve();
+  }
+
+  /**
+   * Resolves once the session has been written to storage
+   */
+  whenSaved(): Promise<void> {
+    return this.saving;
+  }
+
+  /**
+   * The stored ncryptsec key waiting to be unlocked, if any
+   */
+  getLockedNcryptsec(): string | null {
+    return this.status() === 'locked' ? this.lockedIdentities[0]?.ncryptsec ?? null : null;
+  }
+
+  /**
+   * Make another connected identity the active one
+   */
+  switchIdentity(pubkey: string): void {
+    this.signerService.switchIdentity(pubkey);
+  }
+
+  /**
+   * Sign out of one identity and forget it
+   */
+  removeIdentity(pubkey: string): void {
+    this.signerService.removeIdentity(pubkey);
+  }
+
+  /**
+   * Sign out of every identity and forget the stored session
+   */
+  logout(): void {
+    this.lockedIdentities = [];
+    this.signerService.logout();
+    this.clear();
+  }
+
+  private async restoreStoredSession(): Promise<void> {
+    const stored = this.read();
+    if (!stored) {
+      return;
+    }
+
+    this.status.set('restoring');
+    this.restoreError.set(null);
+
+    const failures: string[] = [];
+    for (const identity of stored.identities) {
+      try {
+        await this.restoreIdentity(identity);
+      } catch (error) {
+        failures.push(`${identity.signerName ?? identity.signerType}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    if (this.signerService.getIdentities().some(identity => identity.pubkey === stored.activePubkey)) {
+      this.signerService.switchIdentity(stored.activePubkey);
+    }
+
+    if (failures.length > 0) {
+      this.restoreError.set(`Could not restore your session: ${failures.join('; ')}`);
+    }
+
+    if (this.signerService.getAuthState().isAuthenticated) {
+      // Rewrite storage without the identities that failed
+      this.persist(this.signerService.getAuthState());
+    } else if (this.lockedIdentities.length === 0) {
+      this.clear();
+    }
+
+    this.status.set(this.lockedIdentities.length > 0 ? 'locked' : 'ready');
+  }
+
+  private async restoreIdentity(identity: StoredIdentity): Promise<void> {
+    let pubkey: string | null = null;
+
+    switch (identity.signerType) {
+      case 'extension': {
+        const signer = await this.waitForExtension();
+        if (!signer) {
+          throw new Error('Nostr extension is no longer available');
+        }
+        pubkey = await this.signerService.login(signer);
+        break;
+      }
+      case 'nip46': {
+        if (!identity.nip46?.sealedClientKey) {
+          throw new Error('Stored remote signer session is incomplete; connect again');
+        }
+        const { sealedClientKey, ...session } = identity.nip46;
+        let clientSecretKey: string;
+        try {
+          clientSecretKey = await this.vault.open(sealedClientKey);
+        } catch {
+          throw new Error('The stored remote signer key could not be decrypted; connect again');
+        }
+        pubkey = await this.signerService.resumeRemoteSigner({ ...session, clientSecretKey });
+        break;
+      }
+      case 'ncryptsec':
+        if (identity.ncryptsec) {
+          // Can't decrypt without the password; the login screen asks for it
+          this.lockedIdentities.push(identity);
+        }
+        return;
+    }
+
+    if (pubkey && pubkey !== identity.pubkey) {
+      // Never act as an identity other than the one the admin signed in with
+      this.signerService.removeIdentity(pubkey);
+      throw new Error(`The signer now uses a different key (${pubkey.slice(0, 8)}…); sign in again`);
+    }
+  }
+
+  private async waitForExtension(): Promise<ExtensionSigner | null> {
+    const deadline = Date.now() + EXTENSION_WAIT_MS;
+    let signer = ExtensionSigner.detect();
+
+    while (!signer && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, EXTENSION_POLL_MS));
+      signer = ExtensionSigner.detect();
+    }
+
+    return signer;
+  }
+
+  private persist(state: AuthenticationState): void {
+    if (!state.pubkey) {
+      return;
+    }
+
+    const identities: UnsealedIdentity[] = [];
+    for (const { pubkey } of state.identities ?? []) {
+      const identity = this.toStoredIdentity(pubkey, this.signerService.getSigner(pubkey));
+      if (identity) {
+        identities.push(identity);
+      }
+    }
+
+    // Unlocking a key connects it, so it is no longer waiting for its password
+    this.lockedIdentities = this.lockedIdentities.filter(locked => !identities.some(identity => identity.pubkey === locked.pubkey));
+    const locked = this.lockedIdentities;
+
+    if (this.status() !== 'restoring') {
+      this.status.set(locked.length > 0 ? 'locked' : 'ready');
+    }
+
+    if (identities.length + locked.length === 0) {
+      this.clear();
+      return;
+    }
+
+    const activePubkey = state.pubkey;
+    const generation = this.generation;
+    this.saving = this.saving.then(async () => {
+      const sealed = await Promise.all(identities.map(identity => this.seal(identity)));
+      const session: StoredSession = { activePubkey, identities: [...sealed, ...locked] };
+      if (generation === this.generation) {
+        localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+      }
+    }).catch(error => {
+      this.restoreError.set(`Could not save your session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+  }
+
+  private async seal(identity: UnsealedIdentity): Promise<StoredIdentity> {
+    if (!identity.nip46) {
+      return identity as StoredIdentity;
+    }
+
+    const { clientSecretKey, ...session } = identity.nip46;
+    return { ...identity, nip46: { ...session, sealedClientKey: await this.vault.seal(clientSecretKey) } };
+  }
+
+  private toStoredIdentity(pubkey: string, signer: Signer | null): UnsealedIdentity | null {
+    if (!signer) {
+      return null;
+    }
+
+    const identity: UnsealedIdentity = {
+      signerType: signer.type,
+      pubkey,
+      signerName: signer.name
+    };
+
+    if (signer instanceof Nip46RemoteSigner) {
+      identity.nip46 = signer.getSessionData() ?? undefined;
+    } else if (signer instanceof LocalKeySigner) {
+      if (!signer.ncryptsec) {
+        // Plain and ephemeral keys are never written to storage
+        return null;
+      }
+      identity.ncryptsec = signer.ncryptsec;
+    }
+
+    return identity;
+  }
+
+  private read(): StoredSession | null {
+    try {
+      const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+      if (!raw) {
+        return null;
+      }
+
+      const session = JSON.parse(raw) as StoredSession | StoredIdentity;
+      // Sessions stored before multiple identities were supported hold a single identity
+      return 'identities' in session ? session : { activePubkey: session.pubkey, identities: [session] };
+    } catch {
+      return null;
+    }
+  }
+
+  private clear(): void {
+    this.generation++;
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+    this.lockedIdentities = [];
+    if (this.status() === 'locked') {
+      this.status.set('ready');
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { HttpTestingController } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+import { generateSecretKey, getPublicKey } from 'nostr-tools/pure';
+import { encrypt as encryptNcryptsec } from 'nostr-tools/nip49';
+import { nextRequest, provideApiTesting } from '../interceptors/api-testing';
+import { ApiService } from './api.service';
+import { AuditLogService } from './audit-log.service';
+import { Nip98AuthService } from './nip98-auth.service';
+import { SignerService } from './signer.service';
+
+describe('SignerService', () => {
+  let signerService: SignerService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: provideApiTesting() });
+    signerService = TestBed.inject(SignerService);
+  });
+
+  afterEach(() => {
+    signerService.logout();
+  });
+
+  it('should sign in with an ncryptsec key', async () => {
+    const secretKey = generateSecretKey();
+    // Low scrypt cost keeps the test fast
+    const ncryptsec = encryptNcryptsec(secretKey, 'hunter2', 4);
+
+    const pubkey = await signerService.loginWithNcryptsec(ncryptsec, 'hunter2');
+
+    expect(pubkey).toBe(getPublicKey(secretKey));
+    expect(signerService.getAuthState()).toEqual(jasmine.objectContaining({
+      isAuthenticated: true,
+      pubkey,
+      signerType: 'ncryptsec'
+    }));
+  });
+
+  it('should reject an ncryptsec key with the wrong password', async () => {
+    const ncryptsec = encryptNcryptsec(generateSecretKey(), 'hunter2', 4);
+
+    await expectAsync(signerService.loginWithNcryptsec(ncryptsec, 'wrong')).toBeRejected();
+    expect(signerService.getAuthState().isAuthenticated).toBeFalse();
+  });
+
+  it('should sign events with an ephemeral key and forget it on logout', async () => {
+    const pubkey = await signerService.loginWithEphemeralKey();
+    const event = await signerService.signEvent({ kind: 1, tags: [], content: 'hi', created_at: 1 });
+
+    expect(event.pubkey).toBe(pubkey);
+    expect(TestBed.inject(Nip98AuthService).validateEventSignature(event)).toBeTrue();
+
+    signerService.logout();
+    await expectAsync(signerService.signEvent({ kind: 1, tags: [], content: '', created_at: 1 })).toBeRejected();
+  });
+
+  it('should let ApiService make NIP-98 authenticated requests without an extension', async () => {
+    const apiService = TestBed.inject(ApiService);
+    const nip98Auth = TestBed.inject(Nip98AuthService);
+    const httpMock = TestBed.inject(HttpTestingController);
+    const pubkey = await signerService.loginWithEphemeralKey();
+
+    const pending = apiService.makeAuthenticatedRequest<unknown[]>('/account/list?limit=10');
+    const request = await nextRequest(httpMock);
+    request.flush([]);
+    const response = await pending;
+
+    expect(response.success).toBeTrue();
+    const url = request.request.urlWithParams;
+    const authorization = request.request.headers.get('Authorization')!;
+    const event = await nip98Auth.unpackEventFromToken(authorization);
+    expect(event.pubkey).toBe(pubkey);
+    expect(await nip98Auth.validateToken(authorization, url, 'GET')).toBeTrue();
+  });
+
+  describe('with several identities', () => {
+    let ops: string;
+    let finance: string;
+
+    beforeEach(async () => {
+      localStorage.removeItem('nostria-admin-audit-log');
+      ops = await signerService.loginWithEphemeralKey();
+      finance = await signerService.loginWithEphemeralKey();
+    });
+
+    it('should keep earlier identities connected and make the newest active', () => {
+      const state = signerService.getAuthState();
+
+      expect(state.pubkey).toBe(finance);
+      expect(state.identities?.map(identity => identity.pubkey)).toEqual([ops, finance]);
+    });
+
+    it('should sign NIP-98 tokens with the active identity', async () => {
+      const nip98Auth = TestBed.inject(Nip98AuthService);
+      const url = 'https://api.test/account';
+
+      const asFinance = await nip98Auth.unpackEventFromToken(await nip98Auth.getToken(url, 'GET'));
+      signerService.switchIdentity(ops);
+      const asOps = await nip98Auth.unpackEventFromToken(await nip98Auth.getToken(url, 'GET'));
+
+      expect(asFinance.pubkey).toBe(finance);
+      expect(asOps.pubkey).toBe(ops);
+    });
+
+    it('should record which identity made each authenticated request', async () => {
+      const apiService = TestBed.inject(ApiService);
+      const auditLog = TestBed.inject(AuditLogService);
+      const httpMock = TestBed.inject(HttpTestingController);
+      const respond = async (pending: Promise<unknown>) => {
+        (await nextRequest(httpMock)).flush({});
+        await pending;
+      };
+
+      await respond(apiService.makeAuthenticatedRequest('/account', { method: 'PUT', body: { username: 'a' } }));
+      signerService.switchIdentity(ops);
+      await respond(apiService.makeAuthenticatedRequest('/account/list'));
+
+      expect(auditLog.entries().map(({ pubkey, method, endpoint }) => ({ pubkey, method, endpoint }))).toEqual([
+        { pubkey: ops, method: 'GET', endpoint: '/account/list' },
+        { pubkey: finance, method: 'PUT', endpoint: '/account' }
+      ]);
+      auditLog.clear();
+    });
+
+    it('should fall back to another identity when the active one signs out', () => {
+      signerService.removeIdentity(finance);
+      expect(signerService.getAuthState().pubkey).toBe(ops);
+
+      signerService.removeIdentity(ops);
+      expect(signerService.getAuthState().isAuthenticated).toBeFalse();
+    });
+
+    it('should refuse to switch to an identity that is not connected', () => {
+      expect(() => signerService.switchIdentity('f'.repeat(64))).toThrowError(/not connected/);
+      expect(signerService.getAuthState().pubkey).toBe(finance);
+    });
+  });
+});
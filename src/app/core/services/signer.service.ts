@@ -0,0 +1,305 @@
+import { Injectable, inject } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import {
+  AdminIdentity,
+  AuthenticationState,
+  NostrEvent,
+  NostrEventTemplate,
+  Signer
+} from '../../shared/models/api.models';
+import { ExtensionSigner } from '../signers/extension-signer';
+import { LocalKeySigner } from '../signers/local-key-signer';
+import { Nip46RemoteSigner, Nip46SessionData, parseNip46Uri } from '../signers/nip46-remote-signer';
+import { NIP46_TRANSPORT_FACTORY } from '../signers/nip46-transport';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SignerService {
+  private authStateSubject = new BehaviorSubject<AuthenticationState>({
+    isAuthenticated: false
+  });
+
+  public authState$ = this.authStateSubject.asObservable();
+
+  private transportFactory = inject(NIP46_TRANSPORT_FACTORY);
+
+  // Connected identities by pubkey, in the order they signed in
+  private signers = new Map<string, Signer>();
+  private activePubkey: string | null = null;
+
+  // Signer waiting for a remote signer app to accept a nostrconnect:// URI
+  private pendingNostrConnect: { uri: string; signer: Nip46RemoteSigner } | null = null;
+
+  constructor() {
+    const extension = ExtensionSigner.detect();
+    if (extension) {
+      this.updateAuthState({ extensionName: extension.name });
+    }
+  }
+
+  /**
+   * Connect a signer and make its identity the active one. Other connected
+   * identities stay available to switch back to.
+   * @param signer The signer chosen by the user
+   * @returns The signing public key
+   */
+  public async login(signer: Signer): Promise<string> {
+    let pubkey: string;
+
+    try {
+      pubkey = await signer.connect();
+    } catch (error) {
+      signer.close();
+      throw error;
+    }
+
+    const existing = this.signers.get(pubkey);
+    if (existing && existing !== signer) {
+      existing.close();
+    }
+    // Re-insert so the newest sign-in is listed last
+    this.signers.delete(pubkey);
+    this.signers.set(pubkey, signer);
+    this.activePubkey = pubkey;
+
+    this.publishIdentities();
+    return pubkey;
+  }
+
+  /**
+   * Make another connected identity the active one
+   * @param pubkey Hex pubkey of a connected identity
+   */
+  public switchIdentity(pubkey: string): void {
+    if (!this.signers.has(pubkey)) {
+      throw new Error('That identity is not connected. Please sign in with it first.');
+    }
+
+    this.activePubkey = pubkey;
+    this.publishIdentities();
+  }
+
+  /**
+   * Disconnect one identity. If it was active, the most recent remaining identity takes over.
+   * @param pubkey Hex pubkey of a connected identity
+   */
+  public removeIdentity(pubkey: string): void {
+    const signer = this.signers.get(pubkey);
+    if (!signer) {
+      return;
+    }
+
+    signer.close();
+    this.signers.delete(pubkey);
+
+    if (this.signers.size === 0) {
+      this.logout();
+      return;
+    }
+
+    if (this.activePubkey === pubkey) {
+      this.activePubkey = [...this.signers.keys()].pop()!;
+    }
+    this.publishIdentities();
+  }
+
+  /**
+   * List the connected identities
+   */
+  public getIdentities(): AdminIdentity[] {
+    return [...this.signers].map(([pubkey, signer]) => ({
+      pubkey,
+      signerType: signer.type,
+      signerName: signer.name
+    }));
+  }
+
+  /**
+   * Sign in with the installed NIP-07 browser extension
+   */
+  public async loginWithExtension(): Promise<string> {
+    const signer = ExtensionSigner.detect();
+
+    if (!signer) {
+      throw new Error('No Nostr extension found. Please install a Nostr browser extension like nos2x, Alby, or Flamingo.');
+    }
+
+    return this.login(signer);
+  }
+
+  /**
+   * Sign in with a NIP-46 remote signer
+   * @param uri bunker:// URI from the remote signer, or a nostrconnect:// URI from createNostrConnectUri()
+   */
+  public async loginWithRemoteSigner(uri: string): Promise<string> {
+    const info = parseNip46Uri(uri);
+    let signer: Nip46RemoteSigner;
+
+    if (info.type === 'nostrconnect') {
+      if (!this.pendingNostrConnect || this.pendingNostrConnect.uri !== uri) {
+        throw new Error('Unknown nostrconnect:// URI. Generate a new one and try again.');
+      }
+      // Kept as pending while waiting, so cancelNostrConnect() can stop it
+      signer = this.pendingNostrConnect.signer;
+    } else {
+      signer = Nip46RemoteSigner.fromBunkerUri(uri, this.transportFactory(info.relays));
+    }
+
+    try {
+      return await this.login(signer);
+    } catch (error) {
+      throw new Error(`Failed to connect to remote signer: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      if (this.pendingNostrConnect?.signer === signer) {
+        this.pendingNostrConnect = null;
+      }
+    }
+  }
+
+  /**
+   * Resume a NIP-46 session that completed its handshake earlier
+   * @param session Data from Nip46RemoteSigner.getSessionData()
+   */
+  public async resumeRemoteSigner(session: Nip46SessionData): Promise<string> {
+    const signer = Nip46RemoteSigner.fromSession(session, this.transportFactory(session.relays));
+
+    try {
+      return await this.login(signer);
+    } catch (error) {
+      throw new Error(`Failed to reconnect to remote signer: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Create a nostrconnect:// URI for the user to open in their remote signer app.
+   * Pass the returned URI to loginWithRemoteSigner() to wait for the signer to accept it.
+   * @param relays Relays used to exchange NIP-46 messages
+   */
+  public createNostrConnectUri(relays: string[]): string {
+    this.pendingNostrConnect?.signer.close();
+
+    const signer = Nip46RemoteSigner.forNostrConnect(this.transportFactory(relays), relays);
+    const uri = signer.getNostrConnectUri();
+
+    this.pendingNostrConnect = { uri, signer };
+    return uri;
+  }
+
+  /**
+   * Stop waiting for a remote signer to accept the nostrconnect:// URI
+   */
+  public cancelNostrConnect(): void {
+    this.pendingNostrConnect?.signer.close();
+    this.pendingNostrConnect = null;
+  }
+
+  /**
+   * Sign in with a NIP-49 encrypted private key
+   * @param ncryptsec The ncryptsec1... key
+   * @param password Password used to encrypt the key
+   */
+  public async loginWithNcryptsec(ncryptsec: string, password: string): Promise<string> {
+    return this.login(LocalKeySigner.fromNcryptsec(ncryptsec, password));
+  }
+
+  /**
+   * Sign in with a throwaway key generated in memory (development only)
+   */
+  public async loginWithEphemeralKey(): Promise<string> {
+    return this.login(LocalKeySigner.ephemeral());
+  }
+
+  /**
+   * Close every connected signer and reset the authentication state
+   */
+  public logout(): void {
+    this.signers.forEach(signer => signer.close());
+    this.signers.clear();
+    this.activePubkey = null;
+
+    this.updateAuthState({
+      isAuthenticated: false,
+      pubkey: undefined,
+      extensionName: ExtensionSigner.detect()?.name,
+      signerType: undefined,
+      identities: []
+    });
+  }
+
+  /**
+   * Sign a Nostr event with the active identity, or with a specific connected one
+   * @param event The event to sign
+   * @param pubkey Connected identity to sign with; defaults to the active one
+   */
+  public async signEvent(event: NostrEventTemplate, pubkey?: string): Promise<NostrEvent> {
+    const signerPubkey = pubkey ?? this.activePubkey;
+    const signer = signerPubkey ? this.signers.get(signerPubkey) : undefined;
+
+    if (!signer || !this.authStateSubject.value.isAuthenticated) {
+      throw new Error('Not connected to a Nostr signer. Please sign in first.');
+    }
+
+    let signed: NostrEvent;
+    try {
+      signed = await signer.signEvent(event);
+    } catch (error) {
+      throw new Error(`Failed to sign event: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    // An extension signs with whichever account is selected in it right now
+    if (signed.pubkey !== signerPubkey) {
+      throw new Error(`Failed to sign event: the signer used ${signed.pubkey?.slice(0, 8)}... instead of the active identity ${signerPubkey!.slice(0, 8)}...`);
+    }
+
+    return signed;
+  }
+
+  /**
+   * Get the signer of the active identity, or of a specific connected one
+   * @param pubkey Connected identity; defaults to the active one
+   */
+  public getSigner(pubkey?: string): Signer | null {
+    const signerPubkey = pubkey ?? this.activePubkey;
+    return signerPubkey ? this.signers.get(signerPubkey) ?? null : null;
+  }
+
+  /**
+   * Get the current authentication state
+   */
+  public getAuthState(): AuthenticationState {
+    return this.authStateSubject.value;
+  }
+
+  /**
+   * Check if a NIP-07 browser extension is installed
+   */
+  public isExtensionAvailable(): boolean {
+    return ExtensionSigner.detect() !== null;
+  }
+
+  /**
+   * Publish the connected identities and the active one as the authentication state
+   */
+  private publishIdentities(): void {
+    const signer = this.getSigner();
+    this.updateAuthState({
+      isAuthenticated: true,
+      pubkey: this.activePubkey!,
+      extensionName: signer!.name,
+      signerType: signer!.type,
+      identities: this.getIdentities()
+    });
+  }
+
+  /**
+   * Update the authentication state
+   */
+  private updateAuthState(newState: Partial<AuthenticationState>): void {
+    const currentState = this.authStateSubject.value;
+    this.authStateSubject.next({
+      ...currentState,
+      ...newState
+    });
+  }
+}
@@ -0,0 +1,66 @@
+import { SubscriptionAdjustmentPlan, TierDetails } from '../../shared/models/api.models';
+import { planSubscriptionAdjustment } from './subscription-adjustment.service';
+
+describe('planSubscriptionAdjustment', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const now = Date.parse('2026-06-01T12:00:00Z');
+  const tier = (id: TierDetails['tier'], priceCents?: number): TierDetails => ({
+    tier: id,
+    name: id,
+    entitlements: { notificationsPerDay: 0, features: [] },
+    ...(priceCents ? { pricing: { monthly: { priceCents, currency: 'USD' } } } : {})
+  });
+  const tiers = { free: tier('free'), basic: tier('basic', 500), premium: tier('premium', 1000) };
+  const premium = { tier: 'premium' as const, expires: now + 10 * DAY_MS };
+
+  it('should extend from the current expiry with a request per month and per week', () => {
+    const plan = planSubscriptionAdjustment(premium, { action: 'extend', months: 2, weeks: 1, reason: 'x' }, tiers, now) as SubscriptionAdjustmentPlan;
+
+    expect(plan.months).toBe(2);
+    expect(plan.weeks).toBe(1);
+    expect(plan.after.expires).toBe(premium.expires + 67 * DAY_MS);
+    expect(plan.tier).toBeUndefined();
+  });
+
+  it('should only set an expiry that whole months and weeks reach exactly', () => {
+    const day = (days: number) => new Date(premium.expires + days * DAY_MS).setHours(0, 0, 0, 0);
+    const plan = planSubscriptionAdjustment(premium, { action: 'set-expiry', expires: day(44), reason: 'x' }, tiers, now) as SubscriptionAdjustmentPlan;
+
+    expect([plan.months, plan.weeks]).toEqual([1, 2]);
+    expect(plan.after.expires).toBe(premium.expires + 44 * DAY_MS);
+    expect(plan.note).toBeUndefined();
+    // 40 days is neither: 37 and 44 are the nearest
+    expect(planSubscriptionAdjustment(premium, { action: 'set-expiry', expires: day(40), reason: 'x' }, tiers, now))
+      .toContain(new Date(premium.expires + 37 * DAY_MS).toLocaleDateString());
+    expect(planSubscriptionAdjustment(premium, { action: 'set-expiry', expires: now + DAY_MS, reason: 'x' }, tiers, now))
+      .toBe('The API can only move the expiry later than it is now');
+  });
+
+  it('should convert unused time on a tier change, only ever extending the expiry', () => {
+    const basic = { tier: 'basic' as const, expires: now + 60 * DAY_MS };
+    const downgrade = planSubscriptionAdjustment(premium, { action: 'change-tier', tier: 'basic', prorate: true, reason: 'x' }, tiers, now) as SubscriptionAdjustmentPlan;
+    const upgrade = planSubscriptionAdjustment(basic, { action: 'change-tier', tier: 'premium', prorate: true, reason: 'x' }, tiers, now) as SubscriptionAdjustmentPlan;
+
+    // 10 premium days buy 20 basic days, 10 past the expiry: one whole week
+    expect(downgrade.tier).toBe('basic');
+    expect(downgrade.proration).toEqual({ remainingDays: 10, creditCents: 333, newTierDays: 19.98 });
+    expect([downgrade.months, downgrade.weeks]).toEqual([0, 1]);
+    expect(downgrade.note).toContain('last 3 days');
+    // 60 basic days buy only 30 premium days, and the API can't take time away
+    expect(upgrade.after).toEqual({ tier: 'premium', expires: basic.expires });
+    expect(upgrade.note).toContain("can't shorten");
+  });
+
+  it('should revoke by moving the account to the free tier', () => {
+    const plan = planSubscriptionAdjustment(premium, { action: 'revoke', reason: 'x' }, tiers, now) as SubscriptionAdjustmentPlan;
+
+    expect(plan.tier).toBe('free');
+    expect(plan.months + plan.weeks).toBe(0);
+    expect(planSubscriptionAdjustment({ tier: 'free' }, { action: 'revoke', reason: 'x' }, tiers, now)).toBe('The account is already on the free tier');
+  });
+
+  it('should refuse adjustments that take too many requests', () => {
+    expect(typeof planSubscriptionAdjustment(premium, { action: 'extend', months: 12, reason: 'x' }, tiers, now)).toBe('object');
+    expect(typeof planSubscriptionAdjustment(premium, { action: 'extend', months: 12, weeks: 1, reason: 'x' }, tiers, now)).toBe('string');
+  });
+});
@@ -0,0 +1,241 @@
+import { Injectable } from '@angular/core';
+import {
+  Account, ApiResponse, SubscriptionAdjustment, SubscriptionAdjustmentPlan, SubscriptionState, TierDetails
+} from '../../shared/models/api.models';
+import { ApiError } from '../../shared/models/api-error';
+import { ApiService, RequestOptions } from './api.service';
+import { SessionService } from './session.service';
+import { TierStore } from './tier-store.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** What `POST /account/{pubkey}/extend` adds for `{ months: 1 }` and `{ weeks: 1 }`; checked against each answer */
+const MONTH_DAYS = 30;
+const WEEK_DAYS = 7;
+/** How far the server's new expiry may be from ours before the month length is in doubt, for clock skew */
+const EXPIRY_TOLERANCE_MS = 60 * 60 * 1000;
+/** Each extension is its own signed request, sent one at a time, that the API can't undo */
+export const MAX_EXTEND_REQUESTS = 12;
+
+/**
+ * The fewest whole months and weeks that add up to `days`
+ * @returns `[months, weeks]`, or null if none do
+ */
+function durationOf(days: number): [number, number] | null {
+  for (let months = Math.floor(days / MONTH_DAYS); months >= 0; months--) {
+    const rest = days - months * MONTH_DAYS;
+    if (rest % WEEK_DAYS === 0) return [months, rest / WEEK_DAYS];
+  }
+  return null;
+}
+
+/** The nearest day count on the given side of `days` that whole months and weeks reach */
+function nearestReachable(days: number, step: 1 | -1): number | null {
+  for (let candidate = days + step; candidate > 0 && candidate <= days + MONTH_DAYS; candidate += step) {
+    if (durationOf(candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * The calls that carry out an adjustment, and the tier and expiry they should leave.
+ * The API only adds whole months and weeks to the later of now and the expiry, and
+ * can't shorten a subscription, so a plan says where it falls short of what was asked.
+ * @returns The plan, or why the adjustment can't be made
+ */
+export function planSubscriptionAdjustment(
+  before: SubscriptionState,
+  adjustment: SubscriptionAdjustment,
+  tiers: Record<string, TierDetails>,
+  now = Date.now()
+): SubscriptionAdjustmentPlan | string {
+  const start = Math.max(now, before.expires ?? 0);
+  const extended = (months: number, weeks: number) => start + (months * MONTH_DAYS + weeks * WEEK_DAYS) * DAY_MS;
+  const checked = (plan: SubscriptionAdjustmentPlan) => plan.months + plan.weeks > MAX_EXTEND_REQUESTS
+    ? `That takes more than ${MAX_EXTEND_REQUESTS} extend requests; pick a shorter time`
+    : plan;
+
+  switch (adjustment.action) {
+    case 'extend': {
+      if (before.tier === 'free') return 'Free accounts have nothing to extend; change the tier first';
+      const months = adjustment.months ?? 0;
+      const weeks = adjustment.weeks ?? 0;
+      return checked({ before, after: { tier: before.tier, expires: extended(months, weeks) }, months, weeks });
+    }
+    case 'set-expiry': {
+      if (before.tier === 'free') return 'Free accounts have no expiry to set; change the tier first';
+      // Whole days from the start's day; the expiry keeps the start's time of day
+      const startDay = new Date(start).setHours(0, 0, 0, 0);
+      const days = Math.round((adjustment.expires - startDay) / DAY_MS);
+      if (days <= 0) return 'The API can only move the expiry later than it is now';
+      const duration = durationOf(days);
+      if (!duration) {
+        const nearest = [nearestReachable(days, -1), nearestReachable(days, 1)]
+          .filter((candidate): candidate is number => candidate !== null)
+          .map(candidate => new Date(start + candidate * DAY_MS).toLocaleDateString());
+        return `The API only adds 30-day months and 7-day weeks, so it can't reach that day; the nearest it can are ${nearest.join(' and ')}`;
+      }
+      const [months, weeks] = duration;
+      return checked({ before, after: { tier: before.tier, expires: extended(months, weeks) }, months, weeks });
+    }
+    case 'change-tier': {
+      if (!tiers[adjustment.tier]) return 'Pick an existing tier';
+      if (adjustment.tier === before.tier) return 'The account is already on this tier';
+      const plan: SubscriptionAdjustmentPlan = {
+        before,
+        after: { tier: adjustment.tier, expires: before.expires },
+        tier: adjustment.tier,
+        months: 0,
+        weeks: 0
+      };
+
+      const [from, to] = [before.tier, adjustment.tier].map(tier => tiers[tier]?.pricing?.monthly?.priceCents);
+      if (!adjustment.prorate || !from || !to || before.expires === undefined || before.expires <= now) {
+        return plan;
+      }
+
+      const remainingDays = (before.expires - now) / DAY_MS;
+      const creditCents = Math.round(remainingDays * from / MONTH_DAYS);
+      const newTierDays = creditCents / to * MONTH_DAYS;
+      const proration = {
+        remainingDays: Math.round(remainingDays * 100) / 100,
+        creditCents,
+        newTierDays: Math.round(newTierDays * 100) / 100
+      };
+      if (newTierDays < remainingDays) {
+        const extra = Math.round(remainingDays - newTierDays);
+        return {
+          ...plan,
+          proration,
+          note: `The API can't shorten a subscription, so the account keeps its expiry: ${extra} day${extra === 1 ? '' : 's'} more than the credit buys`
+        };
+      }
+
+      const extra = newTierDays - remainingDays;
+      const months = Math.floor(extra / MONTH_DAYS);
+      const weeks = Math.floor((extra - months * MONTH_DAYS) / WEEK_DAYS);
+      const lost = Math.round(extra - months * MONTH_DAYS - weeks * WEEK_DAYS);
+      return checked({
+        ...plan,
+        proration,
+        after: { tier: adjustment.tier, expires: extended(months, weeks) },
+        months,
+        weeks,
+        ...(lost > 0 ? { note: `The API only adds whole months and weeks, so the last ${lost} day${lost === 1 ? '' : 's'} of the credit are not added` } : {})
+      });
+    }
+    case 'revoke':
+      if (before.tier === 'free') return 'The account is already on the free tier';
+      return {
+        before,
+        after: { tier: 'free', expires: before.expires },
+        tier: 'free',
+        months: 0,
+        weeks: 0,
+        note: "The API can't end a subscription early, so the account moves to the free tier and keeps its expiry date"
+      };
+  }
+}
+
+function failure<T>(message: string, error?: ApiError): ApiResponse<T> {
+  return { data: null as T, success: false, message, error };
+}
+
+/**
+ * Adjusts subscriptions with the endpoints the API has: the tier through the admin
+ * settings endpoint, and time through one signed extend request per month or week.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SubscriptionAdjustmentService {
+  constructor(
+    private apiService: ApiService,
+    private tierStore: TierStore,
+    private session: SessionService
+  ) {}
+
+  /**
+   * Work out an adjustment against the account as the server has it now
+   * @returns The plan; a failed response carries why it can't be made
+   */
+  async plan(pubkey: string, adjustment: SubscriptionAdjustment, options: RequestOptions = {}): Promise<ApiResponse<SubscriptionAdjustmentPlan>> {
+    const [account] = await Promise.all([this.apiService.getAccountAsAdmin(pubkey, options), this.tierStore.load()]);
+    if (!account.success) {
+      return failure(account.message || 'Failed to load the account', account.error);
+    }
+
+    const tiers = this.tierStore.tiers();
+    if (!tiers) {
+      return failure(this.tierStore.error() || 'Failed to load tiers');
+    }
+
+    const plan = planSubscriptionAdjustment({ tier: account.data.tier, expires: account.data.expires }, adjustment, tiers);
+    return typeof plan === 'string'
+      ? failure(plan)
+      : { data: plan, success: true };
+  }
+
+  /**
+   * Make the calls a plan lists, tier first, stopping at the first that fails.
+   * Calls already made stay made: the API has no way to undo them.
+   * @returns The tier and the expiry the server answered with
+   */
+  async apply(pubkey: string, plan: SubscriptionAdjustmentPlan, reason: string): Promise<ApiResponse<SubscriptionState>> {
+    if (plan.tier) {
+      const admin = this.session.pubkey() ?? '';
+      const response = await this.apiService.adminSetUserSettings({ pubkey: admin, targetPubkey: pubkey, tier: plan.tier }, { reason });
+      if (!response.success) {
+        return failure(response.message || 'Failed to change the tier', response.error);
+      }
+    }
+
+    // Identical requests, so the NIP-98 token cache saves the signer most of the prompts.
+    // Months go first, so the first answer already shows whether a month is 30 days.
+    const durations = [
+      ...Array<{ months: 1 }>(plan.months).fill({ months: 1 }),
+      ...Array<{ weeks: 1 }>(plan.weeks).fill({ weeks: 1 })
+    ];
+    if (!durations.length) {
+      return { data: plan.after, success: true };
+    }
+
+    let expires = Math.max(Date.now(), plan.before.expires ?? 0);
+    for (const [index, duration] of durations.entries()) {
+      const response = await this.apiService.extendSubscription(pubkey, duration, { reason });
+      if (!response.success) {
+        return failure(`Stopped after ${index} of ${durations.length} extensions: ${response.message || 'the extension failed'}`, response.error);
+      }
+
+      const expected = expires + ('months' in duration ? MONTH_DAYS : WEEK_DAYS) * DAY_MS;
+      expires = response.data.newExpires;
+      if (Math.abs(expires - expected) > EXPIRY_TOLERANCE_MS) {
+        return failure(`Stopped after ${index + 1} of ${durations.length} extensions: the server's new expiry isn't the one planned, so the length of a month or week differs from what the portal assumes`);
+      }
+    }
+
+    return { data: { tier: plan.after.tier, expires }, success: true };
+  }
+
+  /**
+   * Apply an adjustment without confirmation, for bulk actions. It is planned against
+   * the tier and expiry the account list shows, and only goes ahead if it takes no
+   * signed requests, so a bulk run never asks the signer.
+   * @returns The tier and expiry afterwards
+   */
+  async adjust(account: Pick<Account, 'pubkey' | 'tier' | 'expires'>, adjustment: SubscriptionAdjustment): Promise<ApiResponse<SubscriptionState>> {
+    await this.tierStore.load();
+    const tiers = this.tierStore.tiers();
+    if (!tiers) {
+      return failure(this.tierStore.error() || 'Failed to load tiers');
+    }
+
+    const plan = planSubscriptionAdjustment({ tier: account.tier, expires: account.expires }, adjustment, tiers);
+    if (typeof plan === 'string') {
+      return failure(plan);
+    }
+    if (plan.months + plan.weeks > 0) {
+      return failure('Adding time takes a signed request per month or week; adjust this account from its page');
+    }
+    return this.apply(account.pubkey, plan, adjustment.reason);
+  }
+}
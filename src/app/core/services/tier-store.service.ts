@@ -0,0 +1,41 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { TierDetails } from '../../shared/models/api.models';
+import { ApiService } from './api.service';
+
+/**
+ * Subscription tiers shared by every page that shows them. Backed by the response
+ * cache, so visiting another page reuses the tiers instead of fetching them again.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TierStore {
+  /** Tiers for the selected backend, null until loaded */
+  readonly tiers = computed(() => this.apiService.peek<Record<string, TierDetails>>('/account/tiers') ?? null);
+  readonly tierList = computed(() => Object.values(this.tiers() ?? {}));
+  readonly loading = signal(false);
+  readonly error = signal<string | null>(null);
+
+  constructor(private apiService: ApiService) {}
+
+  /**
+   * Load the tiers unless the cache still has them
+   * @param reload Fetch them even if cached
+   */
+  async load(reload = false): Promise<void> {
+    // Cached tiers stay on screen while they refresh
+    this.loading.set(this.tiers() === null);
+    this.error.set(null);
+
+    try {
+      const response = await this.apiService.getTiers({ reload });
+      if (!response.success) {
+        this.error.set(response.message || 'Failed to load tiers');
+      }
+    } catch (error) {
+      this.error.set(error instanceof Error ? error.message : 'Unexpected error loading tiers');
+    } finally {
+      this.loading.set(false);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  NostrEvent,
+  NostrEventTemplate,
+  NostrExtension,
+  Signer
+} from '../../shared/models/api.models';
+
+const KNOWN_EXTENSIONS = [
+  { name: 'nostr', property: 'nostr' },
+  { name: 'nos2x', property: 'nos2x' },
+  { name: 'Alby', property: 'alby' },
+  { name: 'Flamingo', property: 'flamingo' },
+  { name: 'horse', property: 'horse' }
+];
+
+/**
+ * Signer backed by a NIP-07 browser extension
+ */
+export class ExtensionSigner implements Signer {
+  readonly type = 'extension';
+
+  constructor(
+    readonly extension: NostrExtension,
+    readonly name: string
+  ) {}
+
+  /**
+   * Find the first installed Nostr browser extension
+   * @returns A signer for the extension, or null if none is installed
+   */
+  static detect(): ExtensionSigner | null {
+    for (const ext of KNOWN_EXTENSIONS) {
+      const extension = window[ext.property];
+      if (extension && typeof extension.getPublicKey === 'function') {
+        return new ExtensionSigner(extension as NostrExtension, ext.name);
+      }
+    }
+    return null;
+  }
+
+  async connect(): Promise<string> {
+    try {
+      return await this.extension.getPublicKey();
+    } catch (error) {
+      throw new Error(`Failed to connect to Nostr extension: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  getPublicKey(): Promise<string> {
+    return this.extension.getPublicKey();
+  }
+
+  signEvent(event: NostrEventTemplate): Promise<NostrEvent> {
+    return this.extension.signEvent(event);
+  }
+
+  close(): void {
+    // The extension keeps its own state; nothing to release
+  }
+}
@@ -0,0 +1,83 @@
+import { finalizeEvent, generateSecretKey, getPublicKey } from 'nostr-tools/pure';
+import { decrypt as decryptNcryptsec } from 'nostr-tools/nip49';
+import { decode } from 'nostr-tools/nip19';
+import {
+  NostrEvent,
+  NostrEventTemplate,
+  Signer
+} from '../../shared/models/api.models';
+
+/**
+ * Signer holding a private key in memory. Used for imported NIP-49 ncryptsec
+ * keys and throwaway dev keys, so staging and automated tests can sign
+ * NIP-98 tokens without a browser extension.
+ */
+export class LocalKeySigner implements Signer {
+  private secretKey: Uint8Array | null;
+
+  private constructor(
+    secretKey: Uint8Array,
+    readonly type: 'ncryptsec' | 'nsec' | 'ephemeral',
+    readonly name: string,
+    readonly ncryptsec?: string
+  ) {
+    this.secretKey = secretKey;
+  }
+
+  /**
+   * Decrypt a NIP-49 ncryptsec key with the given password
+   */
+  static fromNcryptsec(ncryptsec: string, password: string): LocalKeySigner {
+    if (!ncryptsec.trim().startsWith('ncryptsec1')) {
+      throw new Error('Expected an ncryptsec1... encrypted key');
+    }
+
+    try {
+      return new LocalKeySigner(decryptNcryptsec(ncryptsec.trim(), password), 'ncryptsec', 'Encrypted key (NIP-49)', ncryptsec.trim());
+    } catch (error) {
+      throw new Error(`Failed to decrypt key: ${error instanceof Error ? error.message : 'Wrong password?'}`);
+    }
+  }
+
+  /**
+   * Use a plain nsec key, e.g. from a CI secret
+   */
+  static fromNsec(nsec: string): LocalKeySigner {
+    const decoded = decode(nsec.trim());
+    if (decoded.type !== 'nsec') {
+      throw new Error('Expected an nsec1... key');
+    }
+    return new LocalKeySigner(decoded.data, 'nsec', 'Imported key');
+  }
+
+  /**
+   * Generate a throwaway key for local development
+   */
+  static ephemeral(): LocalKeySigner {
+    return new LocalKeySigner(generateSecretKey(), 'ephemeral', 'Ephemeral dev key');
+  }
+
+  async connect(): Promise<string> {
+    return this.getPublicKey();
+  }
+
+  async getPublicKey(): Promise<string> {
+    return getPublicKey(this.requireKey());
+  }
+
+  async signEvent(event: NostrEventTemplate): Promise<NostrEvent> {
+    return finalizeEvent(event, this.requireKey());
+  }
+
+  close(): void {
+    this.secretKey?.fill(0);
+    this.secretKey = null;
+  }
+
+  private requireKey(): Uint8Array {
+    if (!this.secretKey) {
+      throw new Error('Signer has been closed');
+    }
+    return this.secretKey;
+  }
+}
@@ -0,0 +1,121 @@
+import { finalizeEvent, generateSecretKey, getPublicKey } from 'nostr-tools/pure';
+import { getConversationKey, encrypt, decrypt } from 'nostr-tools/nip44';
+import { NostrEvent, NostrEventTemplate } from '../../shared/models/api.models';
+import { NIP46_KIND, parseNip46Uri } from './nip46-remote-signer';
+import { Nip46Transport } from './nip46-transport';
+
+/**
+ * In-process NIP-46 remote signer for tests and offline development.
+ * Holds a user key and answers connect, get_public_key, sign_event and ping.
+ * Like a real bunker, it only answers clients that completed the handshake.
+ */
+export class MockBunker {
+  readonly bunkerPubkey: string;
+  readonly userPubkey: string;
+  readonly receivedMethods: string[] = [];
+  private unsubscribe: (() => void) | null = null;
+  private readonly authorizedClients = new Set<string>();
+
+  constructor(
+    private readonly transport: Nip46Transport,
+    private readonly userSecretKey: Uint8Array = generateSecretKey(),
+    private readonly bunkerSecretKey: Uint8Array = generateSecretKey(),
+    private readonly secret: string | null = null
+  ) {
+    this.bunkerPubkey = getPublicKey(bunkerSecretKey);
+    this.userPubkey = getPublicKey(userSecretKey);
+  }
+
+  /**
+   * Start answering requests addressed to the bunker
+   */
+  start(): void {
+    this.unsubscribe = this.transport.subscribe(
+      { kinds: [NIP46_KIND], '#p': [this.bunkerPubkey] },
+      event => void this.handleRequest(event)
+    );
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * The bunker:// URI a client uses to connect to this signer
+   */
+  getBunkerUri(relay = 'wss://relay.mock'): string {
+    const params = new URLSearchParams({ relay });
+    if (this.secret) {
+      params.set('secret', this.secret);
+    }
+    return `bunker://${this.bunkerPubkey}?${params.toString()}`;
+  }
+
+  /**
+   * Accept a nostrconnect:// URI generated by a client, as a signer app would
+   */
+  async acceptNostrConnect(uri: string): Promise<void> {
+    const info = parseNip46Uri(uri);
+    if (!this.unsubscribe) {
+      this.start();
+    }
+    this.authorizedClients.add(info.pubkey);
+    await this.respond(info.pubkey, { id: 'connect', result: info.secret ?? 'ack' });
+  }
+
+  private async handleRequest(event: NostrEvent): Promise<void> {
+    if (!event.pubkey) {
+      return;
+    }
+
+    const conversationKey = getConversationKey(this.bunkerSecretKey, event.pubkey);
+    const request = JSON.parse(decrypt(event.content, conversationKey)) as {
+      id: string;
+      method: string;
+      params: string[];
+    };
+    this.receivedMethods.push(request.method);
+
+    if (request.method !== 'connect' && !this.authorizedClients.has(event.pubkey)) {
+      await this.respond(event.pubkey, { id: request.id, error: 'Unauthorized client' });
+      return;
+    }
+
+    switch (request.method) {
+      case 'connect':
+        if (this.secret && request.params[1] !== this.secret) {
+          await this.respond(event.pubkey, { id: request.id, error: 'Invalid secret' });
+        } else {
+          this.authorizedClients.add(event.pubkey);
+          await this.respond(event.pubkey, { id: request.id, result: 'ack' });
+        }
+        break;
+      case 'get_public_key':
+        await this.respond(event.pubkey, { id: request.id, result: this.userPubkey });
+        break;
+      case 'sign_event': {
+        const template = JSON.parse(request.params[0]) as NostrEventTemplate;
+        const signed = finalizeEvent(template, this.userSecretKey);
+        await this.respond(event.pubkey, { id: request.id, result: JSON.stringify(signed) });
+        break;
+      }
+      case 'ping':
+        await this.respond(event.pubkey, { id: request.id, result: 'pong' });
+        break;
+      default:
+        await this.respond(event.pubkey, { id: request.id, error: `Unsupported method: ${request.method}` });
+    }
+  }
+
+  private async respond(clientPubkey: string, response: { id: string; result?: string; error?: string }): Promise<void> {
+    const conversationKey = getConversationKey(this.bunkerSecretKey, clientPubkey);
+    const event = finalizeEvent({
+      kind: NIP46_KIND,
+      tags: [['p', clientPubkey]],
+      content: encrypt(JSON.stringify(response), conversationKey),
+      created_at: Math.round(Date.now() / 1000)
+    }, this.bunkerSecretKey);
+    await this.transport.publish(event);
+  }
+}
@@ -0,0 +1,98 @@
+import { TestBed } from '@angular/core/testing';
+import { generateSecretKey, verifyEvent } from 'nostr-tools/pure';
+import { NostrExtensionService } from '../services/nostr-extension.service';
+import { Nip98AuthService } from '../services/nip98-auth.service';
+import { MockBunker } from './mock-bunker';
+import { Nip46RemoteSigner, parseNip46Uri } from './nip46-remote-signer';
+import { InMemoryNip46Transport, NIP46_TRANSPORT_FACTORY } from './nip46-transport';
+
+describe('Nip46RemoteSigner', () => {
+  let transport: InMemoryNip46Transport;
+  let bunker: MockBunker;
+
+  beforeEach(() => {
+    transport = new InMemoryNip46Transport();
+    bunker = new MockBunker(transport, generateSecretKey(), generateSecretKey(), 'letmein');
+    bunker.start();
+  });
+
+  afterEach(() => {
+    bunker.stop();
+  });
+
+  it('should parse bunker URIs', () => {
+    const info = parseNip46Uri(bunker.getBunkerUri());
+    expect(info.type).toBe('bunker');
+    expect(info.pubkey).toBe(bunker.bunkerPubkey);
+    expect(info.relays).toEqual(['wss://relay.mock']);
+    expect(info.secret).toBe('letmein');
+  });
+
+  it('should reject URIs without a relay', () => {
+    expect(() => parseNip46Uri(`bunker://${bunker.bunkerPubkey}`)).toThrowError(/relay/);
+  });
+
+  it('should complete the bunker:// handshake and sign events', async () => {
+    const signer = Nip46RemoteSigner.fromBunkerUri(bunker.getBunkerUri(), transport);
+
+    const pubkey = await signer.connect();
+    expect(pubkey).toBe(bunker.userPubkey);
+
+    const signed = await signer.signEvent({ kind: 27235, tags: [], content: '', created_at: 1 });
+    expect(signed.pubkey).toBe(bunker.userPubkey);
+    expect(verifyEvent(signed)).toBeTrue();
+    expect(bunker.receivedMethods).toEqual(['connect', 'get_public_key', 'sign_event']);
+
+    signer.close();
+  });
+
+  it('should fail the handshake with a wrong secret', async () => {
+    const uri = bunker.getBunkerUri().replace('letmein', 'wrong');
+    const signer = Nip46RemoteSigner.fromBunkerUri(uri, transport);
+
+    await expectAsync(signer.connect()).toBeRejectedWithError('Invalid secret');
+    signer.close();
+  });
+
+  it('should complete the nostrconnect:// handshake', async () => {
+    const signer = Nip46RemoteSigner.forNostrConnect(transport, ['wss://relay.mock']);
+    const uri = signer.getNostrConnectUri();
+
+    const connected = signer.connect();
+    await bunker.acceptNostrConnect(uri);
+
+    expect(await connected).toBe(bunker.userPubkey);
+    signer.close();
+  });
+
+  it('should stop waiting for a nostrconnect:// signer on timeout or close', async () => {
+    const timedOut = Nip46RemoteSigner.forNostrConnect(transport, ['wss://relay.mock'], { connectTimeout: 10 });
+    await expectAsync(timedOut.connect()).toBeRejectedWithError(/in time/);
+    timedOut.close();
+
+    const cancelled = Nip46RemoteSigner.forNostrConnect(transport, ['wss://relay.mock']);
+    const connecting = cancelled.connect();
+    cancelled.close();
+    await expectAsync(connecting).toBeRejectedWithError('Remote signer connection closed');
+  });
+
+  it('should let Nip98AuthService sign tokens through a remote signer session', async () => {
+    TestBed.configureTestingModule({
+      providers: [{ provide: NIP46_TRANSPORT_FACTORY, useValue: () => transport }]
+    });
+    const nostrExtension = TestBed.inject(NostrExtensionService);
+    const nip98Auth = TestBed.inject(Nip98AuthService);
+
+    await nostrExtension.connect(bunker.getBunkerUri());
+    expect(nostrExtension.getAuthState().signerType).toBe('nip46');
+
+    const token = await nip98Auth.getToken('https://api.example.com/api/account/list', 'GET');
+    const event = await nip98Auth.unpackEventFromToken(token);
+
+    expect(event.pubkey).toBe(bunker.userPubkey);
+    expect(event.tags).toContain(['method', 'GET']);
+    expect(await nip98Auth.validateToken(token, 'https://api.example.com/api/account/list', 'GET')).toBeTrue();
+
+    nostrExtension.disconnect();
+  });
+});
@@ -0,0 +1,363 @@
+import type { Event } from 'nostr-tools/core';
+import { finalizeEvent, generateSecretKey, getPublicKey, verifyEvent } from 'nostr-tools/pure';
+import { getConversationKey, encrypt, decrypt } from 'nostr-tools/nip44';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import {
+  NostrEvent,
+  NostrEventTemplate,
+  Signer
+} from '../../shared/models/api.models';
+import { Nip46Transport } from './nip46-transport';
+
+export const NIP46_KIND = 24133;
+
+export interface Nip46ConnectionInfo {
+  type: 'bunker' | 'nostrconnect';
+  pubkey: string;
+  relays: string[];
+  secret: string | null;
+}
+
+/**
+ * What a client needs to resume a NIP-46 session without a new handshake
+ */
+export interface Nip46SessionData {
+  remotePubkey: string;
+  relays: string[];
+  clientSecretKey: string;
+}
+
+export interface Nip46SignerOptions {
+  /** Timeout for a single request to the remote signer, in milliseconds */
+  requestTimeout?: number;
+  /** How long to wait for a remote signer to accept a nostrconnect:// URI, in milliseconds */
+  connectTimeout?: number;
+  /** Called when the remote signer asks the user to approve a request at a URL */
+  onAuthUrl?: (url: string) => void;
+}
+
+interface Nip46Request {
+  id: string;
+  method: string;
+  params: string[];
+}
+
+interface Nip46Response {
+  id: string;
+  result?: string;
+  error?: string;
+}
+
+interface PendingRequest {
+  resolve: (result: string) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Parse a bunker:// or nostrconnect:// URI
+ * @param uri The connection URI
+ * @returns The parsed connection info
+ */
+export function parseNip46Uri(uri: string): Nip46ConnectionInfo {
+  const match = uri.trim().match(/^(bunker|nostrconnect):\/\/([0-9a-fA-F]{64})\??(.*)$/);
+
+  if (!match) {
+    throw new Error('Invalid remote signer URI. Expected bunker://<pubkey>?relay=... or nostrconnect://<pubkey>?relay=...');
+  }
+
+  const params = new URLSearchParams(match[3]);
+  const relays = params.getAll('relay');
+
+  if (relays.length === 0) {
+    throw new Error('Remote signer URI must include at least one relay');
+  }
+
+  return {
+    type: match[1] as Nip46ConnectionInfo['type'],
+    pubkey: match[2].toLowerCase(),
+    relays,
+    secret: params.get('secret')
+  };
+}
+
+/**
+ * NIP-46 (Nostr Connect) client. Signs events by asking a remote signer
+ * (bunker) over relays, so no private key or browser extension is needed.
+ */
+export class Nip46RemoteSigner implements Signer {
+  readonly type = 'nip46';
+  readonly name = 'Nostr Connect (NIP-46)';
+  private readonly clientPubkey: string;
+  private readonly requestTimeout: number;
+  private remotePubkey: string | null;
+  private userPubkey: string | null = null;
+  private pending = new Map<string, PendingRequest>();
+  private serial = 0;
+  private unsubscribe: (() => void) | null = null;
+  private connectSecret: string | null;
+  private connectWaiter: PendingRequest | null = null;
+  private resumed = false;
+
+  private constructor(
+    private readonly transport: Nip46Transport,
+    private readonly clientSecretKey: Uint8Array,
+    private readonly relays: string[],
+    remotePubkey: string | null,
+    secret: string | null,
+    private readonly options: Nip46SignerOptions
+  ) {
+    this.clientPubkey = getPublicKey(clientSecretKey);
+    this.remotePubkey = remotePubkey;
+    this.connectSecret = secret;
+    this.requestTimeout = options.requestTimeout ?? 60_000;
+  }
+
+  /**
+   * Create a signer for a bunker:// URI provided by the remote signer
+   */
+  static fromBunkerUri(
+    uri: string,
+    transport: Nip46Transport,
+    options: Nip46SignerOptions = {}
+  ): Nip46RemoteSigner {
+    const info = parseNip46Uri(uri);
+    if (info.type !== 'bunker') {
+      throw new Error('Expected a bunker:// URI');
+    }
+    return new Nip46RemoteSigner(transport, generateSecretKey(), info.relays, info.pubkey, info.secret, options);
+  }
+
+  /**
+   * Create a signer that waits for a remote signer to connect via a nostrconnect:// URI
+   * @param relays Relays the client listens on
+   */
+  static forNostrConnect(
+    transport: Nip46Transport,
+    relays: string[],
+    options: Nip46SignerOptions = {}
+  ): Nip46RemoteSigner {
+    const secret = bytesToHex(generateSecretKey()).substring(0, 16);
+    return new Nip46RemoteSigner(transport, generateSecretKey(), relays, null, secret, options);
+  }
+
+  /**
+   * Recreate a signer for a session that already completed the handshake.
+   * connect() on the result skips the handshake and only fetches the public key.
+   */
+  static fromSession(
+    session: Nip46SessionData,
+    transport: Nip46Transport,
+    options: Nip46SignerOptions = {}
+  ): Nip46RemoteSigner {
+    const signer = new Nip46RemoteSigner(transport, hexToBytes(session.clientSecretKey), session.relays, session.remotePubkey, null, options);
+    signer.resumed = true;
+    return signer;
+  }
+
+  /**
+   * Build the nostrconnect:// URI the user scans or pastes into their remote signer
+   * @param name Application name shown by the remote signer
+   */
+  getNostrConnectUri(name = 'Nostria Management Portal'): string {
+    const params = new URLSearchParams();
+    this.relays.forEach(relay => params.append('relay', relay));
+    params.set('secret', this.connectSecret ?? '');
+    params.set('perms', `sign_event:27235`);
+    params.set('name', name);
+    return `nostrconnect://${this.clientPubkey}?${params.toString()}`;
+  }
+
+  /**
+   * Complete the NIP-46 handshake and resolve the user's public key
+   */
+  async connect(): Promise<string> {
+    this.listen();
+
+    if (this.resumed) {
+      // The remote signer already accepted this client key; secrets are single-use
+      return this.getPublicKey();
+    }
+
+    if (this.remotePubkey) {
+      const params = [this.remotePubkey];
+      if (this.connectSecret) {
+        params.push(this.connectSecret);
+      }
+      const result = await this.sendRequest('connect', params);
+      if (result !== 'ack' && result !== this.connectSecret) {
+        throw new Error(`Unexpected connect response from remote signer: ${result}`);
+      }
+    } else {
+      // nostrconnect:// flow: the remote signer initiates and echoes our secret.
+      // close() cancels the wait.
+      await new Promise<string>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          this.connectWaiter = null;
+          reject(new Error('The remote signer did not accept the connection in time'));
+        }, this.options.connectTimeout ?? 5 * 60_000);
+        this.connectWaiter = { resolve, reject, timer };
+      });
+    }
+
+    this.userPubkey = await this.sendRequest('get_public_key', []);
+    return this.userPubkey;
+  }
+
+  /**
+   * Data needed to resume this session later with fromSession()
+   */
+  getSessionData(): Nip46SessionData | null {
+    if (!this.remotePubkey) {
+      return null;
+    }
+
+    return {
+      remotePubkey: this.remotePubkey,
+      relays: this.relays,
+      clientSecretKey: bytesToHex(this.clientSecretKey)
+    };
+  }
+
+  async getPublicKey(): Promise<string> {
+    if (!this.userPubkey) {
+      this.userPubkey = await this.sendRequest('get_public_key', []);
+    }
+    return this.userPubkey;
+  }
+
+  async signEvent(event: NostrEventTemplate): Promise<Event> {
+    const result = await this.sendRequest('sign_event', [JSON.stringify(event)]);
+    const signed = JSON.parse(result) as Event;
+    if (!verifyEvent(signed)) {
+      throw new Error('Remote signer returned an event with an invalid signature');
+    }
+    return signed;
+  }
+
+  async ping(): Promise<void> {
+    const result = await this.sendRequest('ping', []);
+    if (result !== 'pong') {
+      throw new Error(`Unexpected ping response: ${result}`);
+    }
+  }
+
+  /**
+   * Stop listening for responses, reject any outstanding requests and close the transport
+   */
+  close(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.connectWaiter) {
+      clearTimeout(this.connectWaiter.timer);
+      this.connectWaiter.reject(new Error('Remote signer connection closed'));
+      this.connectWaiter = null;
+    }
+    for (const request of this.pending.values()) {
+      clearTimeout(request.timer);
+      request.reject(new Error('Remote signer connection closed'));
+    }
+    this.pending.clear();
+    this.transport.close();
+  }
+
+  private listen(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+
+    this.unsubscribe = this.transport.subscribe(
+      { kinds: [NIP46_KIND], '#p': [this.clientPubkey] },
+      event => this.handleEvent(event)
+    );
+  }
+
+  private handleEvent(event: NostrEvent): void {
+    if (!event.pubkey || (this.remotePubkey && event.pubkey !== this.remotePubkey)) {
+      return;
+    }
+
+    let response: Nip46Response;
+    try {
+      const conversationKey = getConversationKey(this.clientSecretKey, event.pubkey);
+      response = JSON.parse(decrypt(event.content, conversationKey));
+    } catch {
+      return;
+    }
+
+    if (!this.remotePubkey && this.connectWaiter) {
+      if (response.result === this.connectSecret) {
+        this.remotePubkey = event.pubkey;
+        clearTimeout(this.connectWaiter.timer);
+        this.connectWaiter.resolve(response.result);
+        this.connectWaiter = null;
+      }
+      return;
+    }
+
+    const request = this.pending.get(response.id);
+    if (!request) {
+      return;
+    }
+
+    if (response.result === 'auth_url') {
+      // The request stays pending until the user approves it at the given URL
+      if (response.error) {
+        this.options.onAuthUrl?.(response.error);
+      }
+      return;
+    }
+
+    clearTimeout(request.timer);
+    this.pending.delete(response.id);
+
+    if (response.error) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.result ?? '');
+    }
+  }
+
+  private async sendRequest(method: string, params: string[]): Promise<string> {
+    if (!this.remotePubkey) {
+      throw new Error('Remote signer has not connected yet');
+    }
+
+    this.listen();
+
+    const request: Nip46Request = {
+      id: `${this.clientPubkey.substring(0, 8)}-${++this.serial}`,
+      method,
+      params
+    };
+
+    const conversationKey = getConversationKey(this.clientSecretKey, this.remotePubkey);
+    const event = finalizeEvent({
+      kind: NIP46_KIND,
+      tags: [['p', this.remotePubkey]],
+      content: encrypt(JSON.stringify(request), conversationKey),
+      created_at: Math.round(Date.now() / 1000)
+    }, this.clientSecretKey);
+
+    const result = new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(request.id);
+        reject(new Error(`Remote signer did not respond to ${method} in time`));
+      }, this.requestTimeout);
+      this.pending.set(request.id, { resolve, reject, timer });
+    });
+
+    try {
+      await this.transport.publish(event);
+    } catch (error) {
+      const pending = this.pending.get(request.id);
+      if (pending) {
+        clearTimeout(pending.timer);
+        this.pending.delete(request.id);
+      }
+      throw new Error(`Failed to reach remote signer: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,92 @@
+import { InjectionToken } from '@angular/core';
+import type { Event } from 'nostr-tools/core';
+import { SimplePool } from 'nostr-tools/pool';
+import { Filter } from 'nostr-tools/filter';
+import { NostrEvent } from '../../shared/models/api.models';
+
+/**
+ * Message channel used by NIP-46 clients and signers to exchange kind 24133 events
+ */
+export interface Nip46Transport {
+  /** Publish a signed event */
+  publish(event: Event): Promise<void>;
+  subscribe(filter: Filter, onEvent: (event: NostrEvent) => void): () => void;
+  close(): void;
+}
+
+export type Nip46TransportFactory = (relays: string[]) => Nip46Transport;
+
+/**
+ * Creates the transport for a remote signer session. Tests override this to
+ * route traffic to an in-process MockBunker instead of real relays.
+ */
+export const NIP46_TRANSPORT_FACTORY = new InjectionToken<Nip46TransportFactory>('NIP46_TRANSPORT_FACTORY', {
+  providedIn: 'root',
+  factory: () => (relays: string[]) => new RelayNip46Transport(relays)
+});
+
+/**
+ * Transport that talks to the remote signer through Nostr relays
+ */
+export class RelayNip46Transport implements Nip46Transport {
+  constructor(
+    private relays: string[],
+    private pool: SimplePool = new SimplePool()
+  ) {}
+
+  async publish(event: Event): Promise<void> {
+    await Promise.any(this.pool.publish(this.relays, event));
+  }
+
+  subscribe(filter: Filter, onEvent: (event: NostrEvent) => void): () => void {
+    const sub = this.pool.subscribe(this.relays, filter, {
+      onevent: event => onEvent(event)
+    });
+    return () => sub.close();
+  }
+
+  close(): void {
+    this.pool.close(this.relays);
+  }
+}
+
+/**
+ * In-process transport that delivers events to every matching subscriber.
+ * Used together with MockBunker to run the NIP-46 handshake without relays.
+ */
+export class InMemoryNip46Transport implements Nip46Transport {
+  private subscribers = new Set<{ filter: Filter; onEvent: (event: NostrEvent) => void }>();
+
+  async publish(event: Event): Promise<void> {
+    for (const subscriber of Array.from(this.subscribers)) {
+      if (this.matches(subscriber.filter, event)) {
+        // Deliver asynchronously, like a relay would
+        queueMicrotask(() => subscriber.onEvent(event));
+      }
+    }
+  }
+
+  subscribe(filter: Filter, onEvent: (event: NostrEvent) => void): () => void {
+    const subscriber = { filter, onEvent };
+    this.subscribers.add(subscriber);
+    return () => this.subscribers.delete(subscriber);
+  }
+
+  close(): void {
+    this.subscribers.clear();
+  }
+
+  private matches(filter: Filter, event: NostrEvent): boolean {
+    if (filter.kinds && !filter.kinds.includes(event.kind)) {
+      return false;
+    }
+    if (filter.authors && (!event.pubkey || !filter.authors.includes(event.pubkey))) {
+      return false;
+    }
+    const pTags = filter['#p'];
+    if (pTags && !event.tags.some(t => t[0] === 'p' && pTags.includes(t[1]))) {
+      return false;
+    }
+    return true;
+  }
+}
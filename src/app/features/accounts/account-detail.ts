@@ -0,0 +1,167 @@
+import { Component, DestroyRef, WritableSignal, computed, effect, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { ApiService } from '../../core/services/api.service';
+import { AccessControlService } from '../../core/services/access-control.service';
+import { SessionService } from '../../core/services/session.service';
+import { AuthStatus } from '../../shared/components/auth-status/auth-status';
+import { SubscriptionAdjuster } from './subscription-adjuster';
+import { RequestScope } from '../../shared/utils/request-scope';
+import { UtilsService } from '../../shared/utils/utils.service';
+import {
+  Account, ApiResponse, BackupJobResponse, DevicesResponse, NotificationStatus, Payment, Permission,
+  SubscriptionEvent, UserSettings
+} from '../../shared/models/api.models';
+
+/** One independently loaded part of the page, so a failing endpoint doesn't hide the others */
+interface Section<T> {
+  loading: boolean;
+  error: string | null;
+  data: T | null;
+}
+
+function idle<T>(): Section<T> {
+  return { loading: false, error: null, data: null };
+}
+
+@Component({
+  selector: 'app-account-detail',
+  standalone: true,
+  imports: [CommonModule, RouterLink, AuthStatus, SubscriptionAdjuster],
+  templateUrl: './account-detail.html',
+  styleUrl: './account-detail.scss'
+})
+export class AccountDetail {
+  private requests: RequestScope;
+
+  pubkey = signal('');
+  invalidPubkey = computed(() => !this.utils.isValidPubkey(this.pubkey()));
+
+  account = signal<Section<Account>>(idle());
+  history = signal<Section<SubscriptionEvent[]>>(idle());
+  payments = signal<Section<Payment[]>>(idle());
+  backups = signal<Section<BackupJobResponse[]>>(idle());
+  notifications = signal<Section<NotificationStatus>>(idle());
+  devices = signal<Section<DevicesResponse>>(idle());
+  settings = signal<Section<UserSettings>>(idle());
+
+  readonly isExpired = computed(() => this.utils.isExpired(this.account().data?.expires));
+
+  constructor(
+    private apiService: ApiService,
+    protected session: SessionService,
+    protected access: AccessControlService,
+    protected utils: UtilsService,
+    route: ActivatedRoute,
+    destroyRef: DestroyRef
+  ) {
+    this.requests = new RequestScope(destroyRef);
+
+    route.paramMap.pipe(takeUntilDestroyed(destroyRef)).subscribe(params => {
+      this.pubkey.set((params.get('pubkey') ?? '').toLowerCase());
+      this.load();
+    });
+
+    // Account data must not outlive the admin session that loaded it
+    effect(() => {
+      if (!this.session.isAuthenticated()) {
+        this.requests.cancel('detail');
+        this.requests.cancel('history');
+        this.reset();
+      }
+    });
+  }
+
+  /**
+   * Load every section the admin may see, in parallel
+   */
+  load() {
+    this.reset();
+    if (this.invalidPubkey() || !this.session.isAuthenticated()) return;
+
+    const pubkey = this.pubkey();
+    const signal = this.requests.latest('detail');
+    const options = { signal };
+
+    this.loadSection(this.account, 'accounts:view', signal, () => this.apiService.getAccountAsAdmin(pubkey, options));
+    this.loadSection(this.history, 'accounts:view', signal, () => this.apiService.getSubscriptionHistory(pubkey, options));
+    this.loadSection(this.payments, 'payments:view', signal, () => this.apiService.listPayments({ pubkey }, options));
+    this.loadSection(this.backups, 'backups:manage', signal, async () => {
+      const response = await this.apiService.getAccountBackupJobs(pubkey, options);
+      return { ...response, data: response.data?.jobs ?? null };
+    });
+    this.loadSection(this.notifications, 'notifications:manage', signal, () => this.apiService.getAccountNotificationStatus(pubkey, options));
+    this.loadSection(this.devices, 'notifications:manage', signal, () => this.apiService.getAccountDevices(pubkey, options));
+    this.loadSection(this.settings, 'settings:users', signal, async () => {
+      const response = await this.apiService.getUserSettings(pubkey, options);
+      // Accounts that never saved settings have none, which isn't an error here
+      return response.error?.kind === 'not-found' ? { data: null, success: true } : response;
+    });
+  }
+
+  private reset() {
+    const sections: WritableSignal<Section<unknown>>[] = [
+      this.account, this.history, this.payments, this.backups, this.notifications, this.devices, this.settings
+    ];
+    sections.forEach(section => section.set(idle()));
+  }
+
+  private async loadSection<T>(
+    section: WritableSignal<Section<T>>,
+    permission: Permission,
+    signal: AbortSignal,
+    fetch: () => Promise<ApiResponse<T | null>>
+  ) {
+    if (!this.access.can(permission)) return;
+
+    section.set({ loading: true, error: null, data: null });
+    try {
+      const response = await fetch();
+      if (signal.aborted) return;
+      section.set(response.success
+        ? { loading: false, error: null, data: response.data ?? null }
+        : { loading: false, error: response.message || 'Failed to load', data: null });
+    } catch (error) {
+      if (signal.aborted) return;
+      section.set({ loading: false, error: error instanceof Error ? error.message : 'Unexpected error', data: null });
+    }
+  }
+
+  /**
+   * Show the adjusted account, and the history entries its extensions added
+   */
+  onAdjusted(account: Account) {
+    this.account.set({ loading: false, error: null, data: account });
+    const signal = this.requests.latest('history');
+    this.loadSection(this.history, 'accounts:view', signal, () => this.apiService.getSubscriptionHistory(account.pubkey, { signal }));
+  }
+
+  getTierDisplayName(tier: string): string {
+    switch (tier) {
+      case 'premium_plus': return 'Premium Plus';
+      case 'basic': return 'Basic';
+      case 'premium': return 'Premium';
+      case 'free': return 'Free';
+      default: return tier;
+    }
+  }
+
+  describeEvent(event: SubscriptionEvent): string {
+    switch (event.type) {
+      case 'signup': return 'Signed up';
+      case 'payment': return `Paid for ${this.getTierDisplayName(event.tier)}${event.billingCycle ? ` (${event.billingCycle})` : ''}`;
+      case 'extension': return `Extended by ${event.days} day${event.days === 1 ? '' : 's'} (admin)`;
+      // Event types added on the server after this build
+      default: return event.type;
+    }
+  }
+
+  async copyToClipboard(text: string): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error);
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { convertToParamMap } from '@angular/router';
+import {
+  DEFAULT_ACCOUNT_LIST_VIEW, accountListQuery, accountListViewParams, readAccountListView
+} from './account-list-view';
+
+describe('AccountListView', () => {
+  it('should round-trip a view through the query string, leaving out defaults', () => {
+    const view = { ...DEFAULT_ACCOUNT_LIST_VIEW, tier: 'premium' as const, hasUsername: 'no' as const, signupFrom: '2026-01-01' };
+
+    const params = accountListViewParams(view);
+
+    expect(params).toEqual({ tier: 'premium', hasUsername: 'no', signupFrom: '2026-01-01' });
+    expect(readAccountListView(convertToParamMap(params))).toEqual(view);
+  });
+
+  it('should ignore parameters it does not understand', () => {
+    const view = readAccountListView(convertToParamMap({ sort: 'pubkey', limit: '5000', signupTo: 'yesterday', status: 'expired' }));
+
+    expect(view).toEqual({ ...DEFAULT_ACCOUNT_LIST_VIEW, status: 'expired' });
+  });
+
+  it('should request whole days, including the last one', () => {
+    const query = accountListQuery({ ...DEFAULT_ACCOUNT_LIST_VIEW, xConnected: 'yes', signupFrom: '2026-03-01', signupTo: '2026-03-31' });
+
+    expect(query.xConnected).toBeTrue();
+    expect(query.hasUsername).toBeUndefined();
+    expect(query.signupFrom).toBe(Date.UTC(2026, 2, 1));
+    expect(query.signupTo).toBe(Date.UTC(2026, 3, 1));
+  });
+});
@@ -0,0 +1,83 @@
+import { ParamMap, Params } from '@angular/router';
+import { AccountListQuery, AccountSort, Tier } from '../../shared/models/api.models';
+
+/**
+ * What the account directory shows, as kept in the URL query string so a view can be
+ * shared: sort, filters and page size. Dates are the `YYYY-MM-DD` of a date input.
+ */
+export interface AccountListView {
+  sort: AccountSort;
+  order: 'asc' | 'desc';
+  tier: Tier | '';
+  status: 'active' | 'expired' | '';
+  hasUsername: 'yes' | 'no' | '';
+  xConnected: 'yes' | 'no' | '';
+  signupFrom: string;
+  signupTo: string;
+  limit: number;
+}
+
+export const DEFAULT_ACCOUNT_LIST_VIEW: AccountListView = {
+  sort: 'signupDate',
+  order: 'desc',
+  tier: '',
+  status: '',
+  hasUsername: '',
+  xConnected: '',
+  signupFrom: '',
+  signupTo: '',
+  limit: 100
+};
+
+export const MAX_ACCOUNT_PAGE_SIZE = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function pick<T extends string>(value: string | null, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? value as T : fallback;
+}
+
+/** The view a URL asks for; missing or invalid parameters fall back to the defaults */
+export function readAccountListView(params: ParamMap): AccountListView {
+  const defaults = DEFAULT_ACCOUNT_LIST_VIEW;
+  const date = (name: string) => DATE.test(params.get(name) ?? '') ? params.get(name)! : '';
+  const limit = Number(params.get('limit'));
+
+  return {
+    sort: pick(params.get('sort'), ['signupDate', 'lastLoginDate', 'expires', 'tier'], defaults.sort),
+    order: pick(params.get('order'), ['asc', 'desc'], defaults.order),
+    tier: pick(params.get('tier'), ['free', 'basic', 'premium', 'premium_plus'], defaults.tier),
+    status: pick(params.get('status'), ['active', 'expired'], defaults.status),
+    hasUsername: pick(params.get('hasUsername'), ['yes', 'no'], defaults.hasUsername),
+    xConnected: pick(params.get('xConnected'), ['yes', 'no'], defaults.xConnected),
+    signupFrom: date('signupFrom'),
+    signupTo: date('signupTo'),
+    limit: Number.isInteger(limit) && limit >= 1 && limit <= MAX_ACCOUNT_PAGE_SIZE ? limit : defaults.limit
+  };
+}
+
+/** Query parameters for a view, leaving out everything at its default so URLs stay short */
+export function accountListViewParams(view: AccountListView): Params {
+  const params: Params = {};
+  for (const key of Object.keys(DEFAULT_ACCOUNT_LIST_VIEW) as (keyof AccountListView)[]) {
+    if (view[key] !== DEFAULT_ACCOUNT_LIST_VIEW[key]) params[key] = view[key];
+  }
+  return params;
+}
+
+/** The first-page request for a view. Signup dates are whole UTC days, `signupTo` included. */
+export function accountListQuery(view: AccountListView): AccountListQuery {
+  const flag = (value: 'yes' | 'no' | '') => value ? value === 'yes' : undefined;
+  return {
+    sort: view.sort,
+    order: view.order,
+    tier: view.tier || undefined,
+    status: view.status || undefined,
+    hasUsername: flag(view.hasUsername),
+    xConnected: flag(view.xConnected),
+    signupFrom: view.signupFrom ? Date.parse(view.signupFrom) : undefined,
+    signupTo: view.signupTo ? Date.parse(view.signupTo) + DAY_MS : undefined,
+    limit: view.limit
+  };
+}
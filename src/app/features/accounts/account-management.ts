@@ -1,41 +1,42 @@
-import { Component, OnInit, signal } from '@angular/core';
+import { Component, DestroyRef, OnInit, Signal, computed, effect, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { CommonModule } from '@angular/common';
 import { FormsModule, ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
 import { ApiService } from '../../core/services/api.service';
+import { TierStore } from '../../core/services/tier-store.service';
 import { Nip98AuthService } from '../../core/services/nip98-auth.service';
-import { NostrExtensionService } from '../../core/services/nostr-extension.service';
+import { SessionService } from '../../core/services/session.service';
+import { AccessControlService } from '../../core/services/access-control.service';
+import { AuthStatus } from '../../shared/components/auth-status/auth-status';
+import { PubkeyInput } from '../../shared/components/pubkey-input/pubkey-input';
+import { pubkeyValidator } from '../../shared/utils/pubkey';
+import { RequestScope } from '../../shared/utils/request-scope';
+import {
+  AccountListView, DEFAULT_ACCOUNT_LIST_VIEW, MAX_ACCOUNT_PAGE_SIZE,
+  accountListQuery, accountListViewParams, readAccountListView
+} from './account-list-view';
+import { BulkAdjuster } from './bulk-adjuster';
+import { BulkRow } from './bulk-adjustment';
 import { 
-  TierDetails, Account, AddAccountRequest, UpdateAccountRequest 
+  TierDetails, Account, AddAccountRequest, UpdateAccountRequest, PublicAccount
 } from '../../shared/models/api.models';
 
-type AccountListResponse = {
-  pubkey: string;
-  username?: string;
-  created: number;
-  lastLoginDate?: number;
-  expires?: number;
-  tier: Account['tier'];
-  subscription?: {
-    entitlements?: Account['entitlements'];
-  };
-  xConnection?: Account['xConnection'];
-  xUsage?: Account['xUsage'];
-};
-
 @Component({
   selector: 'app-account-management',
   standalone: true,
-  imports: [CommonModule, FormsModule, ReactiveFormsModule],
+  imports: [CommonModule, FormsModule, ReactiveFormsModule, RouterLink, AuthStatus, PubkeyInput, BulkAdjuster],
   templateUrl: './account-management.html',
   styleUrl: './account-management.scss'
 })
 export class AccountManagement implements OnInit {
   private fb = new FormBuilder();
+  private requests: RequestScope;
 
   // Signals for reactive state management
-  tiers = signal<Record<string, TierDetails> | null>(null);
-  tiersLoading = signal(false);
-  tiersError = signal<string | null>(null);
+  tiers: Signal<Record<string, TierDetails> | null>;
+  tiersLoading: Signal<boolean>;
+  tiersError: Signal<string | null>;
   
   currentAccount = signal<Account | null>(null);
   
@@ -50,27 +51,35 @@ export class AccountManagement implements OnInit {
   usernameCheckResult = signal<any | null>(null);
   
   isLookingUp = signal(false);
-  lookupResult = signal<any | null>(null);
+  lookupResult = signal<PublicAccount | null>(null);
   lookupError = signal<string | null>(null);
 
-  extendingPubkey = signal<string | null>(null);
-  extendError = signal<string | null>(null);
-  extendSuccess = signal<string | null>(null);
-
-  // List accounts with NIP-98 auth (for when API becomes available)
+  // List accounts with NIP-98 auth, a page at a time
   isListingAccounts = signal(false);
+  isLoadingMore = signal(false);
   listAccountsError = signal<string | null>(null);
   listedAccounts = signal<Account[]>([]);
-  isNostrConnected = signal(false);
+  /** Whether a list has been loaded for the current filters, even an empty one */
+  accountsListed = signal(false);
+  nextCursor = signal<string | null>(null);
+  totalAccounts = signal<number | null>(null);
+
+  /** Accounts picked for a bulk action, kept across pages and filter changes */
+  selectedAccounts = signal<Map<string, Account>>(new Map());
+  selectedList = computed(() => [...this.selectedAccounts().values()]);
+  allListedSelected = computed(() =>
+    this.listedAccounts().length > 0 && this.listedAccounts().every(account => this.selectedAccounts().has(account.pubkey)));
+
+  readonly maxPageSize = MAX_ACCOUNT_PAGE_SIZE;
+  /** The sort and filters from the URL that the list shows */
+  private view: AccountListView = DEFAULT_ACCOUNT_LIST_VIEW;
+  private listRequested = false;
 
   lookupQuery = '';
   authToken = ''; // TODO: Implement proper auth token management
 
-  // Check if Nostr extension is available
-  isNostrExtensionAvailable = false;
-
   // Computed signal for tiers array
-  tiersArray = signal<TierDetails[]>([]);
+  tiersArray: Signal<TierDetails[]>;
 
   // Reactive forms
   createAccountForm: FormGroup;
@@ -79,11 +88,35 @@ export class AccountManagement implements OnInit {
 
   constructor(
     private apiService: ApiService,
+    private tierStore: TierStore,
     private nip98AuthService: Nip98AuthService,
-    private nostrExtensionService: NostrExtensionService
+    protected session: SessionService,
+    protected access: AccessControlService,
+    private router: Router,
+    private route: ActivatedRoute,
+    destroyRef: DestroyRef
   ) {
+    this.requests = new RequestScope(destroyRef);
+    this.tiers = tierStore.tiers;
+    this.tiersLoading = tierStore.loading;
+    this.tiersError = tierStore.error;
+    this.tiersArray = tierStore.tierList;
+
+    // Account data must not outlive the admin session that loaded it
+    effect(() => {
+      if (!this.session.isAuthenticated()) {
+        this.requests.cancel('list');
+        this.listedAccounts.set([]);
+        this.accountsListed.set(false);
+        this.nextCursor.set(null);
+        this.totalAccounts.set(null);
+        this.listAccountsError.set(null);
+        this.selectedAccounts.set(new Map());
+      }
+    });
+
     this.createAccountForm = this.fb.group({
-      pubkey: ['', [Validators.required, Validators.pattern(/^[a-fA-F0-9]{64}$/)]],
+      pubkey: ['', [Validators.required, pubkeyValidator]],
       username: [''],
       paymentId: ['']
     });
@@ -92,122 +125,43 @@ export class AccountManagement implements OnInit {
       username: ['']
     });
 
+    const defaults = DEFAULT_ACCOUNT_LIST_VIEW;
     this.listAccountsForm = this.fb.group({
-      limit: [100, [Validators.required, Validators.min(1), Validators.max(1000)]]
+      sort: [defaults.sort],
+      order: [defaults.order],
+      tier: [defaults.tier],
+      status: [defaults.status],
+      hasUsername: [defaults.hasUsername],
+      xConnected: [defaults.xConnected],
+      signupFrom: [defaults.signupFrom],
+      signupTo: [defaults.signupTo],
+      limit: [defaults.limit, [Validators.required, Validators.min(1), Validators.max(MAX_ACCOUNT_PAGE_SIZE)]]
+    });
+
+    // The URL holds the filters, so shared links open straight onto their results
+    route.queryParamMap.pipe(takeUntilDestroyed(destroyRef)).subscribe(params => {
+      this.view = readAccountListView(params);
+      this.listAccountsForm.setValue(this.view);
+      if (this.listRequested || params.keys.length > 0) {
+        this.listAccounts();
+      }
     });
   }
 
   ngOnInit() {
     this.loadTiers();
     this.loadCurrentAccount();
-    this.checkNostrExtension();
-  }
-
-  private checkNostrExtension() {
-    this.isNostrExtensionAvailable = this.nostrExtensionService.isExtensionAvailable();
-    // Set connected status based on extension availability for now
-    this.isNostrConnected.set(false);
-  }
-
-  async loadMockAccounts() {
-    // Mock account data for demonstration since there's no API yet
-    const mockAccounts: Account[] = [
-      {
-        pubkey: '8e9f64b35e7e4384b5248f1d4294f109bb8d3442b04d7c59a62c04e702441488',
-        username: 'alice',
-        signupDate: Math.floor(Date.now() / 1000) - 86400 * 30, // 30 days ago
-        lastLoginDate: Math.floor(Date.now() / 1000) - 3600, // 1 hour ago
-        expires: Math.floor(Date.now() / 1000) + 86400 * 335, // ~1 year from now
-        tier: 'basic',
-        entitlements: {
-          notificationsPerDay: 50,
-          features: [
-            { key: 'BASIC_WEBPUSH', label: 'Basic web push notifications' },
-            { key: 'USERNAME', label: 'Username in URL' },
-            { key: 'STORAGE_1GB', label: '1GB cloud storage' }
-          ]
-        }
-      },
-      {
-        pubkey: 'a1b2c3d4e5f6789012345678901234567890abcdef1234567890abcdef123456',
-        username: 'bob_nostr',
-        signupDate: Math.floor(Date.now() / 1000) - 86400 * 15, // 15 days ago
-        lastLoginDate: Math.floor(Date.now() / 1000) - 86400, // 1 day ago
-        expires: Math.floor(Date.now() / 1000) + 86400 * 350, // ~1 year from now
-        tier: 'premium_plus',
-        entitlements: {
-          notificationsPerDay: 500,
-          features: [
-            { key: 'BASIC_WEBPUSH', label: 'Basic web push notifications' },
-            { key: 'USERNAME', label: 'Username in URL' },
-            { key: 'NEWSLETTER', label: 'Newsletter' },
-            { key: 'STORAGE_50GB', label: '50GB cloud storage' },
-            { key: 'DUAL_POST_X_10', label: 'Dual post to X (max 10 posts/day)' },
-            { key: 'ANALYTICS', label: 'Analytics' },
-            { key: 'CLOUD_BACKUP_COMING_SOON', label: 'Cloud backup (coming soon)' },
-            { key: 'MEMOS', label: 'Memos' },
-            { key: 'YOUTUBE', label: 'YouTube' },
-            { key: 'EXTRA_BACKUP_FEATURES', label: 'Extra backup features' }
-          ]
-        }
-      },
-      {
-        pubkey: 'f1e2d3c4b5a6978901234567890abcdef1234567890abcdef1234567890abcde',
-        signupDate: Math.floor(Date.now() / 1000) - 86400 * 5, // 5 days ago
-        lastLoginDate: Math.floor(Date.now() / 1000) - 86400 * 2, // 2 days ago
-        tier: 'free',
-        entitlements: {
-          notificationsPerDay: 5,
-          features: [
-            { key: 'BASIC_WEBPUSH', label: 'Basic web push notifications' },
-            { key: 'COMMUNITY_SUPPORT', label: 'Community Support' }
-          ]
-        }
-      },
-      {
-        pubkey: '1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
-        username: 'developer',
-        signupDate: Math.floor(Date.now() / 1000) - 86400 * 60, // 60 days ago
-        lastLoginDate: Math.floor(Date.now() / 1000) - 43200, // 12 hours ago
-        expires: Math.floor(Date.now() / 1000) + 86400 * 305, // ~10 months from now
-        tier: 'premium',
-        entitlements: {
-          notificationsPerDay: 150,
-          features: [
-            { key: 'BASIC_WEBPUSH', label: 'Basic web push notifications' },
-            { key: 'USERNAME', label: 'Username in URL' },
-            { key: 'STORAGE_5GB', label: '5GB cloud storage' }
-          ]
-        }
-      }
-    ];
-    this.listedAccounts.set(mockAccounts);
   }
 
-  async loadTiers() {
-    this.tiersLoading.set(true);
-    this.tiersError.set(null);
-    
-    try {
-      const response = await this.apiService.getTiers();
-      if (response.success && response.data) {
-        this.tiers.set(response.data);
-        this.tiersArray.set(Object.values(response.data));
-      } else {
-        this.tiersError.set(response.message || 'Failed to load tiers');
-      }
-    } catch (error) {
-      this.tiersError.set('Network error loading tiers');
-    } finally {
-      this.tiersLoading.set(false);
-    }
+  loadTiers() {
+    return this.tierStore.load();
   }
 
   async loadCurrentAccount() {
     if (!this.authToken) return;
     
     try {
-      const response = await this.apiService.getAccount(this.authToken);
+      const response = await this.apiService.getAccount(this.authToken, { signal: this.requests.signal });
       if (response.success && response.data) {
         this.currentAccount.set(response.data);
       }
@@ -239,7 +193,7 @@ export class AccountManagement implements OnInit {
         this.createAccountError.set(response.message || 'Failed to create account');
       }
     } catch (error) {
-      this.createAccountError.set('Network error creating account');
+      this.createAccountError.set(error instanceof Error ? error.message : 'Unexpected error creating account');
     } finally {
       this.isCreatingAccount.set(false);
     }
@@ -266,7 +220,7 @@ export class AccountManagement implements OnInit {
         this.updateAccountError.set(response.message || 'Failed to update account');
       }
     } catch (error) {
-      this.updateAccountError.set('Network error updating account');
+      this.updateAccountError.set(error instanceof Error ? error.message : 'Unexpected error updating account');
     } finally {
       this.isUpdatingAccount.set(false);
     }
@@ -276,13 +230,15 @@ export class AccountManagement implements OnInit {
     const username = this.createAccountForm.get('username')?.value;
     if (!username) return;
 
+    const signal = this.requests.latest('username');
     try {
-      const response = await this.apiService.checkUsername(username);
+      const response = await this.apiService.checkUsername(username, { signal });
+      if (signal.aborted) return;
       this.usernameCheckResult.set(response);
     } catch (error) {
       this.usernameCheckResult.set({
         success: false,
-        message: 'Network error checking username'
+        message: error instanceof Error ? error.message : 'Unexpected error checking username'
       });
     }
   }
@@ -290,21 +246,26 @@ export class AccountManagement implements OnInit {
   async lookupAccount() {
     if (!this.lookupQuery) return;
 
+    const query = this.lookupQuery;
+    const signal = this.requests.latest('lookup');
     this.isLookingUp.set(true);
     this.lookupError.set(null);
     this.lookupResult.set(null);
 
     try {
-      const response = await this.apiService.getPublicAccount(this.lookupQuery);
+      const response = await this.apiService.getPublicAccount(query, { signal });
+      if (signal.aborted) return;
       if (response.success) {
-        this.lookupResult.set(response.data?.result || response.data);
+        this.lookupResult.set(response.data);
       } else {
-        this.lookupError.set(response.message || 'Account not found');
+        this.lookupError.set(response.error?.kind === 'not-found'
+          ? `No account found for ${query}`
+          : response.message || 'Failed to look up account');
       }
     } catch (error) {
-      this.lookupError.set('Network error looking up account');
+      this.lookupError.set(error instanceof Error ? error.message : 'Unexpected error looking up account');
     } finally {
-      this.isLookingUp.set(false);
+      if (!signal.aborted) this.isLookingUp.set(false);
     }
   }
 
@@ -318,38 +279,54 @@ export class AccountManagement implements OnInit {
     return (priceCents / 100).toFixed(2);
   }
 
-  // Nostr Extension Methods
-  async connectToNostr() {
-    this.listAccountsError.set(null);
-    
-    try {
-      await this.nostrExtensionService.connect();
-      this.isNostrConnected.set(true);
-    } catch (error) {
-      this.listAccountsError.set(
-        error instanceof Error ? error.message : 'Failed to connect to Nostr extension'
-      );
+  /**
+   * Put the form's filters into the URL, which loads the first page for them
+   */
+  applyFilters() {
+    if (this.listAccountsForm.invalid) return;
+
+    this.listRequested = true;
+    const params = accountListViewParams(this.listAccountsForm.value);
+    if (JSON.stringify(params) === JSON.stringify(accountListViewParams(this.view))) {
+      // Same URL, so the router won't emit; reload instead
+      this.listAccounts();
+    } else {
+      this.router.navigate([], { relativeTo: this.route, queryParams: params });
     }
   }
 
-  // List accounts method (now with real API)
-  async listAccounts() {
-    if (this.listAccountsForm.invalid || !this.isNostrConnected()) return;
+  resetFilters() {
+    this.listAccountsForm.reset(DEFAULT_ACCOUNT_LIST_VIEW);
+    this.applyFilters();
+  }
 
-    this.isListingAccounts.set(true);
+  loadMoreAccounts() {
+    const cursor = this.nextCursor();
+    if (cursor && !this.isLoadingMore()) {
+      this.listAccounts(cursor);
+    }
+  }
+
+  /**
+   * Load a page of accounts for the filters in the URL
+   * @param cursor The page after the ones already listed; the first page when omitted
+   */
+  async listAccounts(cursor?: string) {
+    if (!this.session.isAuthenticated()) return;
+
+    const signal = this.requests.latest('list');
+    this.isListingAccounts.set(!cursor);
+    this.isLoadingMore.set(!!cursor);
     this.listAccountsError.set(null);
 
     try {
-      const limit = this.listAccountsForm.get('limit')?.value || 50;
-      
       // Real API call using NIP-98 authentication
-      const response = await this.apiService.makeAuthenticatedRequest<AccountListResponse[]>(`/account/list?limit=${limit}`, {
-        method: 'GET'
-      });
+      const response = await this.apiService.listAccounts({ ...accountListQuery(this.view), cursor }, { signal });
+      if (signal.aborted) return;
 
       if (response.success && response.data) {
         // Convert AccountList objects to Account objects for display
-        const accounts: Account[] = response.data.map((accountList) => ({
+        const accounts: Account[] = response.data.accounts.map((accountList) => ({
           pubkey: accountList.pubkey,
           username: accountList.username,
           signupDate: accountList.created,
@@ -363,23 +340,73 @@ export class AccountManagement implements OnInit {
           xConnection: accountList.xConnection,
           xUsage: accountList.xUsage,
         }));
-        this.listedAccounts.set(accounts);
+        this.listedAccounts.set(cursor ? [...this.listedAccounts(), ...accounts] : accounts);
+        this.accountsListed.set(true);
+        this.nextCursor.set(response.data.nextCursor ?? null);
+        this.totalAccounts.set(response.data.total ?? null);
       } else {
-        this.listAccountsError.set(response.message || 'Failed to load accounts');
+        this.listAccountsError.set(response.error?.kind === 'auth'
+          ? `${response.message} — the server did not accept this identity as an admin`
+          : response.message || 'Failed to load accounts');
       }
     } catch (error) {
       this.listAccountsError.set(
-        error instanceof Error ? error.message : 'Network error loading accounts'
+        error instanceof Error ? error.message : 'Unexpected error loading accounts'
       );
     } finally {
-      this.isListingAccounts.set(false);
+      if (!signal.aborted) {
+        this.isListingAccounts.set(false);
+        this.isLoadingMore.set(false);
+      }
     }
   }
 
-  disconnectNostr() {
-    this.nostrExtensionService.disconnect();
-    this.isNostrConnected.set(false);
-    this.listAccountsError.set(null);
+  isSelected(pubkey: string): boolean {
+    return this.selectedAccounts().has(pubkey);
+  }
+
+  toggleSelected(account: Account) {
+    this.selectedAccounts.update(selected => {
+      const next = new Map(selected);
+      if (!next.delete(account.pubkey)) next.set(account.pubkey, account);
+      return next;
+    });
+  }
+
+  /** Select every loaded account, or unselect them all if they already are */
+  toggleAllListed() {
+    const select = !this.allListedSelected();
+    this.selectedAccounts.update(selected => {
+      const next = new Map(selected);
+      this.listedAccounts().forEach(account => select ? next.set(account.pubkey, account) : next.delete(account.pubkey));
+      return next;
+    });
+  }
+
+  clearSelection() {
+    this.selectedAccounts.set(new Map());
+  }
+
+  /**
+   * Show the new tier and expiry of bulk-adjusted accounts without reloading the list
+   */
+  onBulkAdjusted(rows: BulkRow[]) {
+    const after = new Map(rows.map(row => [row.pubkey, row.after]));
+    const patch = (account: Account): Account => {
+      const state = after.get(account.pubkey);
+      if (!state) return account;
+      return {
+        ...account,
+        tier: state.tier,
+        expires: state.expires,
+        entitlements: {
+          notificationsPerDay: this.getNotificationsPerDayForTier(state.tier),
+          features: this.getFeaturesForTier(state.tier)
+        }
+      };
+    };
+    this.listedAccounts.update(accounts => accounts.map(patch));
+    this.selectedAccounts.update(selected => new Map([...selected].map(([pubkey, account]) => [pubkey, patch(account)])));
   }
 
   getAccountStatusClass(account: Account): string {
@@ -466,34 +493,6 @@ export class AccountManagement implements OnInit {
     }
   }
 
-  async extendSubscription(account: Account, duration: { months: 1 } | { weeks: 1 }) {
-    this.extendingPubkey.set(account.pubkey);
-    this.extendError.set(null);
-    this.extendSuccess.set(null);
-
-    const label = 'months' in duration ? '1 month' : '1 week';
-
-    try {
-      const response = await this.apiService.extendSubscription(account.pubkey, duration);
-      if (response.success) {
-        this.extendSuccess.set(`Subscription extended by ${label} for ${account.pubkey.substring(0, 8)}...`);
-        // Update the account's expiry in the local list
-        if (response.data?.newExpires) {
-          const updated = this.listedAccounts().map(a =>
-            a.pubkey === account.pubkey ? { ...a, expires: response.data.newExpires } : a
-          );
-          this.listedAccounts.set(updated);
-        }
-      } else {
-        this.extendError.set(response.message || 'Failed to extend subscription');
-      }
-    } catch (error) {
-      this.extendError.set(error instanceof Error ? error.message : 'Network error extending subscription');
-    } finally {
-      this.extendingPubkey.set(null);
-    }
-  }
-
   getNotificationsPerDayForTier(tier: string): number {
     switch (tier) {
       case 'premium_plus': return 500;
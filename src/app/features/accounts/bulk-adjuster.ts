@@ -0,0 +1,158 @@
+import { Component, DestroyRef, OnInit, effect, input, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormControl, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { SubscriptionAdjustmentService } from '../../core/services/subscription-adjustment.service';
+import { TierStore } from '../../core/services/tier-store.service';
+import { UtilsService } from '../../shared/utils/utils.service';
+import { Account, SubscriptionAdjustment, SubscriptionState, Tier } from '../../shared/models/api.models';
+import { BulkAdjustmentRun, BulkRow, DEFAULT_BULK_RUN_OPTIONS, MAX_BULK_CONCURRENCY, bulkReportCsv } from './bulk-adjustment';
+import {
+  AdjustmentForm, DEFAULT_ADJUSTMENT_FORM, MAX_REASON_LENGTH, buildAdjustment, describeAdjustment
+} from './subscription-adjustment';
+
+/**
+ * Adding time takes a signed request per month or week and account, so bulk runs
+ * only change tiers, which the unsigned admin settings endpoint does
+ */
+const BULK_ADJUSTMENT_FORM: AdjustmentForm = { ...DEFAULT_ADJUSTMENT_FORM, action: 'change-tier', prorate: false };
+
+/**
+ * Changes the tier of the selected accounts, or revokes them, with live
+ * per-account results, pause and resume, and a downloadable report.
+ */
+@Component({
+  selector: 'app-bulk-adjuster',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule],
+  templateUrl: './bulk-adjuster.html',
+  styleUrl: './bulk-adjuster.scss'
+})
+export class BulkAdjuster implements OnInit {
+  private fb = new FormBuilder();
+
+  readonly accounts = input.required<Account[]>();
+  /** The accounts adjusted since the last time a run settled */
+  readonly adjusted = output<BulkRow[]>();
+
+  readonly maxReasonLength = MAX_REASON_LENGTH;
+  readonly maxConcurrency = MAX_BULK_CONCURRENCY;
+  form: FormGroup;
+
+  /** The change awaiting confirmation */
+  pending = signal<SubscriptionAdjustment | null>(null);
+  run = signal<BulkAdjustmentRun | null>(null);
+  error = signal<string | null>(null);
+  /** Accounts of the current run already passed to `adjusted` */
+  private emitted = new Set<string>();
+
+  constructor(
+    private adjustments: SubscriptionAdjustmentService,
+    protected tierStore: TierStore,
+    protected utils: UtilsService,
+    destroyRef: DestroyRef
+  ) {
+    this.form = this.fb.group({
+      ...BULK_ADJUSTMENT_FORM,
+      reason: [BULK_ADJUSTMENT_FORM.reason, [Validators.required, Validators.maxLength(MAX_REASON_LENGTH)]],
+      concurrency: new FormControl(DEFAULT_BULK_RUN_OPTIONS.concurrency, {
+        nonNullable: true,
+        validators: [Validators.required, Validators.min(1), Validators.max(MAX_BULK_CONCURRENCY)]
+      })
+    });
+
+    // Leaving the page or signing out sends nothing more; accounts in flight still finish
+    destroyRef.onDestroy(() => this.run()?.stop());
+
+    // A retry finishes the run again; only report the accounts it adjusted
+    effect(() => {
+      const run = this.run();
+      if (!run?.finished()) return;
+      const rows = run.rows().filter(row => row.status === 'succeeded' && !this.emitted.has(row.pubkey));
+      rows.forEach(row => this.emitted.add(row.pubkey));
+      if (rows.length > 0) {
+        this.adjusted.emit(rows);
+      }
+    });
+  }
+
+  ngOnInit() {
+    this.tierStore.load();
+  }
+
+  get action(): SubscriptionAdjustment['action'] {
+    return this.form.get('action')?.value;
+  }
+
+  /** Accounts adjusted at once */
+  get concurrency(): FormControl<number> {
+    return this.form.get('concurrency') as FormControl<number>;
+  }
+
+  /**
+   * Check the form and show the change and the accounts for confirmation
+   */
+  review() {
+    const adjustment = buildAdjustment(this.form.value as AdjustmentForm);
+    this.error.set(null);
+    if (typeof adjustment === 'string') {
+      this.form.markAllAsTouched();
+      this.error.set(adjustment);
+      return;
+    }
+    this.pending.set(adjustment);
+  }
+
+  /**
+   * Start applying the confirmed change to the selected accounts
+   */
+  confirm() {
+    const adjustment = this.pending();
+    if (!adjustment) return;
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      this.pending.set(null);
+      this.error.set('Check the form before confirming');
+      return;
+    }
+
+    const run = new BulkAdjustmentRun(
+      this.accounts(),
+      account => this.adjustments.adjust(account, adjustment),
+      { concurrency: this.concurrency.value }
+    );
+    this.emitted.clear();
+    this.run.set(run);
+    run.start();
+  }
+
+  /** Back to the form, keeping what was entered */
+  cancel() {
+    this.pending.set(null);
+  }
+
+  /** Put a settled run away and start over with the current selection */
+  reset() {
+    this.run.set(null);
+    this.pending.set(null);
+    this.form.reset({ ...BULK_ADJUSTMENT_FORM, ...DEFAULT_BULK_RUN_OPTIONS });
+  }
+
+  downloadReport() {
+    const run = this.run();
+    if (run) {
+      this.utils.downloadAsFile(bulkReportCsv(run.rows()), `bulk-adjustment-${Date.now()}.csv`, 'text/csv');
+    }
+  }
+
+  describe(adjustment: SubscriptionAdjustment): string {
+    return describeAdjustment(adjustment, tier => this.tierName(tier));
+  }
+
+  tierName(tier: Tier): string {
+    return this.tierStore.tiers()?.[tier]?.name ?? tier;
+  }
+
+  describeExpiry(state: SubscriptionState): string {
+    return state.expires === undefined ? 'Never' : this.utils.formatDate(state.expires);
+  }
+}
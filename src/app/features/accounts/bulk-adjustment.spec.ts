@@ -0,0 +1,91 @@
+import { ApiResponse, SubscriptionState } from '../../shared/models/api.models';
+import { BulkAccount, BulkAdjustmentRun, bulkReportCsv } from './bulk-adjustment';
+
+describe('BulkAdjustmentRun', () => {
+  type Outcome = ApiResponse<SubscriptionState>;
+  const accounts = ['a', 'b', 'c', 'd', 'e'].map(letter => ({ pubkey: letter.repeat(64), username: letter, tier: 'basic' as const }));
+  let sent: { pubkey: string; answer: (response: Outcome) => void; fail: (error: Error) => void }[];
+
+  const send = ({ pubkey }: BulkAccount) => new Promise<Outcome>((answer, fail) => {
+    sent.push({ pubkey, answer, fail });
+  });
+  const succeed: Outcome = { success: true, data: { tier: 'premium' } };
+  const settle = () => new Promise(resolve => setTimeout(resolve));
+
+  beforeEach(() => {
+    sent = [];
+  });
+
+  it('should adjust accounts up to the concurrency limit and carry on as they finish', async () => {
+    const run = new BulkAdjustmentRun(accounts, send, { concurrency: 2 });
+    run.start();
+
+    expect(sent.map(request => request.pubkey)).toEqual([accounts[0].pubkey, accounts[1].pubkey]);
+    expect(run.counts().running).toBe(2);
+
+    sent[0].answer(succeed);
+    await settle();
+    expect(sent.length).toBe(3);
+    expect(run.counts().succeeded).toBe(1);
+
+    sent.slice(1).forEach(request => request.answer(succeed));
+    await settle();
+    sent.slice(3).forEach(request => request.answer(succeed));
+    await settle();
+    expect(run.finished()).toBeTrue();
+    expect(run.counts().succeeded).toBe(5);
+  });
+
+  it('should report failures per account and retry only those', async () => {
+    const run = new BulkAdjustmentRun(accounts.slice(0, 3), send, { concurrency: 3 });
+    run.start();
+
+    sent[0].answer(succeed);
+    sent[1].answer({ success: false, data: null as never, message: 'The account is already on the free tier' });
+    sent[2].fail(new Error('Failed to sign'));
+    await settle();
+
+    expect(run.rows().map(row => row.status)).toEqual(['succeeded', 'failed', 'failed']);
+    // Before is what the list showed, so it needs no lookup
+    expect(run.rows()[0]).toEqual(jasmine.objectContaining({ before: { tier: 'basic', expires: undefined }, after: { tier: 'premium' } }));
+    expect(run.rows()[1].error).toBe('The account is already on the free tier');
+    expect(run.rows()[2].error).toBe('Failed to sign');
+
+    run.retry();
+    expect(sent.slice(3).map(request => request.pubkey)).toEqual([accounts[1].pubkey, accounts[2].pubkey]);
+  });
+
+  it('should let accounts in flight finish when paused or stopped', async () => {
+    const run = new BulkAdjustmentRun(accounts, send, { concurrency: 1 });
+    run.start();
+    run.pause();
+
+    sent[0].answer(succeed);
+    await settle();
+    expect(sent.length).toBe(1);
+    expect(run.finished()).toBeFalse();
+
+    run.start();
+    expect(sent.length).toBe(2);
+    run.stop();
+    sent[1].answer(succeed);
+    await settle();
+
+    expect(run.finished()).toBeTrue();
+    expect(run.counts()).toEqual({ queued: 0, running: 0, succeeded: 2, failed: 0, skipped: 3 });
+  });
+
+  it('should write a CSV report with a line per account', () => {
+    const csv = bulkReportCsv([
+      { pubkey: 'a', username: 'alice', status: 'succeeded', before: { tier: 'basic' }, after: { tier: 'premium', expires: Date.UTC(2026, 0, 1) } },
+      { pubkey: 'b', status: 'failed', error: 'Pick a different, existing tier' }
+    ]);
+
+    expect(csv.split('\n')).toEqual([
+      'pubkey,username,status,tier_before,expires_before,tier_after,expires_after,error',
+      'a,alice,succeeded,basic,,premium,2026-01-01T00:00:00.000Z,',
+      'b,,failed,,,,,"Pick a different, existing tier"',
+      ''
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+import { computed, signal } from '@angular/core';
+import { Account, ApiResponse, SubscriptionState } from '../../shared/models/api.models';
+
+export const MAX_BULK_CONCURRENCY = 5;
+
+export interface BulkRunOptions {
+  /** Accounts adjusted at once */
+  concurrency: number;
+}
+
+export const DEFAULT_BULK_RUN_OPTIONS: BulkRunOptions = { concurrency: 2 };
+
+export type BulkRowStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+/** An account as the list loaded it; its tier and expiry are the `before` of a run */
+export type BulkAccount = Pick<Account, 'pubkey' | 'username' | 'tier' | 'expires'>;
+
+/** One account of a bulk run */
+export interface BulkRow {
+  pubkey: string;
+  username?: string;
+  status: BulkRowStatus;
+  before?: SubscriptionState;
+  after?: SubscriptionState;
+  error?: string;
+}
+
+/** Adjusts one account; SubscriptionAdjustmentService.adjust with the adjustment filled in */
+export type BulkAccountSender = (account: BulkAccount) => Promise<ApiResponse<SubscriptionState>>;
+
+/**
+ * Applies one change to many accounts, one account at a time per slot. Pausing or
+ * stopping lets the accounts in flight finish, since the server may already have
+ * applied part of their change.
+ */
+export class BulkAdjustmentRun {
+  readonly rows = signal<BulkRow[]>([]);
+  readonly paused = signal(false);
+  /** Accounts sent and not yet answered */
+  readonly inFlight = signal(0);
+
+  readonly counts = computed(() => {
+    const counts: Record<BulkRowStatus, number> = { queued: 0, running: 0, succeeded: 0, failed: 0, skipped: 0 };
+    this.rows().forEach(row => counts[row.status]++);
+    return counts;
+  });
+  readonly finished = computed(() => this.inFlight() === 0 && this.counts().queued === 0);
+
+  private readonly options: BulkRunOptions;
+  private readonly accounts: Map<string, BulkAccount>;
+
+  constructor(accounts: BulkAccount[], private send: BulkAccountSender, options: Partial<BulkRunOptions> = {}) {
+    this.accounts = new Map(accounts.map(account => [account.pubkey, account]));
+    this.rows.set(accounts.map(({ pubkey, username, tier, expires }) => ({ pubkey, username, status: 'queued', before: { tier, expires } })));
+    this.options = {
+      concurrency: clamp(options.concurrency ?? DEFAULT_BULK_RUN_OPTIONS.concurrency, MAX_BULK_CONCURRENCY)
+    };
+  }
+
+  start(): void {
+    this.paused.set(false);
+    this.pump();
+  }
+
+  /** Stop sending accounts until resumed */
+  pause(): void {
+    this.paused.set(true);
+  }
+
+  /** Skip every account not sent yet */
+  stop(): void {
+    this.update(row => row.status === 'queued' ? { ...row, status: 'skipped' } : row);
+  }
+
+  /** Queue failed and skipped accounts again, and carry on */
+  retry(): void {
+    this.update(row => row.status === 'failed' || row.status === 'skipped'
+      ? { pubkey: row.pubkey, username: row.username, status: 'queued', before: row.before }
+      : row);
+    this.start();
+  }
+
+  /** Send accounts until the concurrency limit, the end of the queue or a pause */
+  private pump(): void {
+    while (!this.paused() && this.inFlight() < this.options.concurrency) {
+      const next = this.rows().find(row => row.status === 'queued');
+      if (!next) return;
+      this.sendAccount(next.pubkey);
+    }
+  }
+
+  private async sendAccount(pubkey: string): Promise<void> {
+    this.update(row => row.pubkey === pubkey ? { ...row, status: 'running' } : row);
+    this.inFlight.update(count => count + 1);
+
+    let settled: Partial<BulkRow>;
+    try {
+      const response = await this.send(this.accounts.get(pubkey)!);
+      settled = response.success
+        ? { status: 'succeeded', after: response.data }
+        : { status: 'failed', error: response.message || 'Failed' };
+    } catch (error) {
+      settled = { status: 'failed', error: error instanceof Error ? error.message : 'Unexpected error adjusting the account' };
+    }
+
+    this.update(row => row.pubkey === pubkey ? { ...row, ...settled } : row);
+    this.inFlight.update(count => count - 1);
+    this.pump();
+  }
+
+  private update(change: (row: BulkRow) => BulkRow): void {
+    this.rows.update(rows => rows.map(change));
+  }
+}
+
+function clamp(value: number, max: number): number {
+  return Math.min(Math.max(Math.floor(value) || 1, 1), max);
+}
+
+/**
+ * The rows of a run as CSV, one line per account, with ISO dates
+ */
+export function bulkReportCsv(rows: BulkRow[]): string {
+  const date = (expires?: number) => expires === undefined ? '' : new Date(expires).toISOString();
+  const cell = (value = '') => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const lines = rows.map(row => [
+    row.pubkey,
+    row.username,
+    row.status,
+    row.before?.tier,
+    row.before ? date(row.before.expires) : '',
+    row.after?.tier,
+    row.after ? date(row.after.expires) : '',
+    row.error
+  ].map(value => cell(value)).join(','));
+  return ['pubkey,username,status,tier_before,expires_before,tier_after,expires_after,error', ...lines].join('\n') + '\n';
+}
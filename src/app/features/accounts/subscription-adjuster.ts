@@ -0,0 +1,152 @@
+import { Component, DestroyRef, OnInit, input, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { MAX_EXTEND_REQUESTS, SubscriptionAdjustmentService } from '../../core/services/subscription-adjustment.service';
+import { TierStore } from '../../core/services/tier-store.service';
+import { RequestScope } from '../../shared/utils/request-scope';
+import { UtilsService } from '../../shared/utils/utils.service';
+import {
+  Account, SubscriptionAdjustment, SubscriptionAdjustmentPlan, SubscriptionState, Tier
+} from '../../shared/models/api.models';
+import {
+  AdjustmentForm, DEFAULT_ADJUSTMENT_FORM, MAX_REASON_LENGTH, buildAdjustment, describeAdjustment
+} from './subscription-adjustment';
+
+/**
+ * Extends, re-dates, re-tiers or revokes one account's subscription. Every change
+ * needs a reason and is planned against the account as the server has it, so the
+ * admin confirms the before and after, and the requests it takes.
+ */
+@Component({
+  selector: 'app-subscription-adjuster',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule],
+  templateUrl: './subscription-adjuster.html',
+  styleUrl: './subscription-adjuster.scss'
+})
+export class SubscriptionAdjuster implements OnInit {
+  private fb = new FormBuilder();
+  private requests: RequestScope;
+
+  readonly account = input.required<Account>();
+  /** The account with the tier and expiry the adjustment left */
+  readonly adjusted = output<Account>();
+
+  readonly maxReasonLength = MAX_REASON_LENGTH;
+  readonly maxExtendRequests = MAX_EXTEND_REQUESTS;
+  form: FormGroup;
+
+  /** The planned change awaiting confirmation */
+  pending = signal<{ adjustment: SubscriptionAdjustment; plan: SubscriptionAdjustmentPlan } | null>(null);
+  isPreviewing = signal(false);
+  isApplying = signal(false);
+  error = signal<string | null>(null);
+  success = signal<string | null>(null);
+
+  constructor(
+    private adjustments: SubscriptionAdjustmentService,
+    protected tierStore: TierStore,
+    protected utils: UtilsService,
+    destroyRef: DestroyRef
+  ) {
+    this.requests = new RequestScope(destroyRef);
+    this.form = this.fb.group({
+      ...DEFAULT_ADJUSTMENT_FORM,
+      reason: [DEFAULT_ADJUSTMENT_FORM.reason, [Validators.required, Validators.maxLength(MAX_REASON_LENGTH)]]
+    });
+  }
+
+  ngOnInit() {
+    this.tierStore.load();
+  }
+
+  get action(): SubscriptionAdjustment['action'] {
+    return this.form.get('action')?.value;
+  }
+
+  /**
+   * Work out what the adjustment would change, and show it for confirmation
+   */
+  async review() {
+    const adjustment = buildAdjustment(this.form.value as AdjustmentForm);
+    this.error.set(null);
+    this.success.set(null);
+    if (typeof adjustment === 'string') {
+      this.form.markAllAsTouched();
+      this.error.set(adjustment);
+      return;
+    }
+
+    this.isPreviewing.set(true);
+    const signal = this.requests.latest('preview');
+    try {
+      const response = await this.adjustments.plan(this.account().pubkey, adjustment, { signal });
+      // A newer review, Back or leaving the page owns the state now
+      if (signal.aborted) return;
+      if (response.success) {
+        this.pending.set({ adjustment, plan: response.data });
+      } else {
+        this.error.set(response.message || 'Failed to plan the adjustment');
+      }
+    } catch (error) {
+      if (signal.aborted) return;
+      this.error.set(error instanceof Error ? error.message : 'Unexpected error planning the adjustment');
+    }
+    this.isPreviewing.set(false);
+  }
+
+  /**
+   * Apply the confirmed adjustment
+   */
+  async confirm() {
+    const pending = this.pending();
+    if (!pending) return;
+
+    this.isApplying.set(true);
+    this.error.set(null);
+    try {
+      const response = await this.adjustments.apply(this.account().pubkey, pending.plan, pending.adjustment.reason);
+      if (response.success) {
+        this.pending.set(null);
+        this.form.reset(DEFAULT_ADJUSTMENT_FORM);
+        this.success.set(`${this.describe(pending.adjustment)}: done`);
+        this.adjusted.emit({ ...this.account(), ...response.data });
+      } else {
+        this.error.set(response.message || 'Failed to adjust the subscription');
+      }
+    } catch (error) {
+      this.error.set(error instanceof Error ? error.message : 'Unexpected error adjusting the subscription');
+    } finally {
+      this.isApplying.set(false);
+    }
+  }
+
+  /** Back to the form, keeping what was entered */
+  cancel() {
+    this.requests.cancel('preview');
+    this.pending.set(null);
+  }
+
+  describe(adjustment: SubscriptionAdjustment): string {
+    return describeAdjustment(adjustment, tier => this.tierName(tier));
+  }
+
+  /** The requests a plan takes, in the order they are sent */
+  describeRequests(plan: SubscriptionAdjustmentPlan): string {
+    const requests = [
+      plan.tier ? `set the tier to ${this.tierName(plan.tier)}` : '',
+      plan.months ? `${plan.months} × extend by a month (30 days)` : '',
+      plan.weeks ? `${plan.weeks} × extend by a week` : ''
+    ].filter(request => request);
+    return requests.length ? `Requests: ${requests.join(', ')}` : 'Nothing to change';
+  }
+
+  tierName(tier: Tier): string {
+    return this.tierStore.tiers()?.[tier]?.name ?? tier;
+  }
+
+  describeExpiry(state: SubscriptionState): string {
+    if (state.expires === undefined) return 'Never';
+    return `${this.utils.formatDate(state.expires)} (${this.utils.getTimeUntilExpiration(state.expires)})`;
+  }
+}
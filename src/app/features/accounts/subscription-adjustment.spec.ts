@@ -0,0 +1,29 @@
+import { DEFAULT_ADJUSTMENT_FORM, buildAdjustment, describeAdjustment } from './subscription-adjustment';
+
+describe('SubscriptionAdjustment', () => {
+  const now = Date.parse('2026-06-01T12:00');
+  const form = { ...DEFAULT_ADJUSTMENT_FORM, reason: '  Goodwill for the outage ' };
+
+  it('should require a reason for every action', () => {
+    expect(buildAdjustment({ ...form, reason: ' ', action: 'revoke' }, now)).toBe('Give a reason for the adjustment');
+    expect(buildAdjustment({ ...form, action: 'revoke' }, now)).toEqual({ action: 'revoke', reason: 'Goodwill for the outage' });
+  });
+
+  it('should only send the durations that were filled in', () => {
+    expect(buildAdjustment({ ...form, weeks: 2 }, now)).toEqual({ action: 'extend', weeks: 2, reason: 'Goodwill for the outage' });
+    expect(typeof buildAdjustment({ ...form, weeks: 1.5 }, now)).toBe('string');
+    expect(typeof buildAdjustment(form, now)).toBe('string');
+  });
+
+  it('should only accept an expiry in the future', () => {
+    expect(buildAdjustment({ ...form, action: 'set-expiry', expires: '2026-05-01' }, now)).toBe('The new expiry must be in the future');
+    expect(buildAdjustment({ ...form, action: 'set-expiry', expires: '2026-07-01' }, now))
+      .toEqual({ action: 'set-expiry', expires: Date.parse('2026-07-01T00:00'), reason: 'Goodwill for the outage' });
+  });
+
+  it('should describe adjustments in a line', () => {
+    const name = (tier: string) => tier.toUpperCase();
+    expect(describeAdjustment({ action: 'extend', months: 1, weeks: 3, reason: 'x' }, name)).toBe('Extend by 1 month and 3 weeks');
+    expect(describeAdjustment({ action: 'change-tier', tier: 'premium', prorate: true, reason: 'x' }, name)).toBe('Change tier to PREMIUM, prorated');
+  });
+});
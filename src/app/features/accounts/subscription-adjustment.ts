@@ -0,0 +1,84 @@
+import { SubscriptionAdjustment, Tier } from '../../shared/models/api.models';
+
+/**
+ * The adjust-subscription form. `expires` is the `YYYY-MM-DD` of a date input,
+ * in the admin's time zone.
+ */
+export interface AdjustmentForm {
+  action: SubscriptionAdjustment['action'];
+  months: number | null;
+  weeks: number | null;
+  expires: string;
+  tier: Tier | '';
+  prorate: boolean;
+  reason: string;
+}
+
+export const DEFAULT_ADJUSTMENT_FORM: AdjustmentForm = {
+  action: 'extend',
+  months: null,
+  weeks: null,
+  expires: '',
+  tier: '',
+  prorate: true,
+  reason: ''
+};
+
+export const MAX_REASON_LENGTH = 500;
+
+function isCount(value: number | null): boolean {
+  return value === null || (Number.isInteger(value) && value >= 0);
+}
+
+/**
+ * The request for a filled-in form
+ * @returns The adjustment, or what is wrong with the form
+ */
+export function buildAdjustment(form: AdjustmentForm, now = Date.now()): SubscriptionAdjustment | string {
+  const reason = form.reason.trim();
+  if (!reason) return 'Give a reason for the adjustment';
+  if (reason.length > MAX_REASON_LENGTH) return `Keep the reason under ${MAX_REASON_LENGTH} characters`;
+
+  switch (form.action) {
+    case 'extend': {
+      if (!isCount(form.months) || !isCount(form.weeks) || !(form.months || form.weeks)) {
+        return 'Extend by a whole number of months or weeks';
+      }
+      return {
+        action: 'extend',
+        ...(form.months ? { months: form.months } : {}),
+        ...(form.weeks ? { weeks: form.weeks } : {}),
+        reason
+      };
+    }
+    case 'set-expiry': {
+      // Local midnight of the day picked
+      const expires = Date.parse(`${form.expires}T00:00`);
+      if (Number.isNaN(expires)) return 'Pick the new expiry';
+      if (expires <= now) return 'The new expiry must be in the future';
+      return { action: 'set-expiry', expires, reason };
+    }
+    case 'change-tier':
+      if (!form.tier) return 'Pick the new tier';
+      return { action: 'change-tier', tier: form.tier, prorate: form.prorate, reason };
+    case 'revoke':
+      return { action: 'revoke', reason };
+  }
+}
+
+/** One line saying what an adjustment does, for confirmations and messages */
+export function describeAdjustment(adjustment: SubscriptionAdjustment, tierName: (tier: Tier) => string): string {
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+  switch (adjustment.action) {
+    case 'extend': {
+      const parts = [
+        adjustment.months ? plural(adjustment.months, 'month') : '',
+        adjustment.weeks ? plural(adjustment.weeks, 'week') : ''
+      ];
+      return `Extend by ${parts.filter(part => part).join(' and ')}`;
+    }
+    case 'set-expiry': return 'Set a new expiry';
+    case 'change-tier': return `Change tier to ${tierName(adjustment.tier)}${adjustment.prorate ? ', prorated' : ''}`;
+    case 'revoke': return 'Move to the free tier';
+  }
+}
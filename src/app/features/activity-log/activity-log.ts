@@ -0,0 +1,67 @@
+import { Component, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivityLogService, ACTIVITY_LOG_MAX_ENTRIES } from '../../core/services/activity-log.service';
+import { ActivityLogEntry } from '../../shared/models/api.models';
+import { UtilsService } from '../../shared/utils/utils.service';
+
+type OutcomeFilter = '' | 'ok' | 'failed' | 'pending';
+
+@Component({
+  selector: 'app-activity-log',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './activity-log.html',
+  styleUrl: './activity-log.scss'
+})
+export class ActivityLog {
+  readonly maxEntries = ACTIVITY_LOG_MAX_ENTRIES;
+
+  search = signal('');
+  methodFilter = signal('');
+  outcomeFilter = signal<OutcomeFilter>('');
+  expandedId = signal<string | null>(null);
+
+  readonly methods = computed(() => [...new Set(this.activityLog.entries().map(entry => entry.method))].sort());
+
+  readonly filteredEntries = computed(() => {
+    const search = this.search().trim().toLowerCase();
+    const method = this.methodFilter();
+    const outcome = this.outcomeFilter();
+
+    return this.activityLog.entries().filter(entry =>
+      (!search || entry.url.toLowerCase().includes(search) || String(entry.status ?? '').includes(search))
+      && (!method || entry.method === method)
+      && (!outcome || this.outcome(entry) === outcome)
+    );
+  });
+
+  constructor(
+    protected activityLog: ActivityLogService,
+    protected utils: UtilsService
+  ) {}
+
+  outcome(entry: ActivityLogEntry): Exclude<OutcomeFilter, ''> {
+    if (entry.durationMs === undefined) return 'pending';
+    return entry.error || !entry.status || entry.status >= 400 ? 'failed' : 'ok';
+  }
+
+  toggle(entry: ActivityLogEntry) {
+    this.expandedId.update(id => id === entry.id ? null : entry.id);
+  }
+
+  headerLines(headers: Record<string, string> | undefined): string {
+    return Object.entries(headers ?? {}).map(([name, value]) => `${name}: ${value}`).join('\n');
+  }
+
+  formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleTimeString();
+  }
+
+  clear() {
+    if (confirm('Clear the activity log?')) {
+      this.activityLog.clear();
+      this.expandedId.set(null);
+    }
+  }
+}
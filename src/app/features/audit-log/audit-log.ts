@@ -0,0 +1,46 @@
+import { Component, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { AuditLogService } from '../../core/services/audit-log.service';
+import { AccessControlService } from '../../core/services/access-control.service';
+import { SessionService } from '../../core/services/session.service';
+import { UtilsService } from '../../shared/utils/utils.service';
+
+@Component({
+  selector: 'app-audit-log',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './audit-log.html',
+  styleUrl: './audit-log.scss'
+})
+export class AuditLog {
+  identityFilter = signal('');
+
+  /** Every pubkey that appears in the log, so past identities can be filtered too */
+  readonly pubkeys = computed(() => [...new Set(this.auditLog.entries().map(entry => entry.pubkey))]);
+
+  readonly filteredEntries = computed(() => {
+    const pubkey = this.identityFilter();
+    const entries = this.auditLog.entries();
+    return pubkey ? entries.filter(entry => entry.pubkey === pubkey) : entries;
+  });
+
+  constructor(
+    protected auditLog: AuditLogService,
+    protected session: SessionService,
+    private access: AccessControlService,
+    protected utils: UtilsService
+  ) {}
+
+  identityName(pubkey: string): string {
+    const label = this.access.labelFor(pubkey);
+    const short = this.utils.formatPubkey(pubkey);
+    return label ? `${label} (${short})` : short;
+  }
+
+  clear() {
+    if (confirm('Clear the local audit log? This cannot be undone.')) {
+      this.auditLog.clear();
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { provideHttpClient } from '@angular/common/http';
+import { TestBed } from '@angular/core/testing';
+import { LocalKeySigner } from '../../core/signers/local-key-signer';
+import { Nip98AuthService } from '../../core/services/nip98-auth.service';
+import { SignerService } from '../../core/services/signer.service';
+import { AuthDebugger } from './auth-debugger';
+
+describe('AuthDebugger', () => {
+  const url = 'https://api.test/api/account';
+  let component: AuthDebugger;
+  let nip98Auth: Nip98AuthService;
+  let signerService: SignerService;
+
+  function statusOf(name: string) {
+    return component.checks().find(check => check.name === name)?.status;
+  }
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({ imports: [AuthDebugger], providers: [provideHttpClient()] });
+    component = TestBed.createComponent(AuthDebugger).componentInstance;
+    nip98Auth = TestBed.inject(Nip98AuthService);
+    signerService = TestBed.inject(SignerService);
+    await signerService.login(LocalKeySigner.ephemeral());
+  });
+
+  afterEach(() => {
+    signerService.logout();
+  });
+
+  it('should pass every check for the request the token was signed for', async () => {
+    const body = { pubkey: 'abc', months: 1 };
+    const token = await nip98Auth.getToken(url, 'POST', { payload: body, includeAuthorizationScheme: true });
+
+    component.header = `Authorization: ${token}`;
+    component.url = url;
+    component.method = 'POST';
+    component.body = JSON.stringify(body);
+    component.expectedPubkey = signerService.getAuthState().pubkey!;
+    await component.inspect();
+
+    expect(component.decodeError()).toBeNull();
+    expect(component.checks().every(check => check.status === 'pass')).toBeTrue();
+  });
+
+  it('should spot a body that was reformatted after signing', async () => {
+    const body = { pubkey: 'abc', months: 1 };
+    component.header = await nip98Auth.getToken(url, 'POST', { payload: JSON.stringify(body) });
+    component.url = url;
+    component.method = 'POST';
+    component.body = JSON.stringify(body, null, 2);
+    await component.inspect();
+
+    expect(statusOf('Payload')).toBe('fail');
+    expect(component.checks().find(check => check.name === 'Payload')?.reason).toContain('re-serialized');
+  });
+
+  it('should explain URL, method and payload mismatches', async () => {
+    component.header = await nip98Auth.getToken(`${url}/`, 'GET', { payload: { a: 1 } });
+    component.url = url;
+    component.method = 'PUT';
+    component.body = '{"a": 2}';
+    await component.inspect();
+
+    expect(statusOf('Signature')).toBe('pass');
+    expect(statusOf('URL')).toBe('fail');
+    expect(component.checks().find(check => check.name === 'URL')?.reason).toContain('trailing slash');
+    expect(statusOf('Method')).toBe('fail');
+    expect(statusOf('Payload')).toBe('fail');
+    expect(statusOf('Pubkey')).toBe('skip');
+  });
+
+  it('should report tokens that cannot be decoded', async () => {
+    component.header = 'Nostr not-a-token';
+    await component.inspect();
+
+    expect(component.event()).toBeNull();
+    expect(component.decodeError()).toContain('Failed to unpack token');
+  });
+});
@@ -0,0 +1,226 @@
+import { Component, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Nip98AuthService } from '../../core/services/nip98-auth.service';
+import { ClockService } from '../../core/services/clock.service';
+import { UtilsService } from '../../shared/utils/utils.service';
+import { NostrEvent } from '../../shared/models/api.models';
+import { BackendEnvironmentService } from '../../core/services/backend-environment.service';
+
+export interface AuthCheck {
+  name: string;
+  status: 'pass' | 'fail' | 'skip';
+  reason: string;
+}
+
+@Component({
+  selector: 'app-auth-debugger',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './auth-debugger.html',
+  styleUrl: './auth-debugger.scss'
+})
+export class AuthDebugger {
+  readonly methods = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+  header = '';
+  url: string;
+  method = 'GET';
+  body = '';
+  expectedPubkey = '';
+
+  event = signal<NostrEvent | null>(null);
+  checks = signal<AuthCheck[]>([]);
+  decodeError = signal<string | null>(null);
+
+  constructor(
+    private nip98Auth: Nip98AuthService,
+    private clock: ClockService,
+    protected utils: UtilsService,
+    backend: BackendEnvironmentService
+  ) {
+    this.url = `${backend.apiBaseUrl()}/`;
+  }
+
+  /**
+   * Decode the pasted header and run every NIP-98 check against the request fields
+   */
+  async inspect() {
+    this.decodeError.set(null);
+    this.event.set(null);
+    this.checks.set([]);
+
+    try {
+      const event = await this.nip98Auth.unpackEventFromToken(this.extractToken(this.header));
+      this.event.set(event);
+      this.checks.set(this.runChecks(event));
+    } catch (error) {
+      this.decodeError.set(error instanceof Error ? error.message : 'Failed to decode token');
+    }
+  }
+
+  /**
+   * Fill the request fields from the token's own tags
+   */
+  useTokenValues() {
+    const event = this.event();
+    if (!event) return;
+
+    this.url = this.getTag(event, 'u') ?? this.url;
+    this.method = this.getTag(event, 'method')?.toUpperCase() ?? this.method;
+    this.checks.set(this.runChecks(event));
+  }
+
+  clear() {
+    this.header = '';
+    this.body = '';
+    this.event.set(null);
+    this.checks.set([]);
+    this.decodeError.set(null);
+  }
+
+  /**
+   * Run the validateEvent* checks one by one so every failure is reported, not just the first
+   */
+  runChecks(event: NostrEvent): AuthCheck[] {
+    const checks: AuthCheck[] = [];
+    const pass = (name: string, reason: string) => checks.push({ name, status: 'pass', reason });
+    const fail = (name: string, reason: string) => checks.push({ name, status: 'fail', reason });
+    const skip = (name: string, reason: string) => checks.push({ name, status: 'skip', reason });
+
+    if (this.nip98Auth.validateEventKind(event)) {
+      pass('Kind', 'Kind is 27235');
+    } else {
+      fail('Kind', `Expected kind 27235, got ${event.kind}`);
+    }
+
+    if (this.nip98Auth.validateEventId(event)) {
+      pass('Event id', 'Id matches the event hash');
+    } else {
+      fail('Event id', event.id
+        ? 'Id does not match the hash of the event; the event was changed after signing'
+        : 'Event has no id');
+    }
+
+    if (this.nip98Auth.validateEventSignature(event)) {
+      pass('Signature', 'Schnorr signature is valid for the event pubkey');
+    } else {
+      fail('Signature', event.sig ? 'Signature does not verify against the id and pubkey' : 'Event has no signature');
+    }
+
+    const expectedPubkey = this.expectedPubkey.trim();
+    if (!expectedPubkey) {
+      skip('Pubkey', 'No expected pubkey entered');
+    } else if (this.nip98Auth.validateEventPubkey(event, expectedPubkey)) {
+      pass('Pubkey', 'Signed by the expected pubkey');
+    } else {
+      fail('Pubkey', `Signed by ${event.pubkey ?? 'unknown'}, expected ${expectedPubkey}`);
+    }
+
+    // Ages are measured against the server's clock, like the API does
+    const age = Math.round(this.clock.now() / 1000) - event.created_at;
+    const skew = this.clock.hasSkew() ? ` Your local clock is ${Math.round(this.clock.offset() / 1000)}s off the server.` : '';
+    if (this.nip98Auth.validateEventTimestamp(event)) {
+      pass('Timestamp', (age < 0
+        ? `Created ${-age}s in the future; check the signer's clock.`
+        : `Created ${age}s ago (limit 60s).`) + skew);
+    } else {
+      fail('Timestamp', `Created ${age}s ago; tokens must be used within 60s.` + skew);
+    }
+
+    const urlTag = this.getTag(event, 'u');
+    if (this.nip98Auth.validateEventUrlTag(event, this.url)) {
+      pass('URL', 'u tag matches the request URL');
+    } else {
+      fail('URL', urlTag === undefined
+        ? 'Token has no u tag'
+        : `u tag is "${urlTag}", request URL is "${this.url}"${this.describeUrlMismatch(urlTag, this.url)}`);
+    }
+
+    const methodTag = this.getTag(event, 'method');
+    if (this.nip98Auth.validateEventMethodTag(event, this.method)) {
+      pass('Method', `method tag is ${methodTag}`);
+    } else {
+      fail('Method', methodTag === undefined
+        ? 'Token has no method tag'
+        : `method tag is "${methodTag}", request method is "${this.method}"`);
+    }
+
+    checks.push(this.checkPayload(event));
+    return checks;
+  }
+
+  getTag(event: NostrEvent, name: string): string | undefined {
+    return event.tags.find(tag => tag[0] === name)?.[1];
+  }
+
+  formatCreatedAt(event: NostrEvent): string {
+    return this.utils.formatDate(event.created_at * 1000);
+  }
+
+  private checkPayload(event: NostrEvent): AuthCheck {
+    const name = 'Payload';
+    const payloadTag = this.getTag(event, 'payload');
+
+    if (!this.body.trim()) {
+      return payloadTag
+        ? { name, status: 'fail', reason: 'Token has a payload tag but no body was entered' }
+        : { name, status: 'skip', reason: 'No body entered and the token has no payload tag' };
+    }
+
+    // The payload tag covers the exact bytes sent, so hash the body as pasted
+    const hash = this.nip98Auth.hashPayload(this.body);
+    if (!payloadTag) {
+      return { name, status: 'fail', reason: `Token has no payload tag; body hash is ${hash}` };
+    }
+    if (this.nip98Auth.validateEventPayloadTag(event, this.body)) {
+      return { name, status: 'pass', reason: `Body hash ${hash} matches the payload tag` };
+    }
+
+    const parsed = this.utils.safeJsonParse(this.body);
+    if (parsed.success && this.nip98Auth.validateEventPayloadTag(event, parsed.data)) {
+      return {
+        name,
+        status: 'fail',
+        reason: `Body hashes to ${hash}, but its compact JSON form matches the payload tag. ` +
+          'The body was re-serialized after signing (whitespace or formatting differs).'
+      };
+    }
+
+    return { name, status: 'fail', reason: `Body hashes to ${hash}, payload tag is ${payloadTag}` };
+  }
+
+  /**
+   * Point out the usual reasons two URLs that look alike don't match
+   */
+  private describeUrlMismatch(tokenUrl: string, requestUrl: string): string {
+    let token: URL;
+    let request: URL;
+    try {
+      token = new URL(tokenUrl);
+      request = new URL(requestUrl);
+    } catch {
+      return '';
+    }
+
+    if (token.protocol !== request.protocol) return ' (scheme differs)';
+    if (token.host !== request.host) return ' (host differs)';
+    if (token.pathname.replace(/\/$/, '') === request.pathname.replace(/\/$/, '') && token.pathname !== request.pathname) {
+      return ' (trailing slash differs)';
+    }
+    if (token.pathname !== request.pathname) return ' (path differs)';
+    if (token.search !== request.search) return ' (query string differs)';
+    return '';
+  }
+
+  /**
+   * Accept a full header line, a "Nostr <token>" value or the bare token
+   */
+  private extractToken(header: string): string {
+    return header
+      .trim()
+      .replace(/^authorization\s*:\s*/i, '')
+      .replace(/^nostr\s+/i, '')
+      .trim();
+  }
+}
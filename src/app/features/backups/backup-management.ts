@@ -78,7 +78,7 @@ export class BackupManagement implements OnInit {
         this.jobsError.set(response.message || 'Failed to load backup jobs');
       }
     } catch (error) {
-      this.jobsError.set('Network error loading backup jobs');
+      this.jobsError.set(error instanceof Error ? error.message : 'Unexpected error loading backup jobs');
     } finally {
       this.isLoadingJobs.set(false);
     }
@@ -108,7 +108,7 @@ export class BackupManagement implements OnInit {
         this.createBackupError.set(response.message || 'Failed to create backup job');
       }
     } catch (error) {
-      this.createBackupError.set('Network error creating backup job');
+      this.createBackupError.set(error instanceof Error ? error.message : 'Unexpected error creating backup job');
     } finally {
       this.isCreatingBackup.set(false);
     }
@@ -125,10 +125,12 @@ export class BackupManagement implements OnInit {
       if (response.success && response.data) {
         this.selectedJob.set(response.data);
       } else {
-        this.jobDetailsError.set(response.message || 'Failed to load job details');
+        this.jobDetailsError.set(response.error?.kind === 'not-found'
+          ? `Backup job ${jobId} no longer exists`
+          : response.message || 'Failed to load job details');
       }
     } catch (error) {
-      this.jobDetailsError.set('Network error loading job details');
+      this.jobDetailsError.set(error instanceof Error ? error.message : 'Unexpected error loading job details');
     } finally {
       this.isLoadingJobDetails.set(false);
     }
@@ -0,0 +1,146 @@
+import { Component, OnInit, Signal, computed, signal } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { SignerService } from '../../core/services/signer.service';
+import { SessionService } from '../../core/services/session.service';
+import { AccessControlService } from '../../core/services/access-control.service';
+import { SignerType } from '../../shared/models/api.models';
+import { environment } from '../../../environments/environment';
+
+type LoginMethod = Exclude<SignerType, 'nsec'>;
+
+@Component({
+  selector: 'app-login',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './login.html',
+  styleUrl: './login.scss'
+})
+export class Login implements OnInit {
+  readonly methods: { value: LoginMethod; label: string; description: string }[] = [
+    { value: 'extension', label: 'Browser extension', description: 'Sign with a NIP-07 extension such as nos2x, Alby or Flamingo' },
+    { value: 'nip46', label: 'Remote signer', description: 'Sign with a NIP-46 bunker (nsecBunker, Amber, ...)' },
+    { value: 'ncryptsec', label: 'Encrypted key', description: 'Import a NIP-49 ncryptsec key; it is only kept in memory' },
+    ...(environment.production ? [] : [
+      { value: 'ephemeral' as const, label: 'Ephemeral dev key', description: 'Generate a throwaway key for local development' }
+    ])
+  ];
+
+  method = signal<LoginMethod>('extension');
+  isSigningIn = signal(false);
+  error = signal<string | null>(null);
+  nostrConnectUri = signal<string | null>(null);
+
+  /** Set when the auth guard sent the admin here from a page their roles don't cover */
+  accessDenied: Signal<boolean>;
+
+  isExtensionAvailable = false;
+  bunkerUri = '';
+  nostrConnectRelay = 'wss://relay.nsec.app';
+  ncryptsec = '';
+  password = '';
+
+  constructor(
+    private signerService: SignerService,
+    protected session: SessionService,
+    protected access: AccessControlService,
+    private route: ActivatedRoute,
+    private router: Router
+  ) {
+    const queryParams = toSignal(this.route.queryParamMap);
+    this.accessDenied = computed(() => this.session.isAuthenticated() && !!queryParams()?.has('denied'));
+  }
+
+  async ngOnInit() {
+    this.isExtensionAvailable = this.signerService.isExtensionAvailable();
+    if (!this.isExtensionAvailable) {
+      this.method.set('nip46');
+    }
+
+    await this.session.whenRestored();
+    const lockedNcryptsec = this.session.getLockedNcryptsec();
+    if (lockedNcryptsec) {
+      this.method.set('ncryptsec');
+      this.ncryptsec = lockedNcryptsec;
+    }
+  }
+
+  selectMethod(method: LoginMethod) {
+    this.method.set(method);
+    this.error.set(null);
+    this.nostrConnectUri.set(null);
+  }
+
+  async signIn() {
+    this.isSigningIn.set(true);
+    this.error.set(null);
+
+    try {
+      switch (this.method()) {
+        case 'extension':
+          await this.signerService.loginWithExtension();
+          break;
+        case 'nip46':
+          await this.signerService.loginWithRemoteSigner(this.bunkerUri);
+          break;
+        case 'ncryptsec':
+          await this.signerService.loginWithNcryptsec(this.ncryptsec, this.password);
+          break;
+        case 'ephemeral':
+          await this.signerService.loginWithEphemeralKey();
+          break;
+      }
+      this.password = '';
+      this.onSignedIn();
+    } catch (error) {
+      this.error.set(error instanceof Error ? error.message : 'Failed to sign in');
+    } finally {
+      this.isSigningIn.set(false);
+    }
+  }
+
+  async startNostrConnect() {
+    this.error.set(null);
+
+    try {
+      const uri = this.signerService.createNostrConnectUri([this.nostrConnectRelay]);
+      this.nostrConnectUri.set(uri);
+      this.isSigningIn.set(true);
+      await this.signerService.loginWithRemoteSigner(uri);
+      this.onSignedIn();
+    } catch (error) {
+      // Nothing to report if the admin cancelled; otherwise the URI is dead too
+      if (this.nostrConnectUri() !== null) {
+        this.error.set(error instanceof Error ? error.message : 'Failed to connect to remote signer');
+        this.nostrConnectUri.set(null);
+      }
+    } finally {
+      this.isSigningIn.set(false);
+    }
+  }
+
+  cancelNostrConnect() {
+    this.signerService.cancelNostrConnect();
+    this.nostrConnectUri.set(null);
+  }
+
+  signOut() {
+    this.session.logout();
+  }
+
+  async copyToClipboard(text: string): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error);
+    }
+  }
+
+  private onSignedIn() {
+    this.nostrConnectUri.set(null);
+    const returnUrl = this.route.snapshot.queryParamMap.get('returnUrl') || '/dashboard';
+    this.router.navigateByUrl(returnUrl);
+  }
+}
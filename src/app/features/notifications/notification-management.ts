@@ -1,7 +1,11 @@
 import { Component, OnInit, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule, ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { RouterLink } from '@angular/router';
 import { ApiService } from '../../core/services/api.service';
+import { PubkeyResolver } from '../../core/services/pubkey-resolver.service';
+import { PubkeyInput } from '../../shared/components/pubkey-input/pubkey-input';
+import { pubkeyValidator } from '../../shared/utils/pubkey';
 import {
   NotificationRequest, NotificationResult, NotificationStatus,
   NotificationData, PushSubscription
@@ -10,7 +14,7 @@ import {
 @Component({
   selector: 'app-notification-management',
   standalone: true,
-  imports: [CommonModule, FormsModule, ReactiveFormsModule],
+  imports: [CommonModule, FormsModule, ReactiveFormsModule, RouterLink, PubkeyInput],
   templateUrl: './notification-management.html',
   styleUrl: './notification-management.scss'
 })
@@ -44,7 +48,10 @@ export class NotificationManagement implements OnInit {
   apiKey = ''; // TODO: Implement proper API key management
   authToken = ''; // TODO: Implement proper auth token management
 
-  constructor(private apiService: ApiService) {
+  constructor(
+    private apiService: ApiService,
+    private pubkeyResolver: PubkeyResolver
+  ) {
     this.sendNotificationForm = this.fb.group({
       notificationType: ['direct', [Validators.required]],
       pubkeys: [''],
@@ -57,11 +64,11 @@ export class NotificationManagement implements OnInit {
     });
 
     this.statusCheckForm = this.fb.group({
-      pubkey: ['', [Validators.required, Validators.pattern(/^[a-fA-F0-9]{64}$/)]]
+      pubkey: ['', [Validators.required, pubkeyValidator]]
     });
 
     this.testNotificationForm = this.fb.group({
-      testPubkey: ['', [Validators.required, Validators.pattern(/^[a-fA-F0-9]{64}$/)]],
+      testPubkey: ['', [Validators.required, pubkeyValidator]],
       testTitle: ['Test Notification', [Validators.required]],
       testBody: ['This is a test notification from Nostria Management.', [Validators.required]],
       testIcon: [''],
@@ -69,7 +76,7 @@ export class NotificationManagement implements OnInit {
     });
 
     this.subscriptionForm = this.fb.group({
-      subPubkey: ['', [Validators.required, Validators.pattern(/^[a-fA-F0-9]{64}$/)]],
+      subPubkey: ['', [Validators.required, pubkeyValidator]],
       endpoint: ['', [Validators.required, Validators.pattern(/^https?:\/\/.+/)]],
       p256dh: ['', [Validators.required]],
       auth: ['', [Validators.required]],
@@ -117,9 +124,15 @@ export class NotificationManagement implements OnInit {
       const formValue = this.sendNotificationForm.value;
       const request: NotificationRequest = {};
 
-      // Parse pubkeys
+      // Parse pubkeys, which may be npubs or NIP-05 addresses
       if (formValue.pubkeys.trim()) {
-        request.pubkeys = formValue.pubkeys.split(',').map((pk: string) => pk.trim()).filter((pk: string) => pk);
+        const pubkeys = await this.pubkeyResolver.resolveAll(formValue.pubkeys);
+        if (!pubkeys.success) {
+          this.sendNotificationError.set(pubkeys.message || 'Invalid target users');
+          this.isSendingNotification.set(false);
+          return;
+        }
+        request.pubkeys = pubkeys.data;
       }
 
       if (formValue.notificationType === 'direct') {
@@ -148,7 +161,7 @@ export class NotificationManagement implements OnInit {
         this.sendNotificationError.set(response.message || 'Failed to send notification');
       }
     } catch (error) {
-      this.sendNotificationError.set('Network error sending notification');
+      this.sendNotificationError.set(error instanceof Error ? error.message : 'Unexpected error sending notification');
     } finally {
       this.isSendingNotification.set(false);
     }
@@ -170,7 +183,7 @@ export class NotificationManagement implements OnInit {
         this.statusError.set(response.message || 'Failed to check notification status');
       }
     } catch (error) {
-      this.statusError.set('Network error checking status');
+      this.statusError.set(error instanceof Error ? error.message : 'Unexpected error checking status');
     } finally {
       this.isCheckingStatus.set(false);
     }
@@ -200,7 +213,7 @@ export class NotificationManagement implements OnInit {
         this.testNotificationError.set(response.message || 'Failed to send test notification');
       }
     } catch (error) {
-      this.testNotificationError.set('Network error sending test notification');
+      this.testNotificationError.set(error instanceof Error ? error.message : 'Unexpected error sending test notification');
     } finally {
       this.isSendingTest.set(false);
     }
@@ -233,7 +246,7 @@ export class NotificationManagement implements OnInit {
         this.subscriptionError.set(response.message || 'Failed to register subscription');
       }
     } catch (error) {
-      this.subscriptionError.set('Network error registering subscription');
+      this.subscriptionError.set(error instanceof Error ? error.message : 'Unexpected error registering subscription');
     } finally {
       this.isRegisteringSubscription.set(false);
     }
@@ -1,8 +1,16 @@
-import { Component, OnInit, signal } from '@angular/core';
+import { Component, DestroyRef, OnInit, Signal, effect, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule, ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { RouterLink } from '@angular/router';
 import { ApiService } from '../../core/services/api.service';
+import { TierStore } from '../../core/services/tier-store.service';
+import { SessionService } from '../../core/services/session.service';
+import { AccessControlService } from '../../core/services/access-control.service';
+import { AuthStatus } from '../../shared/components/auth-status/auth-status';
+import { PubkeyInput } from '../../shared/components/pubkey-input/pubkey-input';
 import { UtilsService } from '../../shared/utils/utils.service';
+import { pubkeyValidator } from '../../shared/utils/pubkey';
+import { RequestScope } from '../../shared/utils/request-scope';
 import {
   CreatePaymentRequest, Payment, TierDetails, Tier, BillingCycle
 } from '../../shared/models/api.models';
@@ -10,18 +18,19 @@ import {
 @Component({
   selector: 'app-payment-management',
   standalone: true,
-  imports: [CommonModule, FormsModule, ReactiveFormsModule],
+  imports: [CommonModule, FormsModule, ReactiveFormsModule, RouterLink, AuthStatus, PubkeyInput],
   templateUrl: './payment-management.html',
   styleUrl: './payment-management.scss'
 })
 export class PaymentManagement implements OnInit {
   private fb = new FormBuilder();
   private utils = new UtilsService();
+  private requests: RequestScope;
 
   // Signals for reactive state management
-  tiers = signal<Record<string, TierDetails> | null>(null);
-  tiersLoading = signal(false);
-  tiersError = signal<string | null>(null);
+  tiers: Signal<Record<string, TierDetails> | null>;
+  tiersLoading: Signal<boolean>;
+  tiersError: Signal<string | null>;
 
   isCreatingPayment = signal(false);
   createPaymentError = signal<string | null>(null);
@@ -35,9 +44,8 @@ export class PaymentManagement implements OnInit {
   isListingPayments = signal(false);
   listPaymentsError = signal<string | null>(null);
   listedPayments = signal<Payment[]>([]);
-  isNostrConnected = signal(false);
 
-  // Payment history (simulated - would come from real API)
+  // Payments created or checked on this page
   paymentHistory = signal<Payment[]>([]);
 
   // Forms
@@ -59,15 +67,35 @@ export class PaymentManagement implements OnInit {
     { value: 'yearly', label: 'Yearly', discount: '15% off' }
   ];
 
-  constructor(private apiService: ApiService) {
+  constructor(
+    private apiService: ApiService,
+    private tierStore: TierStore,
+    protected session: SessionService,
+    protected access: AccessControlService,
+    destroyRef: DestroyRef
+  ) {
+    this.requests = new RequestScope(destroyRef);
+    this.tiers = tierStore.tiers;
+    this.tiersLoading = tierStore.loading;
+    this.tiersError = tierStore.error;
+
+    // Payment data must not outlive the admin session that loaded it
+    effect(() => {
+      if (!this.session.isAuthenticated()) {
+        this.requests.cancel('list');
+        this.listedPayments.set([]);
+        this.listPaymentsError.set(null);
+      }
+    });
+
     this.createPaymentForm = this.fb.group({
       tierName: ['premium', [Validators.required]],
       billingCycle: ['monthly', [Validators.required]],
-      pubkey: ['', [Validators.required, Validators.pattern(/^[a-fA-F0-9]{64}$/)]]
+      pubkey: ['', [Validators.required, pubkeyValidator]]
     });
 
     this.checkPaymentForm = this.fb.group({
-      pubkey: ['', [Validators.required, Validators.pattern(/^[a-fA-F0-9]{64}$/)]],
+      pubkey: ['', [Validators.required, pubkeyValidator]],
       paymentId: ['', [Validators.required]]
     });
 
@@ -78,87 +106,25 @@ export class PaymentManagement implements OnInit {
 
   ngOnInit() {
     this.loadTiers();
-    this.loadPaymentHistory();
-    this.checkNostrConnection();
-  }
-
-  checkNostrConnection() {
-    this.isNostrConnected.set(this.apiService.isNip98AuthAvailable());
   }
 
-  async loadTiers() {
-    this.tiersLoading.set(true);
-    this.tiersError.set(null);
-
-    try {
-      const response = await this.apiService.getTiers();
-      if (response.success && response.data) {
-        this.tiers.set(response.data);
-      } else {
-        this.tiersError.set(response.message || 'Failed to load tiers');
-      }
-    } catch (error) {
-      this.tiersError.set('Network error loading tiers');
-    } finally {
-      this.tiersLoading.set(false);
-    }
+  loadTiers() {
+    return this.tierStore.load();
   }
 
-  async loadPaymentHistory() {
-    // Simulate payment history - in real app, this would be an API call
-    const mockPayments: Payment[] = [
-      {
-        id: 'pay_1234567890',
-        type: 'payment',
-        paymentType: 'ln',
-        lnHash: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
-        lnInvoice: 'lnbc100u1pj...',
-        lnAmountSat: 10000,
-        tier: 'basic',
-        billingCycle: 'monthly',
-        priceCents: 500,
-        pubkey: '8e9f64b35e7e4384b5248f1d4294f109bb8d3442b04d7c59a62c04e702441488',
-        isPaid: true,
-        paid: Math.floor(Date.now() / 1000) - 3600,
-        status: 'paid',
-        expires: Math.floor(Date.now() / 1000) + 3600,
-        created: Math.floor(Date.now() / 1000) - 7200,
-        modified: Math.floor(Date.now() / 1000) - 3600
-      },
-      {
-        id: 'pay_0987654321',
-        type: 'payment',
-        paymentType: 'ln',
-        lnInvoice: 'lnbc50u1pj...',
-        lnAmountSat: 5000,
-        tier: 'premium',
-        billingCycle: 'monthly',
-        priceCents: 1000,
-        pubkey: 'a1b2c3d4e5f6789012345678901234567890abcdef1234567890abcdef123456',
-        isPaid: false,
-        status: 'expired',
-        expires: Math.floor(Date.now() / 1000) - 3600,
-        created: Math.floor(Date.now() / 1000) - 10800,
-        modified: Math.floor(Date.now() / 1000) - 3600
-      },
-      {
-        id: 'pay_1122334455',
-        type: 'payment',
-        paymentType: 'ln',
-        lnInvoice: 'lnbc200u1pj...',
-        lnAmountSat: 45000,
-        tier: 'premium_plus',
-        billingCycle: 'quarterly',
-        priceCents: 13500,
-        pubkey: 'f1e2d3c4b5a6978901234567890abcdef1234567890abcdef1234567890abcde',
-        isPaid: false,
-        status: 'pending',
-        expires: Math.floor(Date.now() / 1000) + 1800,
-        created: Math.floor(Date.now() / 1000) - 900,
-        modified: Math.floor(Date.now() / 1000) - 900
-      }
-    ];
-    this.paymentHistory.set(mockPayments);
+  /**
+   * Re-check every payment in the history, e.g. to see pending invoices get paid
+   */
+  async refreshPaymentHistory() {
+    const signal = this.requests.latest('history');
+    const responses = await Promise.all(this.paymentHistory().map(payment =>
+      this.apiService.getPayment(payment.pubkey, payment.id, { signal })
+    ));
+    if (signal.aborted) return;
+
+    // Payments added while this was in flight are kept as they are
+    const fresh = new Map(responses.filter(r => r.success).map(r => [r.data.id, r.data]));
+    this.paymentHistory.update(history => history.map(payment => fresh.get(payment.id) ?? payment));
   }
 
   async createPayment() {
@@ -184,14 +150,12 @@ export class PaymentManagement implements OnInit {
           billingCycle: 'monthly',
           pubkey: ''
         });
-        // Add to payment history
-        const currentHistory = this.paymentHistory();
-        this.paymentHistory.set([response.data, ...currentHistory]);
+        this.addToHistory(response.data);
       } else {
         this.createPaymentError.set(response.message || 'Failed to create payment');
       }
     } catch (error) {
-      this.createPaymentError.set('Network error creating payment');
+      this.createPaymentError.set(error instanceof Error ? error.message : 'Unexpected error creating payment');
     } finally {
       this.isCreatingPayment.set(false);
     }
@@ -200,22 +164,27 @@ export class PaymentManagement implements OnInit {
   async checkPayment() {
     if (this.checkPaymentForm.invalid) return;
 
+    const signal = this.requests.latest('check');
     this.isCheckingPayment.set(true);
     this.paymentCheckError.set(null);
     this.checkedPayment.set(null);
 
     try {
       const formValue = this.checkPaymentForm.value;
-      const response = await this.apiService.getPayment(formValue.pubkey, formValue.paymentId);
+      const response = await this.apiService.getPayment(formValue.pubkey, formValue.paymentId, { signal });
+      if (signal.aborted) return;
       if (response.success && response.data) {
         this.checkedPayment.set(response.data);
+        this.addToHistory(response.data);
       } else {
-        this.paymentCheckError.set(response.message || 'Payment not found');
+        this.paymentCheckError.set(response.error?.kind === 'not-found'
+          ? `No payment ${formValue.paymentId} found for this pubkey`
+          : response.message || 'Failed to check payment');
       }
     } catch (error) {
-      this.paymentCheckError.set('Network error checking payment');
+      this.paymentCheckError.set(error instanceof Error ? error.message : 'Unexpected error checking payment');
     } finally {
-      this.isCheckingPayment.set(false);
+      if (!signal.aborted) this.isCheckingPayment.set(false);
     }
   }
 
@@ -288,12 +257,16 @@ export class PaymentManagement implements OnInit {
 
   refreshPaymentStatus(payment: Payment) {
     this.checkPaymentForm.patchValue({
-      pubkey: '', // Would need actual pubkey
+      pubkey: payment.pubkey,
       paymentId: payment.id
     });
     this.checkPayment();
   }
 
+  private addToHistory(payment: Payment) {
+    this.paymentHistory.update(history => [payment, ...history.filter(p => p.id !== payment.id)]);
+  }
+
   exportPaymentHistory() {
     const history = this.paymentHistory();
     this.utils.downloadAsFile(
@@ -314,32 +287,15 @@ export class PaymentManagement implements OnInit {
 
   // NIP-98 Authentication and Payment Listing Methods
 
-  get isNostrExtensionAvailable(): boolean {
-    return this.apiService.isNip98AuthAvailable();
-  }
-
-  async connectToNostr() {
-    try {
-      const pubkey = await this.apiService.connectNostrExtension();
-      this.isNostrConnected.set(true);
-      console.log('Connected to Nostr extension with pubkey:', pubkey);
-    } catch (error) {
-      console.error('Failed to connect to Nostr extension:', error);
-      this.listPaymentsError.set(
-        error instanceof Error ? error.message : 'Failed to connect to Nostr extension'
-      );
-    }
-  }
-
   async listPayments() {
     if (this.listPaymentsForm.invalid) return;
 
-    // Check if Nostr extension is connected
-    if (!this.apiService.getNostrAuthState().isAuthenticated) {
-      this.listPaymentsError.set('Please connect to your Nostr extension first');
+    if (!this.session.isAuthenticated()) {
+      this.listPaymentsError.set('Please sign in first');
       return;
     }
 
+    const signal = this.requests.latest('list');
     this.isListingPayments.set(true);
     this.listPaymentsError.set(null);
     this.listedPayments.set([]);
@@ -349,31 +305,25 @@ export class PaymentManagement implements OnInit {
       const limit = formValue.limit || 50;
       
       // Use authenticated request with NIP-98
-      const response = await this.apiService.makeAuthenticatedRequest<Payment[]>(`/payment?limit=${limit}`, {
-        method: 'GET'
-      });
+      const response = await this.apiService.listPayments({ limit }, { signal });
+      if (signal.aborted) return;
 
       if (response.success && response.data) {
         this.listedPayments.set(response.data);
       } else {
-        this.listPaymentsError.set(response.message || 'Failed to load payments');
+        this.listPaymentsError.set(response.error?.kind === 'auth'
+          ? `${response.message} — the server did not accept this identity as an admin`
+          : response.message || 'Failed to load payments');
       }
     } catch (error) {
       this.listPaymentsError.set(
-        error instanceof Error ? error.message : 'Network error loading payments'
+        error instanceof Error ? error.message : 'Unexpected error loading payments'
       );
     } finally {
-      this.isListingPayments.set(false);
+      if (!signal.aborted) this.isListingPayments.set(false);
     }
   }
 
-  disconnectNostr() {
-    this.apiService.disconnectNostrExtension();
-    this.isNostrConnected.set(false);
-    this.listedPayments.set([]);
-    this.listPaymentsError.set(null);
-  }
-
   getPaymentStatusClass(status: string): string {
     switch (status) {
       case 'paid': return 'success';
@@ -384,11 +334,12 @@ export class PaymentManagement implements OnInit {
     }
   }
 
-  formatTimestamp(timestamp: number): string {
-    return new Date(timestamp * 1000).toLocaleString();
+  // Payment timestamps are in milliseconds, like the rest of the API
+  formatTimestamp(timestamp?: number): string {
+    return this.utils.formatDate(timestamp);
   }
 
   isTimestampExpired(timestamp: number): boolean {
-    return timestamp * 1000 < Date.now();
+    return this.utils.isExpired(timestamp);
   }
 }
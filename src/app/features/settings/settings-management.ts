@@ -2,7 +2,11 @@ import { Component, OnInit, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule, ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
 import { ApiService } from '../../core/services/api.service';
+import { AccessControlService } from '../../core/services/access-control.service';
+import { AuthStatus } from '../../shared/components/auth-status/auth-status';
+import { PubkeyInput } from '../../shared/components/pubkey-input/pubkey-input';
 import { UtilsService } from '../../shared/utils/utils.service';
+import { pubkeyValidator } from '../../shared/utils/pubkey';
 import {
   UserSettingsRequest, UserSettings, AdminSetUserSettingsRequest,
   GrokAdminConfig
@@ -84,7 +88,7 @@ const DEFAULT_GROK_ADMIN_CONFIG: GrokAdminConfig = {
 @Component({
   selector: 'app-settings-management',
   standalone: true,
-  imports: [CommonModule, FormsModule, ReactiveFormsModule],
+  imports: [CommonModule, FormsModule, ReactiveFormsModule, AuthStatus, PubkeyInput],
   templateUrl: './settings-management.html',
   styleUrl: './settings-management.scss'
 })
@@ -127,9 +131,12 @@ export class SettingsManagement implements OnInit {
     { value: 'premium_plus', label: 'Premium Plus' }
   ];
 
-  constructor(private apiService: ApiService) {
+  constructor(
+    private apiService: ApiService,
+    protected access: AccessControlService
+  ) {
     this.settingsForm = this.fb.group({
-      pubkey: ['', [Validators.required, Validators.pattern(/^[a-fA-F0-9]{64}$/)]],
+      pubkey: ['', [Validators.required, pubkeyValidator]],
       tier: ['free', [Validators.required]],
       displayName: [''],
       bio: [''],
@@ -141,8 +148,8 @@ export class SettingsManagement implements OnInit {
     });
 
     this.adminSettingsForm = this.fb.group({
-      pubkey: ['', [Validators.required, Validators.pattern(/^[a-fA-F0-9]{64}$/)]],
-      targetPubkey: ['', [Validators.required, Validators.pattern(/^[a-fA-F0-9]{64}$/)]],
+      pubkey: ['', [Validators.required, pubkeyValidator]],
+      targetPubkey: ['', [Validators.required, pubkeyValidator]],
       tier: ['free', [Validators.required]],
       displayName: [''],
       bio: [''],
@@ -154,7 +161,7 @@ export class SettingsManagement implements OnInit {
     });
 
     this.getUserSettingsForm = this.fb.group({
-      pubkey: ['', [Validators.required, Validators.pattern(/^[a-fA-F0-9]{64}$/)]]
+      pubkey: ['', [Validators.required, pubkeyValidator]]
     });
 
     this.grokConfigForm = this.fb.group({
@@ -209,7 +216,7 @@ export class SettingsManagement implements OnInit {
         this.settingsError.set(response.message || 'Failed to load user settings');
       }
     } catch (error) {
-      this.settingsError.set('Network error loading settings');
+      this.settingsError.set(error instanceof Error ? error.message : 'Unexpected error loading settings');
     } finally {
       this.settingsLoading.set(false);
     }
@@ -245,7 +252,7 @@ export class SettingsManagement implements OnInit {
         this.updateSettingsError.set(response.message || 'Failed to update settings');
       }
     } catch (error) {
-      this.updateSettingsError.set('Network error updating settings');
+      this.updateSettingsError.set(error instanceof Error ? error.message : 'Unexpected error updating settings');
     } finally {
       this.isUpdatingSettings.set(false);
     }
@@ -285,25 +292,12 @@ export class SettingsManagement implements OnInit {
         this.adminError.set(response.message || 'Failed to update user settings');
       }
     } catch (error) {
-      this.adminError.set('Network error updating user settings');
+      this.adminError.set(error instanceof Error ? error.message : 'Unexpected error updating user settings');
     } finally {
       this.isAdminOperation.set(false);
     }
   }
 
-  async connectAdminAuth(): Promise<void> {
-    try {
-      await this.apiService.connectNostrExtension();
-      this.grokConfigError.set(null);
-    } catch (error) {
-      this.grokConfigError.set(error instanceof Error ? error.message : 'Failed to connect to Nostr extension');
-    }
-  }
-
-  disconnectAdminAuth(): void {
-    this.apiService.disconnectNostrExtension();
-  }
-
   async loadGrokConfig(): Promise<void> {
     this.grokConfigLoading.set(true);
     this.grokConfigError.set(null);
@@ -416,14 +410,6 @@ export class SettingsManagement implements OnInit {
     this.clearResults();
   }
 
-  isAdminAuthConnected(): boolean {
-    return this.apiService.getNostrAuthState().isAuthenticated;
-  }
-
-  getAdminAuthPubkey(): string | null {
-    return this.apiService.getNostrAuthState().pubkey || null;
-  }
-
   isValidUrl(url?: string): boolean {
     if (!url) return true; // Optional field
     try {
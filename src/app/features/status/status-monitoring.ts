@@ -1,8 +1,20 @@
-import { Component, OnInit, OnDestroy, signal } from '@angular/core';
+import { Component, DestroyRef, OnInit, OnDestroy, computed, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { ApiService } from '../../core/services/api.service';
+import { ApiService, RequestOptions } from '../../core/services/api.service';
 import { UtilsService } from '../../shared/utils/utils.service';
-import { ServiceStatus, HealthStatus } from '../../shared/models/api.models';
+import { RequestScope } from '../../shared/utils/request-scope';
+import { ApiResponse, ServiceStatus, HealthStatus } from '../../shared/models/api.models';
+
+/** Endpoints slower than this are flagged as a warning */
+const SLOW_RESPONSE_MS = 1000;
+
+interface EndpointCheck {
+  endpoint: string;
+  status: 'ok' | 'warning' | 'error' | 'unknown';
+  responseTime: number;
+  lastCheck: number;
+  message?: string;
+}
 
 @Component({
   selector: 'app-status-monitoring',
@@ -14,6 +26,7 @@ import { ServiceStatus, HealthStatus } from '../../shared/models/api.models';
 export class StatusMonitoring implements OnInit, OnDestroy {
   private utils = new UtilsService();
   private refreshInterval?: number;
+  private requests: RequestScope;
 
   // Signals for reactive state management
   serviceStatus = signal<ServiceStatus | null>(null);
@@ -30,45 +43,46 @@ export class StatusMonitoring implements OnInit, OnDestroy {
   refreshIntervalSeconds = signal(30);
   lastUpdated = signal<number | null>(null);
 
-  // System metrics (simulated - would come from real monitoring)
-  systemMetrics = signal({
-    cpu: 45,
-    memory: 68,
-    disk: 72,
-    network: 23
+  /** Share of the server's memory in use, from `/status`; null when the server doesn't report it */
+  memoryUsage = computed(() => {
+    const memory = this.serviceStatus()?.system?.memory;
+    const total = parseFloat(memory?.total ?? '');
+    const free = parseFloat(memory?.free ?? '');
+    return total > 0 && free >= 0 ? (1 - free / total) * 100 : null;
   });
 
-  // Service endpoints status (simulated)
-  endpointStatus = signal([
-    { endpoint: '/status', status: 'ok', responseTime: 12, lastCheck: Date.now() },
-    { endpoint: '/status/health', status: 'ok', responseTime: 8, lastCheck: Date.now() },
-    { endpoint: '/accounts', status: 'ok', responseTime: 156, lastCheck: Date.now() },
-    { endpoint: '/payments', status: 'ok', responseTime: 89, lastCheck: Date.now() },
-    { endpoint: '/notifications', status: 'warning', responseTime: 2340, lastCheck: Date.now() },
-    { endpoint: '/backups', status: 'ok', responseTime: 234, lastCheck: Date.now() },
-    { endpoint: '/settings', status: 'ok', responseTime: 67, lastCheck: Date.now() }
-  ]);
-
-  constructor(private apiService: ApiService) {}
+  // Public endpoints only, so checking them never asks the admin to sign.
+  // Probes always reload, so the response cache can't answer them
+  private readonly probes: { endpoint: string; request: (options: RequestOptions) => Promise<ApiResponse<unknown>> }[] = [
+    { endpoint: '/status', request: options => this.apiService.getServiceStatus(options) },
+    { endpoint: '/status/health', request: options => this.apiService.getHealthStatus(options) },
+    { endpoint: '/account/tiers', request: options => this.apiService.getTiers(options) },
+    { endpoint: '/key', request: options => this.apiService.getVapidKey(options) }
+  ];
+
+  endpointStatus = signal<EndpointCheck[]>(this.probes.map(({ endpoint }) => ({
+    endpoint,
+    status: 'unknown',
+    responseTime: 0,
+    lastCheck: 0
+  })));
+
+  constructor(private apiService: ApiService, destroyRef: DestroyRef) {
+    this.requests = new RequestScope(destroyRef);
+  }
 
   ngOnInit() {
     this.loadServiceStatus();
     this.loadHealthStatus();
-    this.startSystemMetricsSimulation();
+    this.refreshEndpointStatus();
   }
 
   ngOnDestroy() {
     this.stopAutoRefresh();
-    this.stopSystemMetricsSimulation();
-  }
-
-  getSystemMetricValue(metricKey: string): number {
-    const metrics = this.systemMetrics() as any;
-    return metrics[metricKey] || 0;
   }
 
   getAverageResponseTime(): number {
-    const endpoints = this.endpointStatus();
+    const endpoints = this.endpointStatus().filter(ep => ep.lastCheck > 0);
     if (endpoints.length === 0) return 0;
     const total = endpoints.reduce((sum, ep) => sum + ep.responseTime, 0);
     return Math.round(total / endpoints.length);
@@ -83,11 +97,13 @@ export class StatusMonitoring implements OnInit, OnDestroy {
   }
 
   async loadServiceStatus() {
+    const signal = this.requests.latest('status');
     this.statusLoading.set(true);
     this.statusError.set(null);
 
     try {
-      const response = await this.apiService.getServiceStatus();
+      const response = await this.apiService.getServiceStatus({ signal, reload: true });
+      if (signal.aborted) return;
       if (response.success && response.data) {
         this.serviceStatus.set(response.data);
         this.lastUpdated.set(Date.now());
@@ -95,36 +111,38 @@ export class StatusMonitoring implements OnInit, OnDestroy {
         this.statusError.set(response.message || 'Failed to load service status');
       }
     } catch (error) {
-      this.statusError.set('Network error loading service status');
+      this.statusError.set(error instanceof Error ? error.message : 'Unexpected error loading service status');
     } finally {
-      this.statusLoading.set(false);
+      if (!signal.aborted) this.statusLoading.set(false);
     }
   }
 
   async loadHealthStatus() {
+    const signal = this.requests.latest('health');
     this.healthLoading.set(true);
     this.healthError.set(null);
 
     try {
-      const response = await this.apiService.getHealthStatus();
+      const response = await this.apiService.getHealthStatus({ signal, reload: true });
+      if (signal.aborted) return;
       if (response.success && response.data) {
         this.healthStatus.set(response.data);
       } else {
         this.healthError.set(response.message || 'Failed to load health status');
       }
     } catch (error) {
-      this.healthError.set('Network error loading health status');
+      this.healthError.set(error instanceof Error ? error.message : 'Unexpected error loading health status');
     } finally {
-      this.healthLoading.set(false);
+      if (!signal.aborted) this.healthLoading.set(false);
     }
   }
 
   async refreshAll() {
     await Promise.all([
       this.loadServiceStatus(),
-      this.loadHealthStatus()
+      this.loadHealthStatus(),
+      this.refreshEndpointStatus()
     ]);
-    this.refreshEndpointStatus();
   }
 
   toggleAutoRefresh() {
@@ -158,37 +176,25 @@ export class StatusMonitoring implements OnInit, OnDestroy {
     }
   }
 
-  refreshEndpointStatus() {
-    // Simulate endpoint status checks with random response times
-    const currentStatus = this.endpointStatus();
-    const updatedStatus = currentStatus.map(endpoint => ({
-      ...endpoint,
-      responseTime: Math.floor(Math.random() * 500) + 10, // 10-510ms
-      status: Math.random() > 0.1 ? 'ok' : (Math.random() > 0.5 ? 'warning' : 'error'),
-      lastCheck: Date.now()
+  /**
+   * Time a request to each public endpoint
+   */
+  async refreshEndpointStatus() {
+    const signal = this.requests.latest('endpoints');
+    const checks = await Promise.all(this.probes.map(async ({ endpoint, request }): Promise<EndpointCheck> => {
+      const start = performance.now();
+      const response = await request({ signal, reload: true });
+      const responseTime = Math.round(performance.now() - start);
+
+      return {
+        endpoint,
+        status: !response.success ? 'error' : responseTime > SLOW_RESPONSE_MS ? 'warning' : 'ok',
+        responseTime,
+        lastCheck: Date.now(),
+        message: response.success ? undefined : response.message
+      };
     }));
-    this.endpointStatus.set(updatedStatus);
-  }
-
-  private systemMetricsInterval?: number;
-
-  startSystemMetricsSimulation() {
-    this.systemMetricsInterval = window.setInterval(() => {
-      const current = this.systemMetrics();
-      this.systemMetrics.set({
-        cpu: Math.max(0, Math.min(100, current.cpu + (Math.random() - 0.5) * 10)),
-        memory: Math.max(0, Math.min(100, current.memory + (Math.random() - 0.5) * 5)),
-        disk: Math.max(0, Math.min(100, current.disk + (Math.random() - 0.5) * 2)),
-        network: Math.max(0, Math.min(100, current.network + (Math.random() - 0.5) * 15))
-      });
-    }, 2000);
-  }
-
-  stopSystemMetricsSimulation() {
-    if (this.systemMetricsInterval) {
-      clearInterval(this.systemMetricsInterval);
-      this.systemMetricsInterval = undefined;
-    }
+    if (!signal.aborted) this.endpointStatus.set(checks);
   }
 
   formatDate(timestamp?: number): string {
@@ -251,10 +257,9 @@ export class StatusMonitoring implements OnInit, OnDestroy {
     }
   }
 
-  getMetricColor(value: number, type: string): string {
-    let threshold = 80;
-    if (type === 'network') threshold = 90; // Network can be more variable
-    
+  getMetricColor(value: number): string {
+    const threshold = 80;
+
     if (value >= threshold) return '#ef4444';
     if (value >= threshold * 0.7) return '#f59e0b';
     return '#10b981';
@@ -270,7 +275,7 @@ export class StatusMonitoring implements OnInit, OnDestroy {
     const statusData = {
       serviceStatus: this.serviceStatus(),
       healthStatus: this.healthStatus(),
-      systemMetrics: this.systemMetrics(),
+      memoryUsage: this.memoryUsage(),
       endpointStatus: this.endpointStatus(),
       timestamp: Date.now(),
       lastUpdated: this.lastUpdated()
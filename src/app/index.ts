@@ -2,6 +2,26 @@
 export { ApiService } from './core/services/api.service';
 export { NostrExtensionService } from './core/services/nostr-extension.service';
 export { Nip98AuthService } from './core/services/nip98-auth.service';
+export { SignerService } from './core/services/signer.service';
+export { SessionService } from './core/services/session.service';
+export { AccessControlService } from './core/services/access-control.service';
+export { AuditLogService } from './core/services/audit-log.service';
+export { ActivityLogService } from './core/services/activity-log.service';
+export { BackendEnvironmentService } from './core/services/backend-environment.service';
+export { ResponseCache } from './core/services/response-cache.service';
+export { TierStore } from './core/services/tier-store.service';
+export { SubscriptionAdjustmentService } from './core/services/subscription-adjustment.service';
+export { MockBackend } from './core/mock-backend/mock-backend';
+export { authGuard } from './core/guards/auth.guard';
+
+// HTTP interceptors
+export { apiInterceptors } from './core/interceptors/api-interceptors';
+export { API_ENDPOINT, API_KEY, BEARER_TOKEN, NIP98_AUTH, REQUEST_RETRIES, REQUEST_TIMEOUT } from './core/interceptors/api-context';
+
+// Signers
+export { ExtensionSigner } from './core/signers/extension-signer';
+export { LocalKeySigner } from './core/signers/local-key-signer';
+export { Nip46RemoteSigner } from './core/signers/nip46-remote-signer';
 
 // Shared models
 export type { 
@@ -13,10 +33,28 @@ export type {
   NostrEvent,
   NostrEventTemplate,
   NostrExtension,
+  Signer,
+  SignerType,
   Nip98AuthOptions,
   Nip98Token,
-  AuthenticationState
+  AuthenticationState,
+  AdminIdentity,
+  AuditLogEntry,
+  ActivityLogEntry,
+  HarLog,
+  HarEntry,
+  AdminRole,
+  AdminEntry,
+  Permission,
+  ApiErrorKind,
+  BackendEnvironment,
+  RuntimeConfig
 } from './shared/models/api.models';
+export { ApiError } from './shared/models/api-error';
+export type { ApiOperations, ApiSchemas } from './shared/models/nostria-api.generated';
+export { RequestScope } from './shared/utils/request-scope';
+export { SchemaError, validate } from './shared/utils/schema';
+export type { Schema } from './shared/utils/schema';
 
 // Feature components
 export { Dashboard } from './features/dashboard/dashboard';
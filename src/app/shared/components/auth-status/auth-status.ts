@@ -0,0 +1,33 @@
+import { Component, computed } from '@angular/core';
+import { Router, RouterLink } from '@angular/router';
+import { SessionService } from '../../../core/services/session.service';
+
+/**
+ * Shows the app-wide admin session on pages that make authenticated calls
+ */
+@Component({
+  selector: 'app-auth-status',
+  standalone: true,
+  imports: [RouterLink],
+  templateUrl: './auth-status.html',
+  styleUrl: './auth-status.scss'
+})
+export class AuthStatus {
+  protected readonly shortPubkey = computed(() => {
+    const pubkey = this.session.pubkey();
+    return pubkey ? `${pubkey.substring(0, 8)}...${pubkey.substring(pubkey.length - 8)}` : '';
+  });
+
+  constructor(
+    protected session: SessionService,
+    private router: Router
+  ) {}
+
+  protected get returnUrl(): string {
+    return this.router.url;
+  }
+
+  protected signOut(): void {
+    this.session.logout();
+  }
+}
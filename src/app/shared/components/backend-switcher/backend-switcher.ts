@@ -0,0 +1,27 @@
+import { Component } from '@angular/core';
+import { ApiService } from '../../../core/services/api.service';
+import { BackendEnvironmentService } from '../../../core/services/backend-environment.service';
+
+/**
+ * Picks which API the portal talks to, from the presets in config.json
+ */
+@Component({
+  selector: 'app-backend-switcher',
+  standalone: true,
+  templateUrl: './backend-switcher.html',
+  styleUrl: './backend-switcher.scss'
+})
+export class BackendSwitcher {
+  constructor(
+    protected backend: BackendEnvironmentService,
+    private apiService: ApiService
+  ) {}
+
+  protected select(id: string): void {
+    if (id === this.backend.selected().id) return;
+
+    this.backend.select(id);
+    // Each server has its own clock
+    void this.apiService.syncServerClock();
+  }
+}
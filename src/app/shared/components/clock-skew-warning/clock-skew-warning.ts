@@ -0,0 +1,18 @@
+import { Component, computed } from '@angular/core';
+import { ClockService } from '../../../core/services/clock.service';
+
+/**
+ * Warns when the local clock is far enough off the server's to break NIP-98 tokens
+ */
+@Component({
+  selector: 'app-clock-skew-warning',
+  standalone: true,
+  templateUrl: './clock-skew-warning.html',
+  styleUrl: './clock-skew-warning.scss'
+})
+export class ClockSkewWarning {
+  protected readonly skewSeconds = computed(() => Math.round(Math.abs(this.clock.offset()) / 1000));
+  protected readonly direction = computed(() => this.clock.offset() > 0 ? 'behind' : 'ahead of');
+
+  constructor(protected clock: ClockService) {}
+}
@@ -0,0 +1,68 @@
+import { Component, HostListener, computed, signal } from '@angular/core';
+import { Router, RouterLink } from '@angular/router';
+import { SessionService } from '../../../core/services/session.service';
+import { AccessControlService } from '../../../core/services/access-control.service';
+import { AdminIdentity } from '../../models/api.models';
+
+/**
+ * Lists the connected admin identities in the app shell and switches the one requests are signed with
+ */
+@Component({
+  selector: 'app-identity-switcher',
+  standalone: true,
+  imports: [RouterLink],
+  templateUrl: './identity-switcher.html',
+  styleUrl: './identity-switcher.scss'
+})
+export class IdentitySwitcher {
+  protected readonly open = signal(false);
+  protected readonly active = computed(() =>
+    this.session.identities().find(identity => identity.pubkey === this.session.pubkey()) ?? null
+  );
+
+  constructor(
+    protected session: SessionService,
+    protected access: AccessControlService,
+    private router: Router
+  ) {}
+
+  protected displayName(identity: AdminIdentity): string {
+    return this.access.labelFor(identity.pubkey) ?? `${identity.pubkey.substring(0, 8)}...`;
+  }
+
+  protected roles(identity: AdminIdentity): string {
+    return this.access.rolesFor(identity.pubkey).join(', ') || 'no access';
+  }
+
+  protected toggle(): void {
+    this.open.update(open => !open);
+  }
+
+  protected switchTo(identity: AdminIdentity): void {
+    this.session.switchIdentity(identity.pubkey);
+    this.open.set(false);
+  }
+
+  protected remove(identity: AdminIdentity, event: Event): void {
+    event.stopPropagation();
+    this.session.removeIdentity(identity.pubkey);
+    if (!this.session.isAuthenticated()) {
+      this.open.set(false);
+    }
+  }
+
+  protected signOutAll(): void {
+    this.session.logout();
+    this.open.set(false);
+    this.router.navigate(['/login']);
+  }
+
+  protected close(): void {
+    this.open.set(false);
+  }
+
+  @HostListener('document:keydown.escape')
+  protected onEscape(): void {
+    this.open.set(false);
+  }
+}
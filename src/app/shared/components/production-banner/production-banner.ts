@@ -0,0 +1,16 @@
+import { Component } from '@angular/core';
+import { BackendEnvironmentService } from '../../../core/services/backend-environment.service';
+
+/**
+ * Makes it impossible to miss that changes will hit real accounts, that none are real,
+ * or that the deployment has no admins configured
+ */
+@Component({
+  selector: 'app-production-banner',
+  standalone: true,
+  templateUrl: './production-banner.html',
+  styleUrl: './production-banner.scss'
+})
+export class ProductionBanner {
+  constructor(protected backend: BackendEnvironmentService) {}
+}
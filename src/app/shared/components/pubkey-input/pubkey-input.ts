@@ -0,0 +1,116 @@
+import { Component, DestroyRef, forwardRef, input, signal } from '@angular/core';
+import { ControlValueAccessor, NG_VALUE_ACCESSOR } from '@angular/forms';
+import { PubkeyResolver } from '../../../core/services/pubkey-resolver.service';
+import { parsePubkeyInput, toNpub } from '../../utils/pubkey';
+import { RequestScope } from '../../utils/request-scope';
+
+/** Wait for typing to pause before looking up a NIP-05 address */
+const LOOKUP_DELAY_MS = 400;
+
+type Resolution =
+  | { status: 'empty' | 'invalid' }
+  | { status: 'resolving'; address: string }
+  | { status: 'resolved'; npub: string; address?: string }
+  | { status: 'failed'; message: string };
+
+/**
+ * A form control for a pubkey that takes hex, `npub`, `nprofile` or a NIP-05 address,
+ * shows the npub it stands for, and writes the hex key to the form. Until what was
+ * typed resolves the form holds the raw text, which `pubkeyValidator` rejects.
+ */
+@Component({
+  selector: 'app-pubkey-input',
+  standalone: true,
+  templateUrl: './pubkey-input.html',
+  styleUrl: './pubkey-input.scss',
+  providers: [{ provide: NG_VALUE_ACCESSOR, useExisting: forwardRef(() => PubkeyInput), multi: true }]
+})
+export class PubkeyInput implements ControlValueAccessor {
+  readonly inputId = input('');
+  readonly placeholder = input('Hex, npub, nprofile or name@domain');
+
+  protected readonly text = signal('');
+  protected readonly resolution = signal<Resolution>({ status: 'empty' });
+  protected readonly touched = signal(false);
+  protected readonly disabled = signal(false);
+
+  private requests: RequestScope;
+  private value = '';
+  private lookupTimer?: ReturnType<typeof setTimeout>;
+  private onChange: (value: string) => void = () => {};
+  private onTouched: () => void = () => {};
+
+  constructor(private resolver: PubkeyResolver, destroyRef: DestroyRef) {
+    this.requests = new RequestScope(destroyRef);
+    destroyRef.onDestroy(() => clearTimeout(this.lookupTimer));
+  }
+
+  writeValue(value: string | null): void {
+    this.value = value ?? '';
+    this.text.set(this.value);
+    if (!this.value) this.touched.set(false);
+    this.update(this.value);
+  }
+
+  registerOnChange(fn: (value: string) => void): void {
+    this.onChange = fn;
+  }
+
+  registerOnTouched(fn: () => void): void {
+    this.onTouched = fn;
+  }
+
+  setDisabledState(disabled: boolean): void {
+    this.disabled.set(disabled);
+  }
+
+  protected onInput(text: string): void {
+    this.text.set(text);
+    this.update(text);
+  }
+
+  protected onBlur(): void {
+    this.touched.set(true);
+    this.onTouched();
+  }
+
+  private update(text: string): void {
+    clearTimeout(this.lookupTimer);
+    this.requests.cancel('lookup');
+
+    const parsed = parsePubkeyInput(text);
+    if (!parsed) {
+      this.resolution.set({ status: text.trim() ? 'invalid' : 'empty' });
+      this.emit(text.trim() ? text : '');
+      return;
+    }
+    if (parsed.type !== 'nip05') {
+      this.resolution.set({ status: 'resolved', npub: toNpub(parsed.pubkey)! });
+      this.emit(parsed.pubkey);
+      return;
+    }
+
+    const address = `${parsed.name}@${parsed.domain}`;
+    this.resolution.set({ status: 'resolving', address });
+    this.emit(text);
+
+    const signal = this.requests.latest('lookup');
+    this.lookupTimer = setTimeout(async () => {
+      const response = await this.resolver.resolve(address, { signal });
+      if (signal.aborted) return;
+      if (response.success) {
+        this.resolution.set({ status: 'resolved', npub: toNpub(response.data)!, address });
+        this.emit(response.data);
+      } else {
+        this.resolution.set({ status: 'failed', message: response.message || `Could not look up ${address}` });
+      }
+    }, LOOKUP_DELAY_MS);
+  }
+
+  /** Tell the form only about actual changes, so writing a hex key back doesn't loop */
+  private emit(value: string): void {
+    if (value === this.value) return;
+    this.value = value;
+    this.onChange(value);
+  }
+}
@@ -0,0 +1,50 @@
+import { HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { ApiError } from './api-error';
+
+describe('ApiError', () => {
+  it('should classify status codes', () => {
+    expect(ApiError.classify(401)).toBe('auth');
+    expect(ApiError.classify(403)).toBe('auth');
+    expect(ApiError.classify(400)).toBe('validation');
+    expect(ApiError.classify(409)).toBe('validation');
+    expect(ApiError.classify(404)).toBe('not-found');
+    expect(ApiError.classify(429)).toBe('rate-limited');
+    expect(ApiError.classify(503)).toBe('server');
+  });
+
+  it('should carry the server error body and request', () => {
+    const response = new HttpErrorResponse({ status: 409, error: { error: 'conflict', message: 'Account already exists' } });
+    const error = ApiError.fromHttpError(response, 'POST', '/account');
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.kind).toBe('validation');
+    expect(error.status).toBe(409);
+    expect(error.body).toEqual({ error: 'conflict', message: 'Account already exists' });
+    expect(error.method).toBe('POST');
+    expect(error.endpoint).toBe('/account');
+    expect(error.message).toBe('Account already exists (HTTP 409)');
+  });
+
+  it('should fall back to a default message for bodies that are not JSON', () => {
+    const error = ApiError.fromHttpError(new HttpErrorResponse({ status: 502, error: '<html>Bad Gateway</html>' }), 'GET', '/status');
+
+    expect(error.kind).toBe('server');
+    expect(error.body).toBeUndefined();
+    expect(error.message).toContain('(HTTP 502)');
+  });
+
+  it('should tell unreachable servers and unreadable responses apart from HTTP errors', () => {
+    expect(ApiError.fromHttpError(new HttpErrorResponse({ status: 0, error: new ProgressEvent('error') }), 'GET', '/status').kind)
+      .toBe('network');
+    expect(ApiError.fromHttpError(new HttpErrorResponse({ status: 200, error: { error: new SyntaxError('bad'), text: '<' } }), 'GET', '/status').kind)
+      .toBe('server');
+  });
+
+  it('should read Retry-After as seconds or an HTTP date', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    const headers = new HttpHeaders({ 'Retry-After': 'Thu, 01 Jan 2026 00:00:30 GMT' });
+
+    expect(ApiError.parseRetryAfter('120')).toBe(120_000);
+    expect(ApiError.fromHttpError(new HttpErrorResponse({ status: 503, headers }), 'GET', '/status', now).retryAfterMs).toBe(30_000);
+  });
+});
@@ -0,0 +1,170 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import type { ApiErrorKind, Error as ServerError } from './api.models';
+import type { SchemaError } from '../utils/schema';
+
+const DEFAULT_MESSAGES: Record<ApiErrorKind, string> = {
+  'auth': 'Not authorized',
+  'validation': 'The request was rejected',
+  'not-found': 'Not found',
+  'rate-limited': 'Too many requests, please wait and try again',
+  'network': 'Could not reach the server',
+  'timeout': 'The server took too long to respond',
+  'server': 'The server had a problem handling the request',
+  'cancelled': 'The request was cancelled',
+  'schema': 'The server sent data in an unexpected shape'
+};
+
+export interface ApiErrorOptions extends ErrorOptions {
+  status?: number;
+  /** The server's `{ error, message }` body, if it sent one */
+  body?: ServerError;
+  /** How long the server asked us to wait before retrying, from `Retry-After` */
+  retryAfterMs?: number;
+  /** Where a response didn't match its schema, e.g. `$.jobs[2].status` */
+  path?: string;
+}
+
+/**
+ * A failed API call: what kind of failure it was, the request it belonged to
+ * and, when the server answered, its status code and error body
+ */
+export class ApiError extends Error {
+  readonly status?: number;
+  readonly body?: ServerError;
+  readonly retryAfterMs?: number;
+  readonly path?: string;
+
+  constructor(
+    readonly kind: ApiErrorKind,
+    message: string,
+    readonly method: string,
+    readonly endpoint: string,
+    options: ApiErrorOptions = {}
+  ) {
+    super(message, options);
+    this.name = 'ApiError';
+    this.status = options.status;
+    this.body = options.body;
+    this.retryAfterMs = options.retryAfterMs;
+    this.path = options.path;
+  }
+
+  /**
+   * Map an HTTP status to an error kind
+   */
+  static classify(status: number): ApiErrorKind {
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 404 || status === 410) return 'not-found';
+    if (status === 429) return 'rate-limited';
+    if (status >= 500) return 'server';
+    return 'validation';
+  }
+
+  /**
+   * Build an error from a failed HttpClient request, reading the server's error body if there is one
+   * @param now Current time in milliseconds on the server's clock, for `Retry-After` dates
+   */
+  static fromHttpError(error: unknown, method: string, endpoint: string, now = Date.now()): ApiError {
+    if (!(error instanceof HttpErrorResponse) || error.status === 0) {
+      return ApiError.network(error, method, endpoint);
+    }
+    if (error.status >= 200 && error.status < 300) {
+      // HttpClient reports a 2xx whose body didn't parse as an error
+      return ApiError.invalidResponse(error.error?.error ?? error, error.status, method, endpoint);
+    }
+
+    const kind = ApiError.classify(error.status);
+    const body = ApiError.readBody(error.error);
+    const detail = body?.message || body?.error || DEFAULT_MESSAGES[kind];
+
+    return new ApiError(kind, `${detail} (HTTP ${error.status})`, method, endpoint, {
+      status: error.status,
+      body,
+      retryAfterMs: ApiError.parseRetryAfter(error.headers.get('Retry-After'), now)
+    });
+  }
+
+  /**
+   * Wrap a failure that happened before any response arrived
+   */
+  static network(cause: unknown, method: string, endpoint: string): ApiError {
+    const detail = cause instanceof Error && cause.message ? `: ${cause.message}` : '';
+    return new ApiError('network', `${DEFAULT_MESSAGES.network}${detail}`, method, endpoint, { cause });
+  }
+
+  /**
+   * A request that was aborted because it ran past its timeout
+   */
+  static timeout(timeoutMs: number, method: string, endpoint: string): ApiError {
+    return new ApiError('timeout', `${DEFAULT_MESSAGES.timeout} (${timeoutMs / 1000}s)`, method, endpoint);
+  }
+
+  /**
+   * A request abandoned by its caller, e.g. because the page was left or a newer search started
+   */
+  static cancelled(method: string, endpoint: string): ApiError {
+    return new ApiError('cancelled', DEFAULT_MESSAGES.cancelled, method, endpoint);
+  }
+
+  /**
+   * Wrap a failure to sign the NIP-98 token for a request
+   */
+  static signing(cause: unknown, method: string, endpoint: string): ApiError {
+    const detail = cause instanceof Error ? cause.message : 'Unknown error';
+    return new ApiError('auth', `Authentication failed: ${detail}`, method, endpoint, { cause });
+  }
+
+  /**
+   * Wrap a 2xx response whose body could not be read
+   */
+  static invalidResponse(cause: unknown, status: number, method: string, endpoint: string): ApiError {
+    return new ApiError('server', 'The server sent a response that could not be read', method, endpoint, {
+      status,
+      cause
+    });
+  }
+
+  /**
+   * Wrap a 2xx response whose body didn't match the schema of the model it should be
+   */
+  static schemaMismatch(cause: SchemaError, method: string, endpoint: string): ApiError {
+    return new ApiError('schema', `${DEFAULT_MESSAGES.schema}: ${cause.message}`, method, endpoint, {
+      path: cause.path,
+      cause
+    });
+  }
+
+  /**
+   * Read a `Retry-After` header, which is either a number of seconds or an HTTP date
+   * @param now Current time in milliseconds, on the server's clock for HTTP dates
+   */
+  static parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+    if (!value) return undefined;
+
+    const seconds = Number(value.trim());
+    if (Number.isFinite(seconds) && seconds >= 0) {
+      return seconds * 1000;
+    }
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+  }
+
+  private static readBody(body: unknown): ServerError | undefined {
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        // Not JSON; the status code is all we have
+        return undefined;
+      }
+    }
+    if (body && typeof body === 'object') {
+      const { error, message } = body as Partial<ServerError>;
+      if (typeof error === 'string' || typeof message === 'string') {
+        return body as ServerError;
+      }
+    }
+    return undefined;
+  }
+}
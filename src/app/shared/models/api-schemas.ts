@@ -0,0 +1,243 @@
+import {
+  Schema, array, arrayOfKnown, boolean, number, object, oneOf, openOneOf, optional, record, string
+} from '../utils/schema';
+import type {
+  Account, AccountListItem, AccountListPage, BackupJobMetadata, BackupJobResponse, BillingCycle, DeviceInfo, DevicesResponse,
+  Entitlements, Feature, FeatureWithLabel, GrokAdminConfig, GrokImageModelConfig, GrokResponseModelConfig,
+  Nip05Document, NotificationResult, NotificationStatus, Payment, PublicAccount, ServiceStatus,
+  SubscriptionEvent, Tier, XConnectionInfo, XUsageInfo
+} from './api.models';
+
+// Runtime checks for the responses the portal relies on, kept next to the
+// interfaces they mirror. ApiService reports a mismatch as an ApiError of kind `schema`.
+
+const tier: Schema<Tier> = openOneOf('free', 'basic', 'premium', 'premium_plus');
+const billingCycle: Schema<BillingCycle> = oneOf('monthly', 'quarterly', 'yearly');
+
+const feature: Schema<Feature> = oneOf(
+  'BASIC_WEBPUSH', 'COMMUNITY_SUPPORT', 'USERNAME', 'NEWSLETTER', 'STORAGE_1GB', 'STORAGE_5GB',
+  'STORAGE_50GB', 'DUAL_POST_X_10', 'ANALYTICS', 'CLOUD_BACKUP_COMING_SOON', 'MEMOS', 'YOUTUBE',
+  'EXTRA_BACKUP_FEATURES'
+);
+
+const entitlements = object<Entitlements>({
+  notificationsPerDay: number(),
+  // Features newer than this build are left out, so they can't break account pages
+  features: arrayOfKnown(object<FeatureWithLabel>({ key: feature, label: string() }), 'key', feature)
+});
+
+const xConnection = object<XConnectionInfo>({
+  connected: boolean(),
+  username: optional(string()),
+  userId: optional(string())
+});
+
+const xUsage = object<XUsageInfo>({
+  totalPosts: number(),
+  postsLast24h: number(),
+  lastPosted: optional(number()),
+  limit24h: optional(number()),
+  remaining24h: optional(number())
+});
+
+export const accountSchema = object<Account>({
+  pubkey: string(),
+  username: optional(string()),
+  signupDate: number(),
+  lastLoginDate: optional(number()),
+  expires: optional(number()),
+  tier,
+  entitlements,
+  xConnection: optional(xConnection),
+  xUsage: optional(xUsage)
+});
+
+const accountListItem = object<AccountListItem>({
+  pubkey: string(),
+  username: optional(string()),
+  created: number(),
+  lastLoginDate: optional(number()),
+  expires: optional(number()),
+  tier,
+  subscription: optional(object<NonNullable<AccountListItem['subscription']>>({
+    entitlements: optional(entitlements)
+  })),
+  xConnection: optional(xConnection),
+  xUsage: optional(xUsage)
+});
+
+const accountListPage = object<AccountListPage>({
+  accounts: array(accountListItem),
+  nextCursor: optional(string()),
+  total: optional(number())
+});
+
+// Servers without paging answer with a plain array: the only page, with no cursor
+export const accountListPageSchema: Schema<AccountListPage> = (value, path) =>
+  Array.isArray(value) ? { accounts: array(accountListItem)(value, path) } : accountListPage(value, path);
+
+export const subscriptionHistorySchema = array(object<SubscriptionEvent>({
+  type: openOneOf('signup', 'payment', 'extension'),
+  date: number(),
+  tier,
+  expires: optional(number()),
+  paymentId: optional(string()),
+  billingCycle: optional(billingCycle),
+  priceCents: optional(number()),
+  days: optional(number())
+}));
+
+export const publicAccountSchema = object<PublicAccount>({
+  pubkey: string(),
+  signupDate: number(),
+  tier: string(),
+  isActive: boolean(),
+  username: optional(string())
+});
+
+export const paymentSchema = object<Payment>({
+  id: string(),
+  type: string(),
+  paymentType: string(),
+  lnHash: optional(string()),
+  lnInvoice: string(),
+  lnAmountSat: number(),
+  tier,
+  billingCycle,
+  priceCents: number(),
+  pubkey: string(),
+  isPaid: boolean(),
+  paid: optional(number()),
+  expires: number(),
+  status: openOneOf('pending', 'expired', 'paid', 'cancelled'),
+  created: number(),
+  modified: number()
+});
+
+export const paymentListSchema = array(paymentSchema);
+
+export const backupJobSchema = object<BackupJobResponse>({
+  id: string(),
+  status: openOneOf('pending', 'scheduled', 'in_progress', 'completed', 'failed', 'expired'),
+  backupType: openOneOf('full', 'incremental', 'selective'),
+  requestedAt: number(),
+  scheduledAt: optional(number()),
+  startedAt: optional(number()),
+  completedAt: optional(number()),
+  errorMessage: optional(string()),
+  resultUrl: optional(string()),
+  expires: optional(number()),
+  metadata: optional(object<BackupJobMetadata>({ description: optional(string()) }))
+});
+
+export const backupJobListSchema = object<{ jobs: BackupJobResponse[], total: number }>({
+  jobs: array(backupJobSchema),
+  total: number()
+});
+
+const notificationOutcome = object<{ pubkey: string, reason: string }>({ pubkey: string(), reason: string() });
+
+export const notificationResultSchema = object<NotificationResult>({
+  success: array(object<NotificationResult['success'][number]>({
+    pubkey: string(),
+    successCount: number(),
+    failCount: number()
+  })),
+  failed: array(object<NotificationResult['failed'][number]>({
+    pubkey: string(),
+    reason: string(),
+    deviceCount: number()
+  })),
+  filtered: array(notificationOutcome),
+  limited: array(notificationOutcome),
+  summary: object<NotificationResult['summary']>({
+    totalTargeted: number(),
+    successful: number(),
+    failed: number(),
+    filtered: number(),
+    limited: number()
+  })
+});
+
+export const notificationStatusSchema = object<NotificationStatus>({
+  pubkey: string(),
+  hasSubscription: boolean(),
+  deviceCount: number(),
+  isPremium: boolean(),
+  settings: object<NotificationStatus['settings']>({ enabled: boolean() }),
+  notifications: object<NotificationStatus['notifications']>({
+    count24h: number(),
+    dailyLimit: number(),
+    remaining: number()
+  })
+});
+
+export const devicesSchema = object<DevicesResponse>({
+  pubkey: string(),
+  deviceCount: number(),
+  devices: array(object<DeviceInfo>({
+    deviceId: string(),
+    endpoint: string(),
+    userAgent: optional(string()),
+    created: number(),
+    modified: number()
+  }))
+});
+
+const includedImages = object<{ includedImagesPerMonth: number }>({ includedImagesPerMonth: number() });
+
+export const grokAdminConfigSchema = object<GrokAdminConfig>({
+  enabled: boolean(),
+  allowResponses: boolean(),
+  allowImages: boolean(),
+  allowServerSideTools: boolean(),
+  guardrails: object<GrokAdminConfig['guardrails']>({ responseSafetyMarginPercent: number() }),
+  defaults: object<GrokAdminConfig['defaults']>({ responseModel: string(), imageModel: string() }),
+  topUp: object<GrokAdminConfig['topUp']>({
+    minimumCents: number(),
+    maximumCents: number(),
+    defaultOptionsCents: array(number()),
+    nanosUsdPerCent: number()
+  }),
+  quotas: object<GrokAdminConfig['quotas']>({
+    basic: includedImages,
+    premium: includedImages,
+    premiumPlus: object<GrokAdminConfig['quotas']['premiumPlus']>({
+      includedImagesPerMonth: number(),
+      dailyImageLimit: number()
+    })
+  }),
+  pricing: object<GrokAdminConfig['pricing']>({
+    responses: record(object<GrokResponseModelConfig>({
+      enabled: boolean(),
+      inputTokenNanosUsd: number(),
+      outputTokenNanosUsd: number()
+    })),
+    images: record(object<GrokImageModelConfig>({
+      enabled: boolean(),
+      imageNanosUsd: number(),
+      includedQuotaEligible: boolean()
+    }))
+  })
+});
+
+type SystemInfo = NonNullable<ServiceStatus['system']>;
+
+export const serviceStatusSchema = object<ServiceStatus>({
+  service: string(),
+  version: string(),
+  uptime: number(),
+  environment: openOneOf('development', 'staging', 'production'),
+  key: string(),
+  timestamp: number(),
+  system: optional(object<SystemInfo>({
+    platform: string(),
+    arch: string(),
+    memory: object<SystemInfo['memory']>({ total: string(), free: string() })
+  }))
+});
+
+export const nip05DocumentSchema = object<Nip05Document>({
+  names: record(string()),
+  relays: optional(record(array(string())))
+});
@@ -1,9 +1,18 @@
+import type { ApiError } from './api-error';
+
 export interface ApiResponse<T> {
   data: T;
   success: boolean;
   message?: string;
+  /** Set when success is false */
+  error?: ApiError;
 }
 
+/**
+ * What went wrong with an API call, so pages can react without parsing messages
+ */
+export type ApiErrorKind = 'auth' | 'validation' | 'not-found' | 'rate-limited' | 'network' | 'timeout' | 'server' | 'cancelled' | 'schema';
+
 export interface Customer {
   id: string;
   name: string;
@@ -56,6 +65,120 @@ export interface Account {
   xUsage?: XUsageInfo;
 }
 
+/** An account as `GET /account/list` returns it */
+export interface AccountListItem {
+  pubkey: string;
+  username?: string;
+  created: number;
+  lastLoginDate?: number;
+  expires?: number;
+  tier: Tier;
+  subscription?: {
+    entitlements?: Entitlements;
+  };
+  xConnection?: XConnectionInfo;
+  xUsage?: XUsageInfo;
+}
+
+export type AccountSort = 'signupDate' | 'lastLoginDate' | 'expires' | 'tier';
+
+/** Sort and filters for `GET /account/list`; unset filters match every account */
+export interface AccountListFilters {
+  sort?: AccountSort;
+  order?: 'asc' | 'desc';
+  tier?: Tier;
+  status?: 'active' | 'expired';
+  hasUsername?: boolean;
+  xConnected?: boolean;
+  /** Signed up at or after this time (ms) */
+  signupFrom?: number;
+  /** Signed up before this time (ms) */
+  signupTo?: number;
+}
+
+export interface AccountListQuery extends AccountListFilters {
+  limit?: number;
+  /** `nextCursor` of the previous page */
+  cursor?: string;
+}
+
+export interface AccountListPage {
+  accounts: AccountListItem[];
+  /** Absent on the last page */
+  nextCursor?: string;
+  /** Accounts matching the filters, across all pages */
+  total?: number;
+}
+
+/** Something that changed an account's subscription, from `GET /account/admin/{pubkey}/history` */
+export interface SubscriptionEvent {
+  type: OpenString<'signup' | 'payment' | 'extension'>;
+  date: number;
+  tier: Tier;
+  /** Expiry right after the event, if known */
+  expires?: number;
+  /** The paid invoice, for `payment` events */
+  paymentId?: string;
+  billingCycle?: BillingCycle;
+  priceCents?: number;
+  /** Days an admin added, for `extension` events */
+  days?: number;
+}
+
+/**
+ * An admin change to a subscription. SubscriptionAdjustmentService carries it out
+ * with the extend and admin settings endpoints; the reason goes in the audit log.
+ */
+export type SubscriptionAdjustment =
+  /** Add to the later of now and the current expiry */
+  | { action: 'extend'; months?: number; weeks?: number; reason: string }
+  /** Move the expiry later, to the day `expires` falls on, if whole months and weeks reach it; the time of day stays */
+  | { action: 'set-expiry'; expires: number; reason: string }
+  /** With `prorate`, unused time on the current tier is converted at the tiers' monthly prices */
+  | { action: 'change-tier'; tier: Tier; prorate: boolean; reason: string }
+  /** Move the account to the free tier */
+  | { action: 'revoke'; reason: string };
+
+export interface SubscriptionState {
+  tier: Tier;
+  /** Absent if it never expires */
+  expires?: number;
+}
+
+export interface SubscriptionProration {
+  /** Unused time on the current tier */
+  remainingDays: number;
+  /** What that time is worth at the current tier's monthly price */
+  creditCents: number;
+  /** How long the credit lasts at the new tier's monthly price */
+  newTierDays: number;
+}
+
+/**
+ * The API calls an adjustment takes and what they should leave behind, worked
+ * out in the portal from the account and the tiers' prices
+ */
+export interface SubscriptionAdjustmentPlan {
+  before: SubscriptionState;
+  /** Expected; the server's answers are what count */
+  after: SubscriptionState;
+  proration?: SubscriptionProration;
+  /** Set through `POST /settings/admin/set-user-settings` */
+  tier?: Tier;
+  /** `POST /account/{pubkey}/extend` calls of a month (30 days) each */
+  months: number;
+  /** `POST /account/{pubkey}/extend` calls of a week each */
+  weeks: number;
+  /** Where the API can't do exactly what was asked */
+  note?: string;
+}
+
+export interface UsernameCheck {
+  success: boolean;
+  available?: boolean;
+  message?: string;
+}
+
 export interface XConnectionInfo {
   connected: boolean;
   username?: string;
@@ -108,7 +231,12 @@ export interface Entitlements {
   features: FeatureWithLabel[];
 }
 
-export type Tier = 'free' | 'basic' | 'premium' | 'premium_plus';
+/**
+ * One of the values this build knows, or one the server added since, shown as it is
+ */
+export type OpenString<T extends string> = T | (string & {});
+
+export type Tier = OpenString<'free' | 'basic' | 'premium' | 'premium_plus'>;
 
 export interface TierDetails {
   tier: Tier;
@@ -118,18 +246,20 @@ export interface TierDetails {
 }
 
 // Backup Management
-export type BackupType = 'full' | 'incremental' | 'selective';
+export type BackupType = OpenString<'full' | 'incremental' | 'selective'>;
+
+export type BackupJobStatus = OpenString<'pending' | 'scheduled' | 'in_progress' |
+  'completed' | 'failed' | 'expired'>;
 
-export type BackupJobStatus = 'pending' | 'scheduled' | 'in_progress' | 
-  'completed' | 'failed' | 'expired';
+export interface BackupJobMetadata {
+  description?: string;
+  [key: string]: unknown;
+}
 
 export interface CreateBackupJobRequest {
   backupType: BackupType;
   scheduledAt?: number;
-  metadata?: {
-    description?: string;
-    [key: string]: any;
-  };
+  metadata?: BackupJobMetadata;
 }
 
 export interface BackupJobResponse {
@@ -143,7 +273,7 @@ export interface BackupJobResponse {
   errorMessage?: string;
   resultUrl?: string;
   expires?: number;
-  metadata?: any;
+  metadata?: BackupJobMetadata;
 }
 
 // Keys & VAPID
@@ -226,11 +356,17 @@ export interface Payment {
   isPaid: boolean;
   paid?: number;
   expires: number;
-  status: 'pending' | 'expired' | 'paid' | 'cancelled';
+  status: OpenString<'pending' | 'expired' | 'paid' | 'cancelled'>;
   created: number;
   modified: number;
 }
 
+export interface PaymentListQuery {
+  limit?: number;
+  /** Only payments of this account */
+  pubkey?: string;
+}
+
 // Settings Management
 export interface UserSettingsRequest {
   pubkey: string;
@@ -254,6 +390,7 @@ export interface UserSettings {
   nip05?: string;
   lud16?: string;
   website?: string;
+  socialSharing?: boolean;
   created: number;
   updated: number;
 }
@@ -323,19 +460,15 @@ export interface UserSettingsUpdate {
   socialSharing?: boolean;
 }
 
-export interface UserSettingsResponse {
-  pubkey: string;
-  socialSharing: boolean;
-  created: number;
-  updated: number;
-}
+/** @deprecated Settings are one resource; use `UserSettings` */
+export type UserSettingsResponse = UserSettings;
 
 // Status & Health
 export interface ServiceStatus {
   service: string;
   version: string;
   uptime: number;
-  environment: 'development' | 'staging' | 'production';
+  environment: OpenString<'development' | 'staging' | 'production'>;
   key: string;
   timestamp: number;
   system?: {
@@ -420,9 +553,38 @@ export interface NostrExtension {
   };
 }
 
+export type SignerType = 'extension' | 'nip46' | 'ncryptsec' | 'nsec' | 'ephemeral';
+
+/**
+ * Anything that can sign Nostr events on behalf of the admin
+ */
+export interface Signer {
+  readonly type: SignerType;
+  readonly name: string;
+  /** Establish the session and resolve the signing public key */
+  connect(): Promise<string>;
+  getPublicKey(): Promise<string>;
+  signEvent(event: NostrEventTemplate): Promise<NostrEvent>;
+  /** Release the session and any key material held in memory */
+  close(): void;
+}
+
 export interface Nip98AuthOptions {
   includeAuthorizationScheme?: boolean;
-  payload?: Record<string, any>;
+  /** Request body to hash into the payload tag. Pass the exact bytes sent; objects are hashed as compact JSON. */
+  payload?: Nip98Payload;
+  /** Share a fresh token with identical requests instead of signing again (default true) */
+  reuseToken?: boolean;
+}
+
+export type Nip98Payload = Record<string, any> | string | Uint8Array | ArrayBuffer;
+
+/**
+ * A domain's `/.well-known/nostr.json`, mapping NIP-05 names to hex pubkeys
+ */
+export interface Nip05Document {
+  names: Record<string, string>;
+  relays?: Record<string, string[]>;
 }
 
 export interface Nip98Token {
@@ -431,11 +593,140 @@ export interface Nip98Token {
   createdAt: number;
 }
 
+// Admin Roles & Permissions
+export type AdminRole = 'viewer' | 'support' | 'finance' | 'admin';
+
+export type Permission =
+  'dashboard:view' | 'status:view' |
+  'accounts:view' | 'accounts:manage' |
+  'payments:view' | 'payments:manage' |
+  'notifications:manage' | 'backups:manage' |
+  'settings:users' | 'settings:grok';
+
+export interface AdminEntry {
+  pubkey: string;
+  roles: AdminRole[];
+  label?: string;
+}
+
 export interface AuthenticationState {
   isAuthenticated: boolean;
+  /** The active identity; requests are signed with this key */
   pubkey?: string;
   extensionName?: string;
+  signerType?: SignerType;
   supportedNips?: number[];
+  /** Every connected identity, including the active one */
+  identities?: AdminIdentity[];
+}
+
+export interface AuditLogEntry {
+  id: string;
+  timestamp: number;
+  /** Admin identity active when the request was made, which signs its NIP-98 token; empty when signed out */
+  pubkey: string;
+  method: string;
+  endpoint: string;
+  success: boolean;
+  status?: number;
+  message?: string;
+  /** Why the admin made the change, when the caller passed one */
+  reason?: string;
+}
+
+/** One attempt of an API request, as captured by the activity log. Secrets are redacted. */
+export interface ActivityLogEntry {
+  id: string;
+  startedAt: number;
+  method: string;
+  url: string;
+  /** API path, e.g. `/account/tiers` */
+  endpoint: string;
+  /** Counting from 1; retries of the same request get higher numbers */
+  attempt?: number;
+  /** Undefined while in flight, 0 when no response arrived */
+  status?: number;
+  statusText?: string;
+  durationMs?: number;
+  requestHeaders: Record<string, string>;
+  requestBody?: string;
+  responseHeaders?: Record<string, string>;
+  responseBody?: string;
+  error?: { kind: ApiErrorKind; message: string };
+  /** The event from a NIP-98 Authorization header, without its signature */
+  nip98Event?: NostrEvent;
+}
+
+// HAR 1.2, as exported from the activity log
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    cookies: HarNameValue[];
+    headersSize: number;
+    bodySize: number;
+    postData?: { mimeType: string; text: string };
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarNameValue[];
+    cookies: HarNameValue[];
+    content: { size: number; mimeType: string; text: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  _attempt?: number;
+  _nip98Event?: NostrEvent;
+  _error?: { kind: ApiErrorKind; message: string };
+}
+
+export interface HarLog {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+export interface AdminIdentity {
+  pubkey: string;
+  signerType: SignerType;
+  signerName: string;
+}
+
+// Runtime configuration (public/config.json)
+export interface BackendEnvironment {
+  id: string;
+  label: string;
+  /** API origin, with or without the trailing `/api` */
+  apiBaseUrl: string;
+  /** Real accounts and payments; the shell shows a warning banner */
+  production?: boolean;
+  /** Answer requests from the in-memory mock backend instead of `apiBaseUrl` */
+  mock?: boolean;
+}
+
+export interface RuntimeConfig {
+  environments: BackendEnvironment[];
+  /** Preset to use until the admin picks one */
+  defaultEnvironment?: string;
+  /** Admin allowlist for this deployment; replaces the build-time `environment.admins` */
+  admins?: AdminEntry[];
 }
 
 declare global {
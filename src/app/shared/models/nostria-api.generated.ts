@@ -0,0 +1,613 @@
+// Generated by scripts/generate-api-types.mjs from api/nostria.openapi.json. Do not edit;
+// change the document and run `npm run api:generate` instead.
+
+/** Models of the Nostria API 1.0.0 */
+export interface ApiSchemas {
+  /** Body of every error response */
+  Error: {
+    error: string;
+    message?: string;
+  };
+  SuccessMessage: {
+    success: boolean;
+    message: string;
+  };
+  Tier: 'free' | 'basic' | 'premium' | 'premium_plus' | (string & {});
+  BillingCycle: 'monthly' | 'quarterly' | 'yearly';
+  Feature: 'BASIC_WEBPUSH' | 'COMMUNITY_SUPPORT' | 'USERNAME' | 'NEWSLETTER' | 'STORAGE_1GB' | 'STORAGE_5GB' | 'STORAGE_50GB' | 'DUAL_POST_X_10' | 'ANALYTICS' | 'CLOUD_BACKUP_COMING_SOON' | 'MEMOS' | 'YOUTUBE' | 'EXTRA_BACKUP_FEATURES';
+  FeatureWithLabel: {
+    key: ApiSchemas['Feature'];
+    label: string;
+  };
+  Price: {
+    priceCents: number;
+    currency: string;
+  };
+  Pricing: {
+    monthly?: ApiSchemas['Price'];
+    quarterly?: ApiSchemas['Price'];
+    yearly?: ApiSchemas['Price'];
+  };
+  Entitlements: {
+    notificationsPerDay: number;
+    features: ApiSchemas['FeatureWithLabel'][];
+  };
+  TierDetails: {
+    tier: ApiSchemas['Tier'];
+    name: string;
+    pricing?: ApiSchemas['Pricing'];
+    entitlements: ApiSchemas['Entitlements'];
+  };
+  XConnectionInfo: {
+    connected: boolean;
+    username?: string;
+    userId?: string;
+  };
+  XUsageInfo: {
+    totalPosts: number;
+    postsLast24h: number;
+    /** Unix time in milliseconds */
+    lastPosted?: number;
+    limit24h?: number;
+    remaining24h?: number;
+  };
+  Account: {
+    pubkey: string;
+    username?: string;
+    /** Unix time in milliseconds */
+    signupDate: number;
+    /** Unix time in milliseconds */
+    lastLoginDate?: number;
+    /** Unix time in milliseconds */
+    expires?: number;
+    tier: ApiSchemas['Tier'];
+    entitlements: ApiSchemas['Entitlements'];
+    xConnection?: ApiSchemas['XConnectionInfo'];
+    xUsage?: ApiSchemas['XUsageInfo'];
+  };
+  PublicAccount: {
+    pubkey: string;
+    /** Unix time in milliseconds */
+    signupDate: number;
+    tier: string;
+    isActive: boolean;
+    username?: string;
+  };
+  AccountListItem: {
+    pubkey: string;
+    username?: string;
+    /** Unix time in milliseconds */
+    created: number;
+    /** Unix time in milliseconds */
+    lastLoginDate?: number;
+    /** Unix time in milliseconds */
+    expires?: number;
+    tier: ApiSchemas['Tier'];
+    subscription?: {
+      entitlements?: ApiSchemas['Entitlements'];
+    };
+    xConnection?: ApiSchemas['XConnectionInfo'];
+    xUsage?: ApiSchemas['XUsageInfo'];
+  };
+  /** One page of the account list. Proposed; the API returns a plain array today */
+  AccountListPage: {
+    accounts: ApiSchemas['AccountListItem'][];
+    /** Pass as `cursor` for the next page; absent on the last page */
+    nextCursor?: string;
+    /** Accounts matching the filters, across all pages */
+    total?: number;
+  };
+  AddAccountRequest: {
+    pubkey: string;
+    username?: string;
+    paymentId?: string;
+  };
+  UpdateAccountRequest: {
+    username?: string;
+  };
+  UsernameCheck: {
+    success: boolean;
+    available?: boolean;
+    message?: string;
+  };
+  ExtendSubscriptionRequest: {
+    months: 1;
+  } | {
+    weeks: 1;
+  };
+  ExtendSubscriptionResponse: {
+    success: boolean;
+    message: string;
+    /** Unix time in milliseconds */
+    newExpires: number;
+  };
+  /** Something that changed an account's subscription */
+  SubscriptionEvent: {
+    type: 'signup' | 'payment' | 'extension' | (string & {});
+    /** When it happened (ms) */
+    date: number;
+    tier: ApiSchemas['Tier'];
+    /** Expiry right after the event, if known (ms) */
+    expires?: number;
+    /** The paid invoice, for `payment` events */
+    paymentId?: string;
+    billingCycle?: ApiSchemas['BillingCycle'];
+    priceCents?: number;
+    /** Days an admin added, for `extension` events */
+    days?: number;
+  };
+  BackupType: 'full' | 'incremental' | 'selective' | (string & {});
+  BackupJobStatus: 'pending' | 'scheduled' | 'in_progress' | 'completed' | 'failed' | 'expired' | (string & {});
+  /** Free-form details kept with a backup job */
+  BackupJobMetadata: {
+    description?: string;
+    [key: string]: unknown;
+  };
+  CreateBackupJobRequest: {
+    backupType: ApiSchemas['BackupType'];
+    /** Unix time in milliseconds */
+    scheduledAt?: number;
+    metadata?: ApiSchemas['BackupJobMetadata'];
+  };
+  BackupJobResponse: {
+    id: string;
+    status: ApiSchemas['BackupJobStatus'];
+    backupType: ApiSchemas['BackupType'];
+    /** Unix time in milliseconds */
+    requestedAt: number;
+    /** Unix time in milliseconds */
+    scheduledAt?: number;
+    /** Unix time in milliseconds */
+    startedAt?: number;
+    /** Unix time in milliseconds */
+    completedAt?: number;
+    errorMessage?: string;
+    resultUrl?: string;
+    /** Unix time in milliseconds */
+    expires?: number;
+    metadata?: ApiSchemas['BackupJobMetadata'];
+  };
+  BackupJobList: {
+    jobs: ApiSchemas['BackupJobResponse'][];
+    total: number;
+  };
+  VapidKey: {
+    key: string;
+  };
+  NotificationRequest: {
+    pubkeys?: string[];
+    template?: string;
+    args?: Record<string, unknown>;
+    title?: string;
+    body?: string;
+    icon?: string;
+    url?: string;
+  };
+  NotificationResult: {
+    success: Array<{
+      pubkey: string;
+      successCount: number;
+      failCount: number;
+    }>;
+    failed: Array<{
+      pubkey: string;
+      reason: string;
+      deviceCount: number;
+    }>;
+    filtered: Array<{
+      pubkey: string;
+      reason: string;
+    }>;
+    limited: Array<{
+      pubkey: string;
+      reason: string;
+    }>;
+    summary: {
+      totalTargeted: number;
+      successful: number;
+      failed: number;
+      filtered: number;
+      limited: number;
+    };
+  };
+  NotificationStatus: {
+    pubkey: string;
+    hasSubscription: boolean;
+    deviceCount: number;
+    isPremium: boolean;
+    settings: {
+      enabled: boolean;
+    };
+    notifications: {
+      count24h: number;
+      dailyLimit: number;
+      remaining: number;
+    };
+  };
+  DeviceInfo: {
+    deviceId: string;
+    endpoint: string;
+    userAgent?: string;
+    created: number;
+    modified: number;
+  };
+  DevicesResponse: {
+    pubkey: string;
+    deviceCount: number;
+    devices: ApiSchemas['DeviceInfo'][];
+  };
+  CreatePaymentRequest: {
+    tierName: ApiSchemas['Tier'];
+    billingCycle: ApiSchemas['BillingCycle'];
+    pubkey: string;
+  };
+  Payment: {
+    id: string;
+    type: string;
+    paymentType: string;
+    lnHash?: string;
+    lnInvoice: string;
+    lnAmountSat: number;
+    tier: ApiSchemas['Tier'];
+    billingCycle: ApiSchemas['BillingCycle'];
+    priceCents: number;
+    pubkey: string;
+    isPaid: boolean;
+    /** Unix time in milliseconds */
+    paid?: number;
+    /** Unix time in milliseconds */
+    expires: number;
+    status: 'pending' | 'expired' | 'paid' | 'cancelled' | (string & {});
+    /** Unix time in milliseconds */
+    created: number;
+    /** Unix time in milliseconds */
+    modified: number;
+  };
+  UserSettings: {
+    pubkey: string;
+    tier: ApiSchemas['Tier'];
+    displayName?: string;
+    bio?: string;
+    picture?: string;
+    banner?: string;
+    nip05?: string;
+    lud16?: string;
+    website?: string;
+    socialSharing?: boolean;
+    /** Unix time in milliseconds */
+    created: number;
+    /** Unix time in milliseconds */
+    updated: number;
+  };
+  /** Fields to change; anything left out keeps its value */
+  SaveUserSettingsRequest: {
+    pubkey?: string;
+    tier?: ApiSchemas['Tier'];
+    displayName?: string;
+    bio?: string;
+    picture?: string;
+    banner?: string;
+    nip05?: string;
+    lud16?: string;
+    website?: string;
+    socialSharing?: boolean;
+  };
+  AdminSetUserSettingsRequest: {
+    pubkey: string;
+    targetPubkey: string;
+    tier?: ApiSchemas['Tier'];
+    displayName?: string;
+    bio?: string;
+    picture?: string;
+    banner?: string;
+    nip05?: string;
+    lud16?: string;
+    website?: string;
+  };
+  GrokResponseModelConfig: {
+    enabled: boolean;
+    inputTokenNanosUsd: number;
+    outputTokenNanosUsd: number;
+  };
+  GrokImageModelConfig: {
+    enabled: boolean;
+    imageNanosUsd: number;
+    includedQuotaEligible: boolean;
+  };
+  GrokAdminConfig: {
+    enabled: boolean;
+    allowResponses: boolean;
+    allowImages: boolean;
+    allowServerSideTools: boolean;
+    guardrails: {
+      responseSafetyMarginPercent: number;
+    };
+    defaults: {
+      responseModel: string;
+      imageModel: string;
+    };
+    topUp: {
+      minimumCents: number;
+      maximumCents: number;
+      defaultOptionsCents: number[];
+      nanosUsdPerCent: number;
+    };
+    quotas: {
+      basic: {
+        includedImagesPerMonth: number;
+      };
+      premium: {
+        includedImagesPerMonth: number;
+      };
+      premiumPlus: {
+        includedImagesPerMonth: number;
+        dailyImageLimit: number;
+      };
+    };
+    pricing: {
+      responses: Record<string, ApiSchemas['GrokResponseModelConfig']>;
+      images: Record<string, ApiSchemas['GrokImageModelConfig']>;
+    };
+  };
+  ServiceStatus: {
+    service: string;
+    version: string;
+    /** Seconds since the service started */
+    uptime: number;
+    environment: 'development' | 'staging' | 'production' | (string & {});
+    key: string;
+    /** Unix time in milliseconds */
+    timestamp: number;
+    system?: {
+      platform: string;
+      arch: string;
+      /** Bytes, as decimal strings */
+      memory: {
+        total: string;
+        free: string;
+      };
+    };
+  };
+  HealthStatus: {
+    status: 'ok';
+  };
+  PushSubscription: {
+    endpoint: string;
+    keys: {
+      p256dh: string;
+      auth: string;
+    };
+    userAgent?: string;
+  };
+  NotificationData: {
+    title: string;
+    body: string;
+    icon?: string;
+    data?: Record<string, unknown>;
+  };
+}
+
+/** Every operation, keyed by method and path template */
+export interface ApiOperations {
+  /** Subscription tiers with their pricing and entitlements */
+  'GET /account/tiers': {
+    response: Record<string, ApiSchemas['TierDetails']>;
+  };
+  /** The account the Bearer token belongs to */
+  'GET /account': {
+    response: ApiSchemas['Account'];
+  };
+  /** Create an account. Admins sign with NIP-98; without it a paymentId is required */
+  'POST /account': {
+    body: ApiSchemas['AddAccountRequest'];
+    response: ApiSchemas['Account'];
+  };
+  /** Change the account the Bearer token belongs to */
+  'PUT /account': {
+    body: ApiSchemas['UpdateAccountRequest'];
+    response: ApiSchemas['Account'];
+  };
+  /** Accounts, one page at a time, sorted and filtered (admin) */
+  'GET /account/list': {
+    query: {
+      /** Page size (default 100) */
+      limit?: number;
+      /** Proposed, not in the API yet: `nextCursor` of the previous page; omit for the first page */
+      cursor?: string;
+      /** Proposed, not in the API yet: Field to sort by (default signupDate) */
+      sort?: 'signupDate' | 'lastLoginDate' | 'expires' | 'tier';
+      /** Proposed, not in the API yet: Sort direction (default desc) */
+      order?: 'asc' | 'desc';
+      /** Proposed, not in the API yet: Only accounts on this tier */
+      tier?: ApiSchemas['Tier'];
+      /** Proposed, not in the API yet: Only accounts whose subscription has or hasn't expired */
+      status?: 'active' | 'expired';
+      /** Proposed, not in the API yet: Only accounts with (true) or without (false) a username */
+      hasUsername?: boolean;
+      /** Proposed, not in the API yet: Only accounts with (true) or without (false) an X connection */
+      xConnected?: boolean;
+      /** Proposed, not in the API yet: Only accounts that signed up at or after this time (ms) */
+      signupFrom?: number;
+      /** Proposed, not in the API yet: Only accounts that signed up before this time (ms) */
+      signupTo?: number;
+    };
+    response: ApiSchemas['AccountListPage'] | ApiSchemas['AccountListItem'][];
+  };
+  /** Whether a username is valid and free */
+  'GET /account/check/{username}': {
+    params: {
+      username: string;
+    };
+    response: ApiSchemas['UsernameCheck'];
+  };
+  /** Public details of an account */
+  'GET /account/{pubkeyOrUsername}': {
+    params: {
+      /** Hex pubkey or username */
+      pubkeyOrUsername: string;
+    };
+    response: ApiSchemas['PublicAccount'];
+  };
+  /** Extend a subscription without an invoice (admin) */
+  'POST /account/{pubkey}/extend': {
+    params: {
+      pubkey: string;
+    };
+    body: ApiSchemas['ExtendSubscriptionRequest'];
+    response: ApiSchemas['ExtendSubscriptionResponse'];
+  };
+  /** Proposed, not in the API yet: Any account's full record (admin) */
+  'GET /account/admin/{pubkey}': {
+    params: {
+      pubkey: string;
+    };
+    response: ApiSchemas['Account'];
+  };
+  /** Proposed, not in the API yet: Signup, payments and extensions of an account, oldest first (admin) */
+  'GET /account/admin/{pubkey}/history': {
+    params: {
+      pubkey: string;
+    };
+    response: ApiSchemas['SubscriptionEvent'][];
+  };
+  /** Proposed, not in the API yet: Backup jobs of an account, newest first (admin) */
+  'GET /account/admin/{pubkey}/backups': {
+    params: {
+      pubkey: string;
+    };
+    response: ApiSchemas['BackupJobList'];
+  };
+  /** Proposed, not in the API yet: Web push devices registered for an account (admin) */
+  'GET /account/admin/{pubkey}/devices': {
+    params: {
+      pubkey: string;
+    };
+    response: ApiSchemas['DevicesResponse'];
+  };
+  /** Proposed, not in the API yet: Notification status of an account (admin) */
+  'GET /account/admin/{pubkey}/notifications': {
+    params: {
+      pubkey: string;
+    };
+    response: ApiSchemas['NotificationStatus'];
+  };
+  /** Backup jobs of the Bearer token's account */
+  'GET /backup': {
+    query: {
+      /** At most this many jobs (default 20) */
+      limit?: number;
+    };
+    response: ApiSchemas['BackupJobList'];
+  };
+  /** Request a backup */
+  'POST /backup': {
+    body: ApiSchemas['CreateBackupJobRequest'];
+    response: ApiSchemas['BackupJobResponse'];
+  };
+  /** One backup job */
+  'GET /backup/{jobId}': {
+    params: {
+      jobId: string;
+    };
+    response: ApiSchemas['BackupJobResponse'];
+  };
+  /** The VAPID public key for web push */
+  'GET /key': {
+    response: ApiSchemas['VapidKey'];
+  };
+  /** Send a push notification to some or all accounts */
+  'POST /notification/send': {
+    body: ApiSchemas['NotificationRequest'];
+    response: ApiSchemas['NotificationResult'];
+  };
+  /** Push subscription and daily limit of an account */
+  'GET /notification/status/{pubkey}': {
+    params: {
+      pubkey: string;
+    };
+    response: ApiSchemas['NotificationStatus'];
+  };
+  /** Proposed, not in the API yet: Payments, newest first (admin) */
+  'GET /payment': {
+    query: {
+      /** At most this many payments (default 50) */
+      limit?: number;
+      /** Only payments of this account */
+      pubkey?: string;
+    };
+    response: ApiSchemas['Payment'][];
+  };
+  /** Create a Lightning invoice for a subscription */
+  'POST /payment': {
+    body: ApiSchemas['CreatePaymentRequest'];
+    response: ApiSchemas['Payment'];
+  };
+  /** One payment, with its current status */
+  'GET /payment/{pubkey}/{paymentId}': {
+    params: {
+      pubkey: string;
+      paymentId: string;
+    };
+    response: ApiSchemas['Payment'];
+  };
+  /** Change another account's settings (admin) */
+  'POST /settings/admin/set-user-settings': {
+    body: ApiSchemas['AdminSetUserSettingsRequest'];
+    response: ApiSchemas['SuccessMessage'];
+  };
+  /** Settings of an account */
+  'GET /settings/{pubkey}': {
+    params: {
+      pubkey: string;
+    };
+    response: ApiSchemas['UserSettings'];
+  };
+  /** Create or update settings; fields left out keep their value */
+  'POST /settings/{pubkey}': {
+    params: {
+      pubkey: string;
+    };
+    body: ApiSchemas['SaveUserSettingsRequest'];
+    response: ApiSchemas['UserSettings'];
+  };
+  /** Delete the settings of an account */
+  'DELETE /settings/{pubkey}': {
+    params: {
+      pubkey: string;
+    };
+    response: ApiSchemas['SuccessMessage'];
+  };
+  /** Hosted Grok configuration (admin) */
+  'GET /grok/admin/config': {
+    response: ApiSchemas['GrokAdminConfig'];
+  };
+  /** Replace the hosted Grok configuration (admin) */
+  'PUT /grok/admin/config': {
+    body: ApiSchemas['GrokAdminConfig'];
+    response: ApiSchemas['GrokAdminConfig'];
+  };
+  /** Service version, uptime and server time */
+  'GET /status': {
+    response: ApiSchemas['ServiceStatus'];
+  };
+  /** Liveness check */
+  'GET /status/health': {
+    response: ApiSchemas['HealthStatus'];
+  };
+  /** Send a test notification to an account's devices */
+  'POST /subscription/send/{pubkey}': {
+    params: {
+      pubkey: string;
+    };
+    body: ApiSchemas['NotificationData'];
+    response: ApiSchemas['SuccessMessage'];
+  };
+  /** Register a browser for web push */
+  'POST /subscription/webpush/{pubkey}': {
+    params: {
+      pubkey: string;
+    };
+    body: ApiSchemas['PushSubscription'];
+    response: ApiSchemas['SuccessMessage'];
+  };
+}
@@ -0,0 +1,59 @@
+import { AbstractControl, ValidationErrors } from '@angular/forms';
+import { decode, npubEncode } from 'nostr-tools/nip19';
+
+const HEX_PUBKEY = /^[0-9a-f]{64}$/i;
+/** `name@domain`, with the name characters NIP-05 allows */
+const NIP05_ADDRESS = /^([a-z0-9._-]+)@([a-z0-9-]+(?:\.[a-z0-9-]+)+)$/i;
+
+/**
+ * What an admin typed where a pubkey is expected: a key it spells out itself,
+ * or a NIP-05 address that still has to be looked up
+ */
+export type ParsedPubkey =
+  | { type: 'hex' | 'npub' | 'nprofile'; pubkey: string }
+  | { type: 'nip05'; name: string; domain: string };
+
+/**
+ * Read a hex key, `npub`, `nprofile` or NIP-05 address, with or without a `nostr:` prefix
+ * @returns What the input is, or null if it is none of these
+ */
+export function parsePubkeyInput(input: string): ParsedPubkey | null {
+  const value = input.trim().replace(/^nostr:/i, '');
+  if (HEX_PUBKEY.test(value)) {
+    return { type: 'hex', pubkey: value.toLowerCase() };
+  }
+
+  const address = value.match(NIP05_ADDRESS);
+  if (address) {
+    return { type: 'nip05', name: address[1].toLowerCase(), domain: address[2].toLowerCase() };
+  }
+
+  if (/^(npub|nprofile)1/i.test(value)) {
+    try {
+      const decoded = decode(value.toLowerCase());
+      if (decoded.type === 'npub') return { type: 'npub', pubkey: decoded.data };
+      if (decoded.type === 'nprofile') return { type: 'nprofile', pubkey: decoded.data.pubkey };
+    } catch {
+      // Bad checksum or length
+    }
+  }
+  return null;
+}
+
+/**
+ * The `npub` of a hex pubkey, or null if it isn't one
+ */
+export function toNpub(pubkey: string): string | null {
+  return HEX_PUBKEY.test(pubkey) ? npubEncode(pubkey.toLowerCase()) : null;
+}
+
+/**
+ * Requires a 64-character hex pubkey. Pubkey inputs write the hex key once they
+ * have resolved what was typed, and the raw text until then, so an npub or NIP-05
+ * address that hasn't resolved keeps the form invalid. Empty values pass; pair
+ * with `Validators.required`.
+ */
+export function pubkeyValidator(control: AbstractControl): ValidationErrors | null {
+  const value = control.value;
+  return !value || (typeof value === 'string' && HEX_PUBKEY.test(value)) ? null : { pubkey: true };
+}
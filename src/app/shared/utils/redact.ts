@@ -0,0 +1,77 @@
+import { HttpHeaders } from '@angular/common/http';
+
+export const REDACTED = '[redacted]';
+
+/** Cut captured bodies off here; the activity log is for reading, not replaying */
+const MAX_BODY_LENGTH = 16 * 1024;
+
+// Credentials that can be replayed or used to sign; `pubkey` and friends are public and stay
+const SECRET_HEADERS = new Set(['authorization', 'x-api-key', 'cookie', 'set-cookie']);
+const SECRET_KEYS = /^(password|passphrase|secret|token|access_?token|refresh_?token|api_?key|private_?key|nsec|ncryptsec|auth|authorization|bunker_?url)$|secret|password/i;
+const SECRET_VALUES = /\b(nsec1[02-9ac-hj-np-z]+|ncryptsec1[02-9ac-hj-np-z]+|bunker:\/\/\S+)/g;
+
+/**
+ * Header values with credentials replaced. The Authorization scheme is kept,
+ * so it still shows whether a request used NIP-98 or a Bearer token.
+ */
+export function redactHeaders(headers: HttpHeaders): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  for (const name of headers.keys()) {
+    const value = headers.getAll(name)?.join(', ') ?? '';
+    if (!SECRET_HEADERS.has(name.toLowerCase())) {
+      redacted[name] = value;
+    } else if (name.toLowerCase() === 'authorization') {
+      redacted[name] = `${value.split(' ')[0]} ${REDACTED}`;
+    } else {
+      redacted[name] = REDACTED;
+    }
+  }
+  return redacted;
+}
+
+/**
+ * A readable copy of a request or response body with secrets removed, or
+ * undefined if there is none
+ * @param body Anything HttpClient sends or receives
+ */
+export function redactBody(body: unknown): string | undefined {
+  if (body === null || body === undefined) return undefined;
+
+  if (body instanceof ArrayBuffer) {
+    const bytes = body;
+    try {
+      body = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch {
+      return `[binary, ${bytes.byteLength} bytes]`;
+    }
+  }
+  if (body instanceof Blob) return `[${body.type || 'binary'}, ${body.size} bytes]`;
+  if (body instanceof FormData) return '[multipart form data]';
+  if (body instanceof URLSearchParams) body = body.toString();
+
+  let text: string;
+  if (typeof body === 'string') {
+    try {
+      text = JSON.stringify(redactJson(JSON.parse(body)), null, 2);
+    } catch {
+      text = body;
+    }
+  } else {
+    text = JSON.stringify(redactJson(body), null, 2);
+  }
+
+  text = text.replace(SECRET_VALUES, REDACTED);
+  return text.length > MAX_BODY_LENGTH ? `${text.slice(0, MAX_BODY_LENGTH)}… [truncated]` : text;
+}
+
+function redactJson(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactJson);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, inner]) =>
+      [key, SECRET_KEYS.test(key) && inner !== null && typeof inner !== 'object' ? REDACTED : redactJson(inner)]
+    ));
+  }
+  return value;
+}
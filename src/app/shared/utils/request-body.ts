@@ -0,0 +1,61 @@
+/**
+ * Anything ApiService accepts as a request body. Plain objects and arrays are sent as JSON.
+ */
+export type RequestBody =
+  | Record<string, any>
+  | unknown[]
+  | string
+  | Uint8Array
+  | ArrayBuffer
+  | Blob
+  | FormData
+  | URLSearchParams;
+
+export interface EncodedRequestBody {
+  /** The exact bytes sent on the wire, and hashed into the NIP-98 payload tag */
+  bytes: Uint8Array<ArrayBuffer>;
+  contentType: string;
+}
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Serialize a request body once, up front. Sending these bytes instead of the
+ * original body keeps the NIP-98 payload hash and the request in sync; for
+ * FormData that includes the multipart boundary, which the browser would otherwise
+ * pick on its own.
+ * @param body The request body
+ * @returns The bytes to send and their Content-Type
+ */
+export async function encodeRequestBody(body: RequestBody): Promise<EncodedRequestBody> {
+  if (typeof body === 'string') {
+    return { bytes: textEncoder.encode(body), contentType: 'text/plain;charset=UTF-8' };
+  }
+
+  if (body instanceof Uint8Array) {
+    // Copy, so later changes to the caller's buffer can't desync body and signature
+    return { bytes: new Uint8Array(body), contentType: 'application/octet-stream' };
+  }
+
+  if (body instanceof ArrayBuffer) {
+    return { bytes: new Uint8Array(body), contentType: 'application/octet-stream' };
+  }
+
+  if (body instanceof Blob) {
+    return {
+      bytes: new Uint8Array(await body.arrayBuffer()),
+      contentType: body.type || 'application/octet-stream'
+    };
+  }
+
+  if (body instanceof FormData || body instanceof URLSearchParams) {
+    // Let the browser do the encoding, then keep its bytes and boundary
+    const response = new Response(body);
+    return {
+      bytes: new Uint8Array(await response.arrayBuffer()),
+      contentType: response.headers.get('Content-Type')!
+    };
+  }
+
+  return { bytes: textEncoder.encode(JSON.stringify(body)), contentType: 'application/json' };
+}
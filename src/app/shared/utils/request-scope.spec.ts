@@ -0,0 +1,32 @@
+import { DestroyRef } from '@angular/core';
+import { RequestScope } from './request-scope';
+
+describe('RequestScope', () => {
+  let destroy: () => void;
+  let scope: RequestScope;
+
+  beforeEach(() => {
+    const destroyRef = { onDestroy: (callback: () => void) => (destroy = callback) } as unknown as DestroyRef;
+    scope = new RequestScope(destroyRef);
+  });
+
+  it('should abort the previous call of the same kind only', () => {
+    const first = scope.latest('lookup');
+    const other = scope.latest('list');
+    const second = scope.latest('lookup');
+
+    expect(first.aborted).toBeTrue();
+    expect(other.aborted).toBeFalse();
+    expect(second.aborted).toBeFalse();
+  });
+
+  it('should abort everything when the component is destroyed', () => {
+    const latest = scope.latest('lookup');
+
+    destroy();
+
+    expect(latest.aborted).toBeTrue();
+    expect(scope.signal.aborted).toBeTrue();
+    expect(scope.latest('lookup').aborted).toBeTrue();
+  });
+});
@@ -0,0 +1,60 @@
+import { DestroyRef } from '@angular/core';
+import { EMPTY, MonoTypeOperatorFunction, fromEvent, takeUntil } from 'rxjs';
+
+/**
+ * Unsubscribe from the source when `signal` aborts, which cancels an HttpClient request.
+ * Completes without a value, so `firstValueFrom` rejects.
+ */
+export function abortWith<T>(signal: AbortSignal): MonoTypeOperatorFunction<T> {
+  return source => signal.aborted ? EMPTY : source.pipe(takeUntil(fromEvent(signal, 'abort')));
+}
+
+/**
+ * Ties a component's API requests to its lifetime. Pass a signal from here as
+ * `{ signal }` and check `signal.aborted` before using the response:
+ *
+ * ```ts
+ * const signal = this.requests.latest('lookup');
+ * const response = await this.apiService.getPublicAccount(query, { signal });
+ * if (signal.aborted) return;
+ * ```
+ */
+export class RequestScope {
+  private readonly lifetime = new AbortController();
+  private readonly latestByKey = new Map<string, AbortController>();
+
+  constructor(destroyRef: DestroyRef) {
+    destroyRef.onDestroy(() => this.lifetime.abort());
+  }
+
+  /** Aborted when the component is destroyed */
+  get signal(): AbortSignal {
+    return this.lifetime.signal;
+  }
+
+  /**
+   * A signal for the newest call of one kind, e.g. a search. Calling this again
+   * with the same key aborts the previous signal, so a slow response can never
+   * overwrite a newer one. Also aborted when the component is destroyed.
+   */
+  latest(key: string): AbortSignal {
+    this.latestByKey.get(key)?.abort();
+
+    const controller = new AbortController();
+    this.latestByKey.set(key, controller);
+    if (this.lifetime.signal.aborted) {
+      controller.abort();
+    } else {
+      this.lifetime.signal.addEventListener('abort', () => controller.abort(), { once: true, signal: controller.signal });
+    }
+    return controller.signal;
+  }
+
+  /**
+   * Abort the newest call of one kind without starting another
+   */
+  cancel(key: string): void {
+    this.latestByKey.get(key)?.abort();
+    this.latestByKey.delete(key);
+  }
+}
@@ -0,0 +1,59 @@
+import { SchemaError, array, arrayOfKnown, number, object, oneOf, openOneOf, optional, string, validate } from './schema';
+
+describe('schema', () => {
+  interface Job {
+    id: string;
+    status: 'pending' | 'done';
+    attempts?: number;
+  }
+
+  const jobs = array(object<Job>({
+    id: string(),
+    status: oneOf('pending', 'done'),
+    attempts: optional(number())
+  }));
+
+  function errorFor(value: unknown): SchemaError {
+    try {
+      validate(jobs, value);
+    } catch (error) {
+      if (error instanceof SchemaError) return error;
+      throw error;
+    }
+    throw new Error('Expected a SchemaError');
+  }
+
+  it('should return values that match, keeping fields it does not know', () => {
+    const value = [{ id: 'a', status: 'done', attempts: 2, extra: true }];
+
+    expect(validate(jobs, value)).toEqual(value as Job[]);
+  });
+
+  it('should name the first value that does not match', () => {
+    const error = errorFor([{ id: 'a', status: 'done' }, { id: 'b', status: 'pending', attempts: '3' }]);
+
+    expect(error.path).toBe('$[1].attempts');
+    expect(error.message).toBe('$[1].attempts: expected a number, got "3"');
+  });
+
+  it('should report missing required fields and wrong containers', () => {
+    expect(errorFor([{ status: 'done' }]).path).toBe('$[0].id');
+    expect(errorFor({ jobs: [] }).message).toBe('$: expected an array, got an object');
+  });
+
+  it('should leave out entries with a value it does not know yet, and still check the rest', () => {
+    const status = oneOf('pending', 'done');
+    const known = arrayOfKnown(object<Job>({ id: string(), status, attempts: optional(number()) }), 'status', status);
+
+    expect(validate(known, [{ id: 'a', status: 'done' }, { id: 'b', status: 'archived' }])).toEqual([{ id: 'a', status: 'done' }]);
+    expect(() => validate(known, [{ id: 'a', status: 'archived' }, { id: 1, status: 'done' }])).toThrowError(SchemaError, /^\$\[1\]\.id:/);
+    expect(() => validate(known, [{ id: 'a', status: 3 }])).toThrowError(SchemaError, /^\$\[0\]\.status:/);
+  });
+
+  it('should let an extensible enum take values added on the server, but only strings', () => {
+    const status = openOneOf('pending', 'done');
+
+    expect(validate(status, 'archived')).toBe('archived');
+    expect(() => validate(status, 3)).toThrowError(SchemaError, '$: expected a string, got number 3');
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Checks that an untrusted value (e.g. a parsed response body) has the expected
+ * shape and returns it typed. Throws a `SchemaError` naming the first value that doesn't fit.
+ */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+/** Where a value didn't match its schema, e.g. `$.jobs[2].status` */
+export class SchemaError extends Error {
+  constructor(
+    readonly path: string,
+    readonly expected: string,
+    readonly received: string
+  ) {
+    super(`${path}: expected ${expected}, got ${received}`);
+    this.name = 'SchemaError';
+  }
+}
+
+/**
+ * Check `value` against `schema`, with `$` as the root of the reported paths
+ */
+export function validate<T>(schema: Schema<T>, value: unknown): T {
+  return schema(value, '$');
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+  if (typeof value === 'number' || typeof value === 'boolean') return `${typeof value} ${value}`;
+  return typeof value === 'object' ? 'an object' : String(value);
+}
+
+function typed<T>(expected: string, matches: (value: unknown) => boolean): Schema<T> {
+  return (value, path) => {
+    if (!matches(value)) throw new SchemaError(path, expected, describe(value));
+    return value as T;
+  };
+}
+
+export const string = (): Schema<string> => typed('a string', value => typeof value === 'string');
+export const number = (): Schema<number> => typed('a number', value => typeof value === 'number' && Number.isFinite(value));
+export const boolean = (): Schema<boolean> => typed('a boolean', value => typeof value === 'boolean');
+/** Anything at all, for fields the portal only passes through */
+export const anything = (): Schema<unknown> => value => value;
+
+export function oneOf<const T extends readonly string[]>(...values: T): Schema<T[number]> {
+  return typed(`one of ${values.map(value => `"${value}"`).join(', ')}`, value => values.includes(value as string));
+}
+
+/**
+ * One of `values` or any other string, for enums the server may extend after this build.
+ * The values only type the result; the portal shows one it doesn't know as it is.
+ */
+export function openOneOf<const T extends readonly string[]>(..._values: T): Schema<T[number] | (string & {})> {
+  return typed('a string', value => typeof value === 'string');
+}
+
+/** Also accepts `undefined` and, since servers often send it for missing values, `null`, which becomes `undefined` */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => value === undefined || value === null ? undefined : schema(value, path);
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  const isArray = typed<unknown[]>('an array', Array.isArray);
+  return (value, path) => isArray(value, path).map((entry, i) => item(entry, `${path}[${i}]`));
+}
+
+/**
+ * An array of `item` that leaves out entries whose `field` is a string `known` rejects,
+ * e.g. a feature key added on the server after this build, instead of failing the
+ * whole response. Every other entry must still match `item`.
+ */
+export function arrayOfKnown<T, K extends keyof T & string>(item: Schema<T>, field: K, known: Schema<T[K]>): Schema<T[]> {
+  const isArray = typed<unknown[]>('an array', Array.isArray);
+  const isUnknown = (entry: unknown): boolean => {
+    const value = (entry as Record<string, unknown> | null)?.[field];
+    if (typeof value !== 'string') return false;
+    try {
+      known(value, '');
+      return false;
+    } catch {
+      return true;
+    }
+  };
+  return (value, path) => isArray(value, path).flatMap((entry, i) => isUnknown(entry) ? [] : [item(entry, `${path}[${i}]`)]);
+}
+
+const isObject = typed<Record<string, unknown>>('an object', value => typeof value === 'object' && value !== null && !Array.isArray(value));
+
+export function record<T>(entry: Schema<T>): Schema<Record<string, T>> {
+  return (value, path) => {
+    const checked = isObject(value, path);
+    return Object.fromEntries(Object.entries(checked).map(([key, field]) => [key, entry(field, `${path}.${key}`)]));
+  };
+}
+
+/**
+ * An object with at least these fields. Every field of `T` needs a schema, so the
+ * schema can't fall behind its interface; fields the server adds are let through.
+ */
+export function object<T extends object>(shape: { [K in keyof Required<T>]: Schema<T[K]> }): Schema<T> {
+  return (value, path) => {
+    const checked: Record<string, unknown> = { ...isObject(value, path) };
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const field = shape[key](checked[key], `${path}.${key}`);
+      if (field === undefined) {
+        delete checked[key];
+      } else {
+        checked[key] = field;
+      }
+    }
+    return checked as T;
+  };
+}
@@ -1,4 +1,27 @@
+import { AdminEntry, AdminRole } from '../app/shared/models/api.models';
+
 export const environment = {
   production: true,
-  apiBaseUrl: 'https://api.nostria.app'
+  apiBaseUrl: 'https://api.nostria.app',
+
+  // How long identical NIP-98 requests share one signed token. Keep below the
+  // server's 60 second window; set to 0 if the API rejects replayed tokens.
+  nip98TokenCacheSeconds: 50,
+
+  // Requests that take longer than this are aborted. Idempotent ones (GET, PUT, DELETE)
+  // are retried with jittered exponential backoff; POST and PATCH never are.
+  requestTimeoutMs: 30_000,
+  requestRetries: 2,
+  retryBaseDelayMs: 500,
+  // Give up rather than wait when the server's Retry-After asks for longer than this
+  maxRetryDelayMs: 30_000,
+
+  // Answer API requests from the in-memory mock backend instead of the network
+  useMockBackend: false,
+
+  // Admin pubkeys (hex) and their portal roles. The API enforces its own checks; this only shapes the UI.
+  // Deployments list their admins in config.json, which replaces this list at startup.
+  admins: [] as AdminEntry[],
+  // Unlisted pubkeys get no access in production
+  unlistedAdminRoles: [] as AdminRole[]
 };
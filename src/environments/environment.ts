@@ -1,5 +1,29 @@
+import { AdminEntry, AdminRole } from '../app/shared/models/api.models';
+
 export const environment = {
   production: false,
-  apiBaseUrl: 'http://localhost:3000/api'
+  apiBaseUrl: 'http://localhost:3000/api',
   // apiBaseUrl: 'https://api.nostria.app'
+
+  // How long identical NIP-98 requests share one signed token. Keep below the
+  // server's 60 second window; set to 0 if the API rejects replayed tokens.
+  nip98TokenCacheSeconds: 50,
+
+  // Requests that take longer than this are aborted. Idempotent ones (GET, PUT, DELETE)
+  // are retried with jittered exponential backoff; POST and PATCH never are.
+  requestTimeoutMs: 30_000,
+  requestRetries: 2,
+  retryBaseDelayMs: 500,
+  // Give up rather than wait when the server's Retry-After asks for longer than this
+  maxRetryDelayMs: 30_000,
+
+  // Answer API requests from the in-memory mock backend instead of the network.
+  // `npm run start:mock` turns this on; a config.json preset with "mock": true does the same at runtime.
+  useMockBackend: false,
+
+  // Admin pubkeys (hex) and their portal roles. The API enforces its own checks; this only shapes the UI.
+  // An `admins` list in config.json replaces this one at startup.
+  admins: [] as AdminEntry[],
+  // Roles granted to signed-in pubkeys that are not listed above
+  unlistedAdminRoles: ['admin'] as AdminRole[]
 };